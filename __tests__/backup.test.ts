@@ -0,0 +1,181 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    createBackup,
+    getBackupsDir,
+    listBackups,
+    readManifest,
+    restoreBackup,
+} from '../src/backup.js';
+import { CommandOptions, ExitCode } from '../src/cli.js';
+import { runRollback } from '../src/rollback.js';
+
+vi.mock('../src/qbittorrent.js', async (importOriginal) => ({
+    ...(await importOriginal<object>()),
+    isQBitRunning: vi.fn(async () => false),
+}));
+
+describe('backups', () => {
+    let dir: string;
+    let target: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qbt-backup-'));
+        target = path.join(dir, 'qBittorrent', 'BT_backup');
+        fs.mkdirSync(target, { recursive: true });
+        fs.writeFileSync(path.join(target, 'old.fastresume'), 'old');
+        fs.writeFileSync(
+            path.join(dir, 'qBittorrent', 'qBittorrent.conf'),
+            'a',
+        );
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const read = (file: string): string =>
+        fs.readFileSync(path.join(target, file), 'utf8');
+
+    // Writes like a migration: each file is recorded before it is written
+    const migrate = async (): Promise<string> => {
+        const backup = await createBackup(target);
+        for (const file of ['old.fastresume', 'new.fastresume']) {
+            backup.recordWrite(path.join(target, file));
+            fs.writeFileSync(path.join(target, file), 'migrated');
+        }
+        fs.writeFileSync(
+            path.join(dir, 'qBittorrent', 'qBittorrent.conf'),
+            'b',
+        );
+        return backup.dir;
+    };
+
+    it('snapshots BT_backup and qBittorrent.conf next to BT_backup', async () => {
+        const backup = await createBackup(target);
+
+        expect(path.dirname(backup.dir)).toBe(getBackupsDir(target));
+        expect(
+            fs.readFileSync(
+                path.join(backup.dir, 'BT_backup', 'old.fastresume'),
+                'utf8',
+            ),
+        ).toBe('old');
+        expect(backup.manifest.configFile).toBe(
+            path.join(dir, 'qBittorrent', 'qBittorrent.conf'),
+        );
+    });
+
+    it('saves each write to the manifest before it happens', async () => {
+        const backup = await createBackup(target);
+
+        backup.recordWrite(path.join(target, 'old.fastresume'));
+        backup.recordWrite(path.join(target, 'new.fastresume'));
+        backup.recordWrite(path.join(target, 'new.fastresume'));
+
+        expect((await readManifest(backup.dir)).files).toEqual([
+            {
+                path: path.join(target, 'old.fastresume'),
+                action: 'overwritten',
+            },
+            { path: path.join(target, 'new.fastresume'), action: 'created' },
+        ]);
+    });
+
+    it('restores overwritten files and deletes created ones', async () => {
+        const backupDir = await migrate();
+
+        expect(await restoreBackup(backupDir)).toEqual({
+            restored: 2,
+            deleted: 1,
+            relocated: 0,
+        });
+        expect(fs.readdirSync(target)).toEqual(['old.fastresume']);
+        expect(read('old.fastresume')).toBe('old');
+        expect(
+            fs.readFileSync(
+                path.join(dir, 'qBittorrent', 'qBittorrent.conf'),
+                'utf8',
+            ),
+        ).toBe('a');
+    });
+
+    it('restores files outside BT_backup from their own copy', async () => {
+        const categories = path.join(dir, 'qBittorrent', 'categories.json');
+        fs.writeFileSync(categories, '{}');
+        const backup = await createBackup(target);
+
+        backup.recordWrite(categories);
+        fs.writeFileSync(categories, '{"Movies":{}}');
+
+        expect(await restoreBackup(backup.dir)).toEqual({
+            restored: 2,
+            deleted: 0,
+            relocated: 0,
+        });
+        expect(fs.readFileSync(categories, 'utf8')).toBe('{}');
+    });
+
+    it('lists the newest backup first', async () => {
+        const first = await createBackup(target);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        const second = await createBackup(target);
+
+        expect(await listBackups(target)).toEqual([second.dir, first.dir]);
+    });
+
+    describe('rollback command', () => {
+        const options = (
+            overrides: Partial<CommandOptions> = {},
+        ): CommandOptions => ({
+            target,
+            yes: true,
+            dryRun: false,
+            verifyPieces: 0,
+            pathMappings: {},
+            driveMappings: {},
+            shareMappings: {},
+            searchRoots: [],
+            skipSettings: false,
+            onConflict: 'merge',
+            unresolved: 'ask',
+            layout: '{category}',
+            relocateMode: 'copy',
+            trackerRules: [],
+            tags: [],
+            ...overrides,
+        });
+
+        it('rolls back the newest backup', async () => {
+            await migrate();
+
+            expect(await runRollback(options())).toBe(ExitCode.Success);
+            expect(read('old.fastresume')).toBe('old');
+        });
+
+        it('changes nothing in a dry run', async () => {
+            await migrate();
+
+            expect(await runRollback(options({ dryRun: true }))).toBe(
+                ExitCode.Success,
+            );
+            expect(read('old.fastresume')).toBe('migrated');
+        });
+
+        it('has nothing to do without a backup', async () => {
+            expect(await runRollback(options())).toBe(ExitCode.NothingToDo);
+        });
+
+        it('fails on a backup that does not exist', async () => {
+            expect(
+                await runRollback(
+                    options({ backup: path.join(dir, 'missing') }),
+                ),
+            ).toBe(ExitCode.Error);
+        });
+    });
+});
@@ -0,0 +1,181 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    chooseBTBackup,
+    findLinuxBTBackups,
+    findWindowsBTBackups,
+    resolveLinuxBTBackup,
+} from '../src/btBackupSearch.js';
+import { isInteractive, promptUserInput } from '../src/prompt.js';
+
+vi.mock('../src/prompt.js', () => ({
+    isInteractive: vi.fn((): boolean => false),
+    promptUserInput: vi.fn(),
+}));
+
+let dir: string;
+
+// A BT_backup with `torrents` resume files, last modified `age` seconds ago
+const makeBTBackup = (
+    relativePath: string,
+    torrents: number,
+    age: number,
+): string => {
+    const btBackup = path.join(dir, relativePath);
+    fs.mkdirSync(btBackup, { recursive: true });
+    for (let i = 0; i < torrents; i++) {
+        fs.writeFileSync(path.join(btBackup, `${i}.fastresume`), 'de');
+    }
+    const modified = new Date(Date.now() - age * 1000);
+    fs.utimesSync(btBackup, modified, modified);
+    return btBackup;
+};
+
+beforeEach(() => {
+    vi.clearAllMocks();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qbt-find-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('findWindowsBTBackups', () => {
+    it('finds installed and portable BT_backups, the most recent first', async () => {
+        const installed = makeBTBackup(
+            'c/users/Me/AppData/Local/qBittorrent/BT_backup',
+            2,
+            3600,
+        );
+        const portable = makeBTBackup(
+            'd/Apps/qBittorrent/profile/qBittorrent/data/BT_backup',
+            1,
+            60,
+        );
+
+        const found = await findWindowsBTBackups([
+            path.join(dir, 'c'),
+            path.join(dir, 'd'),
+        ]);
+
+        expect(found.map(({ path, torrents }) => ({ path, torrents }))).toEqual(
+            [
+                { path: portable, torrents: 1 },
+                { path: installed, torrents: 2 },
+            ],
+        );
+    });
+
+    it('resolves a folder above BT_backup and BT_backup itself', async () => {
+        const btBackup = makeBTBackup(
+            'c/Users/Me/AppData/Local/qBittorrent/BT_backup',
+            1,
+            0,
+        );
+
+        for (const given of [
+            path.join(dir, 'c/Users/Me'),
+            path.join(dir, 'c/Users/Me/AppData/Local/qBittorrent'),
+            btBackup,
+        ]) {
+            expect((await findWindowsBTBackups([given], true))[0]?.path).toBe(
+                btBackup,
+            );
+        }
+    });
+
+    it('only takes whole layouts below a partition root', async () => {
+        makeBTBackup('c/Backup/BT_backup', 1, 0);
+        makeBTBackup('c/Old/qBittorrent/data/BT_backup', 1, 0);
+
+        expect(await findWindowsBTBackups([path.join(dir, 'c')])).toEqual([]);
+    });
+
+    it('finds nothing on a partition without qBittorrent', async () => {
+        fs.mkdirSync(path.join(dir, 'c', 'Users', 'Me'), { recursive: true });
+
+        expect(await findWindowsBTBackups([path.join(dir, 'c')])).toEqual([]);
+        expect(await findWindowsBTBackups([path.join(dir, 'missing')])).toEqual(
+            [],
+        );
+    });
+});
+
+describe('findLinuxBTBackups', () => {
+    it('finds profiles below a folder and BT_backup in a container volume', async () => {
+        const profile = makeBTBackup(
+            'profiles/qBittorrent/data/BT_backup',
+            1,
+            0,
+        );
+        const container = makeBTBackup(
+            'docker/qbittorrent/config/qBittorrent/BT_backup',
+            2,
+            0,
+        );
+
+        expect(
+            (await findLinuxBTBackups(dir)).map((candidate) => candidate.path),
+        ).toEqual([profile]);
+        expect(
+            await findLinuxBTBackups(path.join(dir, 'docker/qbittorrent')),
+        ).toMatchObject([{ path: container, torrents: 2 }]);
+    });
+
+    it('leaves out empty BT_backups qBittorrent did not make', async () => {
+        makeBTBackup('stale/qBittorrent/data/BT_backup', 0, 0);
+
+        expect(await findLinuxBTBackups(dir)).toEqual([]);
+    });
+});
+
+describe('chooseBTBackup', () => {
+    it('takes a listed BT_backup by number, or searches a path', async () => {
+        const first = makeBTBackup('a/qBittorrent/data/BT_backup', 1, 0);
+        const second = makeBTBackup('b/qBittorrent/data/BT_backup', 1, 60);
+        const candidates = await findLinuxBTBackups(dir);
+        vi.mocked(promptUserInput)
+            .mockResolvedValueOnce('3')
+            .mockResolvedValueOnce('2');
+
+        expect(await chooseBTBackup('Linux', candidates)).toBe(second);
+
+        vi.mocked(promptUserInput).mockResolvedValueOnce(path.join(dir, 'a'));
+        expect(await chooseBTBackup('Linux', candidates)).toBe(first);
+    });
+});
+
+describe('resolveLinuxBTBackup', () => {
+    it('resolves a folder above BT_backup, or keeps a path it cannot resolve', async () => {
+        const btBackup = makeBTBackup(
+            'profile/qBittorrent/data/BT_backup',
+            1,
+            0,
+        );
+
+        expect(
+            await resolveLinuxBTBackup(path.join(dir, 'profile'), '--target'),
+        ).toBe(btBackup);
+        expect(
+            await resolveLinuxBTBackup(path.join(dir, 'missing'), '--target'),
+        ).toBe(path.join(dir, 'missing'));
+    });
+
+    it('asks which profile to use when a folder holds several', async () => {
+        makeBTBackup('a/qBittorrent/data/BT_backup', 1, 0);
+        makeBTBackup('b/qBittorrent/data/BT_backup', 1, 0);
+
+        expect(await resolveLinuxBTBackup(dir, '--target')).toBeNull();
+        expect(console.error).toHaveBeenCalledWith(
+            '❌ 2 qBittorrent profiles found, pass one with --target:',
+        );
+
+        vi.mocked(isInteractive).mockReturnValueOnce(true);
+        vi.mocked(promptUserInput).mockResolvedValueOnce('1');
+        expect(await resolveLinuxBTBackup(dir, '--target')).not.toBeNull();
+    });
+});
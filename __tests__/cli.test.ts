@@ -0,0 +1,330 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CliError, parseCli } from '../src/cli.js';
+import { DEFAULT_SAMPLE_PIECES } from '../src/pieceVerifier.js';
+
+describe('parseCli', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qbt-cli-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const writeConfig = (config: unknown): string => {
+        const file = path.join(dir, 'config.json');
+        fs.writeFileSync(
+            file,
+            typeof config === 'string' ? config : JSON.stringify(config),
+        );
+        return file;
+    };
+
+    it('migrates by default', async () => {
+        const { command, help, options } = await parseCli([]);
+
+        expect(command).toBe('migrate');
+        expect(help).toBe(false);
+        expect(options).toMatchObject({
+            yes: false,
+            dryRun: false,
+            verifyPieces: DEFAULT_SAMPLE_PIECES,
+            pathMappings: {},
+            driveMappings: {},
+            shareMappings: {},
+            skipSettings: false,
+            onConflict: 'merge',
+            unresolved: 'ask',
+            layout: '{category}',
+            relocateMode: 'copy',
+            trackerRules: [],
+            tags: [],
+        });
+    });
+
+    it('reads the verify command', async () => {
+        const { command } = await parseCli(['verify', '--target', '/bt']);
+
+        expect(command).toBe('verify');
+    });
+
+    it('reads the reverse command', async () => {
+        const { command } = await parseCli([
+            'reverse',
+            '--target',
+            '/mnt/c/BT_backup',
+        ]);
+
+        expect(command).toBe('reverse');
+    });
+
+    it('reads the sync command', async () => {
+        const { command } = await parseCli(['sync', '--yes']);
+
+        expect(command).toBe('sync');
+    });
+
+    it('reads the flags', async () => {
+        const { options } = await parseCli([
+            'migrate',
+            '--source',
+            '/mnt/c/BT_backup',
+            '--target',
+            '/home/me/BT_backup',
+            '-y',
+            '--dry-run',
+            '--verify-pieces',
+            '0',
+        ]);
+
+        expect(options).toMatchObject({
+            source: '/mnt/c/BT_backup',
+            target: '/home/me/BT_backup',
+            yes: true,
+            dryRun: true,
+            verifyPieces: 0,
+        });
+    });
+
+    it('resolves config directories against the config file', async () => {
+        const config = writeConfig({
+            source: 'windows',
+            yes: true,
+            pathMappings: { 'D:\\Torrents': '/mnt/data/Torrents' },
+        });
+
+        const { options } = await parseCli(['--config', config]);
+
+        expect(options.source).toBe(path.join(dir, 'windows'));
+        expect(options.yes).toBe(true);
+        expect(options.pathMappings).toEqual({
+            'D:\\Torrents': '/mnt/data/Torrents',
+        });
+    });
+
+    it('lets flags win over the config file', async () => {
+        const config = writeConfig({ target: '/config', verifyPieces: 2 });
+
+        const { options } = await parseCli([
+            '--config',
+            config,
+            '--target',
+            '/flag',
+            '--verify-pieces',
+            '4',
+        ]);
+
+        expect(options.target).toBe('/flag');
+        expect(options.verifyPieces).toBe(4);
+    });
+
+    it('merges drive flags over the config file', async () => {
+        const config = writeConfig({
+            driveMappings: { 'D:': '/mnt/d', 'E:': '/mnt/e' },
+        });
+
+        const { options } = await parseCli([
+            '--config',
+            config,
+            '--drive',
+            'D:=/media/data',
+            '--drive',
+            'F=/media/f',
+        ]);
+
+        expect(options.driveMappings).toEqual({
+            'D:': '/media/data',
+            'E:': '/mnt/e',
+            F: '/media/f',
+        });
+    });
+
+    it('reads the relocation from the config file', async () => {
+        const config = writeConfig({
+            relocate: 'data',
+            layout: '{category}/{name}',
+            relocateMode: 'hardlink',
+        });
+
+        const { options } = await parseCli(['--config', config]);
+
+        expect(options).toMatchObject({
+            relocate: path.join(dir, 'data'),
+            layout: '{category}/{name}',
+            relocateMode: 'hardlink',
+        });
+    });
+
+    it('adds tracker flags after the rules of the config file', async () => {
+        const config = writeConfig({
+            trackerRules: [{ from: 'http:', to: 'https:' }],
+            tags: ['from-config'],
+            category: 'Linux',
+        });
+
+        const { options } = await parseCli([
+            '--config',
+            config,
+            '--tracker',
+            'old.example.org=>new.example.org',
+            '--tag',
+            'migrated',
+        ]);
+
+        expect(options).toMatchObject({
+            trackerRules: [
+                { from: 'http:', to: 'https:' },
+                { from: 'old.example.org', to: 'new.example.org' },
+            ],
+            tags: ['migrated'],
+            category: 'Linux',
+        });
+    });
+
+    it('merges share flags over the config file', async () => {
+        const config = writeConfig({
+            shareMappings: { '\\\\nas\\media': '/mnt/media' },
+        });
+
+        const { options } = await parseCli([
+            '--config',
+            config,
+            '--share',
+            '\\\\nas\\backup=/mnt/backup',
+        ]);
+
+        expect(options.shareMappings).toEqual({
+            '\\\\nas\\media': '/mnt/media',
+            '\\\\nas\\backup': '/mnt/backup',
+        });
+    });
+
+    it('reads the Web UI password from the environment', async () => {
+        const config = writeConfig({
+            webUi: 'http://localhost:8080',
+            webUiPassword: 'from-config',
+        });
+        process.env.QBITTORRENT_PASSWORD = 'from-env';
+
+        try {
+            const { options } = await parseCli([
+                '--config',
+                config,
+                '--webui-user',
+                'admin',
+            ]);
+
+            expect(options).toMatchObject({
+                webUi: 'http://localhost:8080',
+                webUiUsername: 'admin',
+                webUiPassword: 'from-env',
+            });
+        } finally {
+            delete process.env.QBITTORRENT_PASSWORD;
+        }
+    });
+
+    it.each([
+        [['copy'], 'Unknown command: copy'],
+        [['migrate', 'now'], 'Unexpected argument: now'],
+        [['--verify-pieces=-1'], 'must be a non-negative integer'],
+        [['--unknown'], 'Unknown option'],
+        [['--drive', '/mnt/data'], 'Invalid drive mapping'],
+        [['--on-conflict', 'ask'], 'on-conflict must be one of'],
+        [['--unresolved', 'later'], 'unresolved must be one of'],
+        [['--drive', 'Data=/mnt/data'], 'Invalid drive mapping'],
+        [['--share', 'D:\\Media=/mnt/media'], 'Invalid share mapping'],
+        [['--layout', '{label}'], 'Unknown layout field {label}'],
+        [['--relocate-mode', 'rsync'], 'relocate-mode must be one of'],
+        [['--tracker', 'new.example.org'], 'Invalid tracker rule'],
+    ])('rejects %j', async (argv, message) => {
+        await expect(parseCli(argv)).rejects.toThrow(message);
+    });
+
+    it.each([
+        ['invalid JSON', '{ "yes": ', 'Invalid JSON'],
+        ['a list', [], 'must contain a JSON object'],
+        ['a numeric source', { source: 1 }, '"source" in'],
+        ['a string for yes', { yes: 'yes' }, 'must be true or false'],
+        ['a string count', { verifyPieces: '8' }, 'must be a number'],
+        [
+            'a string for skipSettings',
+            { skipSettings: 'no' },
+            '"skipSettings" in',
+        ],
+        [
+            'mappings to numbers',
+            { pathMappings: { 'D:\\': 1 } },
+            'must map Windows paths to Linux paths',
+        ],
+        [
+            'a drive that is not a letter',
+            { driveMappings: { 'Data:': '/mnt/data' } },
+            'Invalid drive "Data:"',
+        ],
+        [
+            'an unknown conflict policy',
+            { onConflict: 'ask' },
+            'on-conflict must be one of',
+        ],
+        [
+            'a single search root',
+            { searchRoots: '/mnt/data' },
+            'must be a list of directories',
+        ],
+        ['a numeric Web UI', { webUi: 8080 }, '"webUi" in'],
+        ['a single tag', { tags: 'migrated' }, '"tags" in'],
+        [
+            'a share mapped to a number',
+            { shareMappings: { '\\\\nas\\media': 1 } },
+            '"shareMappings" in',
+        ],
+        ['a numeric category', { category: 1 }, '"category" in'],
+        [
+            'a single tracker rule',
+            { trackerRules: { from: 'a', to: 'b' } },
+            '"trackerRules" in',
+        ],
+        [
+            'a tracker rule without a target',
+            { trackerRules: [{ from: 'a' }] },
+            '"trackerRules" must be a list',
+        ],
+        [
+            'an invalid tracker pattern',
+            { trackerRules: [{ from: '(', to: '', regex: true }] },
+            'Invalid tracker rule',
+        ],
+        ['a numeric relocate directory', { relocate: 1 }, '"relocate" in'],
+        ['a list as layout', { layout: ['{name}'] }, '"layout" in'],
+        [
+            'a boolean relocate mode',
+            { relocateMode: true },
+            '"relocateMode" in',
+        ],
+        ['a boolean unresolved', { unresolved: true }, '"unresolved" in'],
+        [
+            'a list of conflict policies',
+            { onConflict: ['linux'] },
+            '"onConflict" in',
+        ],
+    ])('rejects a config file with %s', async (_, config, message) => {
+        const file = writeConfig(config);
+
+        const error = await parseCli(['--config', file]).catch((e) => e);
+
+        expect(error).toBeInstanceOf(CliError);
+        expect(error.message).toContain(message);
+    });
+
+    it('rejects a config file it cannot read', async () => {
+        await expect(
+            parseCli(['--config', path.join(dir, 'missing.json')]),
+        ).rejects.toThrow(CliError);
+    });
+});
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import {
+    ConflictPolicy,
+    findConflicts,
+    mergeFastResume,
+} from '../src/conflicts.js';
+import { decodeFastResume } from '../src/fastresume.js';
+import { getText } from '../src/rawBencode.js';
+import { dict, int, list, str } from './fixtures.js';
+
+const HASH = 'ab'.repeat(20);
+
+const resume = (fields: {
+    uploaded: number;
+    added: number;
+    lastUpload?: number;
+    category?: string;
+    tags?: string[];
+}): Buffer =>
+    dict(
+        ['added_time', int(fields.added)],
+        ['last_upload', int(fields.lastUpload ?? 0)],
+        ['qBt-category', str(fields.category ?? '')],
+        ['qBt-tags', list(...(fields.tags ?? []).map((tag) => str(tag)))],
+        ['save_path', str('/mnt/data/Movies')],
+        ['total_uploaded', int(fields.uploaded)],
+    );
+
+// Windows was active last, Linux has uploaded more
+const WINDOWS = resume({
+    uploaded: 100,
+    added: 2000,
+    lastUpload: 5000,
+    tags: ['hd'],
+});
+const LINUX = resume({
+    uploaded: 300,
+    added: 1000,
+    lastUpload: 4000,
+    category: 'Movies',
+    tags: ['hd', 'linux'],
+});
+
+const conflictsFor = (
+    policy: ConflictPolicy,
+    linux = LINUX,
+): ReturnType<typeof findConflicts> =>
+    findConflicts(
+        [{ infohash: HASH, name: 'Movie', fastResume: WINDOWS, torrent: null }],
+        [
+            { infohash: HASH.toUpperCase(), fastResume: linux, torrent: null },
+            { infohash: 'cd'.repeat(20), fastResume: LINUX, torrent: null },
+        ],
+        policy,
+    );
+
+describe('findConflicts', () => {
+    it.each([
+        ['linux', 'keep-linux'],
+        ['windows', 'keep-windows'],
+        ['newest', 'keep-windows'],
+        ['merge', 'merge'],
+    ] as const)('applies the %s policy', (policy, action) => {
+        const [conflict] = conflictsFor(policy);
+
+        expect(conflict.action).toBe(action);
+    });
+
+    it('keeps Linux under the newest policy when it was active last', () => {
+        const [conflict] = conflictsFor(
+            'newest',
+            resume({ uploaded: 300, added: 1000, lastUpload: 6000 }),
+        );
+
+        expect(conflict.action).toBe('keep-linux');
+    });
+
+    it('lists the fields that differ, only for torrents on both sides', () => {
+        const conflicts = conflictsFor('merge');
+
+        expect(conflicts).toHaveLength(1);
+        expect(conflicts[0]).toMatchObject({
+            infohash: HASH,
+            name: 'Movie',
+            differences: ['total_uploaded', 'added_time', 'category', 'tags'],
+        });
+    });
+
+    it('finds nothing different in identical torrents', () => {
+        const [conflict] = conflictsFor('merge', WINDOWS);
+
+        expect(conflict.differences).toEqual([]);
+    });
+});
+
+describe('mergeFastResume', () => {
+    it('keeps the larger counters, the first added time and all tags', () => {
+        const merged = decodeFastResume(mergeFastResume(WINDOWS, LINUX));
+
+        expect(merged.get('total_uploaded')).toBe(300);
+        expect(merged.get('last_upload')).toBe(5000);
+        expect(merged.get('added_time')).toBe(1000);
+        expect(merged.get('qBt-tags')).toEqual([
+            Buffer.from('hd'),
+            Buffer.from('linux'),
+        ]);
+        expect(getText(merged, 'qBt-category')).toBe('Movies');
+        expect(getText(merged, 'save_path')).toBe('/mnt/data/Movies');
+    });
+
+    it('keeps the Windows category when it has one', () => {
+        const windows = resume({ uploaded: 1, added: 1, category: 'Films' });
+
+        const merged = decodeFastResume(mergeFastResume(windows, LINUX));
+
+        expect(getText(merged, 'qBt-category')).toBe('Films');
+    });
+});
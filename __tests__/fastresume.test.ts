@@ -0,0 +1,279 @@
+import crypto from 'crypto';
+import { describe, expect, it } from 'vitest';
+import {
+    buildMagnetUri,
+    decodeFastResume,
+    extractTorrent,
+    getResumeName,
+    labelFastResume,
+    renameFiles,
+    rewriteFastResume,
+    setSavePath,
+    stopFastResume,
+} from '../src/fastresume.js';
+import {
+    createPathTranslator,
+    createWindowsPathTranslator,
+} from '../src/paths.js';
+import { getRawValue, getText, getTextList } from '../src/rawBencode.js';
+import { getInfoHashes } from '../src/torrent.js';
+import { binary, dict, int, list, str, windowsFastResume } from './fixtures.js';
+
+const translatePath = createPathTranslator([
+    { windowsPath: 'D:\\', linuxPath: '/mnt/data' },
+    { windowsPath: 'E:\\', linuxPath: '/mnt/scratch' },
+]);
+
+const UNCHANGED_FIELDS = [
+    'active_time',
+    'file_priority',
+    'info-hash',
+    'info-hash2',
+    'peers',
+    'pieces',
+    'qBt-category',
+    'qBt-tags',
+    'total_downloaded',
+    'total_uploaded',
+    'trackers',
+];
+
+describe('rewriteFastResume', () => {
+    it('translates the path fields', () => {
+        const { content, rewritten, untranslated } = rewriteFastResume(
+            windowsFastResume(),
+            translatePath,
+        );
+
+        const resume = decodeFastResume(content);
+        expect(getText(resume, 'save_path')).toBe('/mnt/data/Torrents/Séries');
+        expect(getText(resume, 'qBt-savePath')).toBe(
+            '/mnt/data/Torrents/Séries',
+        );
+        expect(getText(resume, 'qBt-downloadPath')).toBe(
+            '/mnt/scratch/Incomplete',
+        );
+        expect(rewritten).toEqual([
+            'save_path',
+            'qBt-savePath',
+            'qBt-downloadPath',
+            'mapped_files[1]',
+        ]);
+        expect(untranslated).toEqual([]);
+    });
+
+    it('turns backslashes of renamed files into slashes', () => {
+        const { content } = rewriteFastResume(
+            windowsFastResume(),
+            translatePath,
+        );
+
+        const mappedFiles = decodeFastResume(content).get('mapped_files');
+        expect(mappedFiles).toEqual([
+            Buffer.alloc(0),
+            Buffer.from('Show/Extras/Making of.mkv'),
+            Buffer.alloc(0),
+        ]);
+    });
+
+    it('carries every other field over byte for byte and in order', () => {
+        const original = windowsFastResume();
+
+        const { content } = rewriteFastResume(original, translatePath);
+
+        for (const field of UNCHANGED_FIELDS) {
+            expect(getRawValue(content, field), field).toEqual(
+                getRawValue(original, field),
+            );
+        }
+        expect([...decodeFastResume(content).keys()]).toEqual([
+            ...decodeFastResume(original).keys(),
+        ]);
+    });
+
+    it('reports Windows paths no mapping covers and keeps them', () => {
+        const { content, untranslated } = rewriteFastResume(
+            windowsFastResume(),
+            createPathTranslator([
+                { windowsPath: 'D:\\', linuxPath: '/mnt/data' },
+            ]),
+        );
+
+        expect(untranslated).toEqual(['E:\\Incomplete']);
+        expect(getText(decodeFastResume(content), 'qBt-downloadPath')).toBe(
+            'E:\\Incomplete',
+        );
+    });
+
+    it('translates Linux paths back to Windows ones', () => {
+        const linux = rewriteFastResume(
+            windowsFastResume(),
+            translatePath,
+        ).content;
+
+        const { content, rewritten } = rewriteFastResume(
+            linux,
+            createWindowsPathTranslator([
+                { windowsPath: 'D:\\', linuxPath: '/mnt/data' },
+                { windowsPath: 'E:\\', linuxPath: '/mnt/scratch' },
+            ]),
+            true,
+        );
+
+        const resume = decodeFastResume(content);
+        expect(getText(resume, 'save_path')).toBe('D:\\Torrents\\Séries');
+        expect(getText(resume, 'qBt-downloadPath')).toBe('E:\\Incomplete');
+        // Relative renamed files already work on Windows
+        expect(getTextList(resume, 'mapped_files')[1]).toBe(
+            'Show/Extras/Making of.mkv',
+        );
+        expect(rewritten).toEqual([
+            'save_path',
+            'qBt-savePath',
+            'qBt-downloadPath',
+        ]);
+    });
+
+    it('refuses data the codec cannot reproduce', () => {
+        const unsorted = dict(
+            ['save_path', str('D:\\Torrents')],
+            ['active_time', int(1)],
+        );
+
+        expect(() => rewriteFastResume(unsorted, translatePath)).toThrow(
+            'does not round-trip',
+        );
+    });
+});
+
+describe('fastresume edits', () => {
+    it('keep the binary fields when stopping a torrent', () => {
+        const original = windowsFastResume();
+
+        const content = stopFastResume(original);
+
+        const resume = decodeFastResume(content);
+        expect(resume.get('paused')).toBe(1);
+        expect(resume.get('auto_managed')).toBe(0);
+        expect(resume.get('qBt-stopped')).toBe(1);
+        expect(getRawValue(content, 'pieces')).toEqual(
+            getRawValue(original, 'pieces'),
+        );
+    });
+
+    it('rename files through mapped_files, keeping the other entries', () => {
+        const content = renameFiles(
+            windowsFastResume(),
+            new Map([
+                [0, 'Show/E01.MKV'],
+                [4, 'Show/Subs/en.srt'],
+            ]),
+        );
+
+        expect(getTextList(decodeFastResume(content), 'mapped_files')).toEqual([
+            'Show/E01.MKV',
+            'Show\\Extras\\Making of.mkv',
+            '',
+            '',
+            'Show/Subs/en.srt',
+        ]);
+    });
+
+    it('point the torrent at a new save path without its download folder', () => {
+        const resume = decodeFastResume(
+            setSavePath(windowsFastResume(), '/srv/torrents/Séries'),
+        );
+
+        expect(getText(resume, 'save_path')).toBe('/srv/torrents/Séries');
+        expect(getText(resume, 'qBt-savePath')).toBe('/srv/torrents/Séries');
+        expect(resume.has('qBt-downloadPath')).toBe(false);
+    });
+
+    it('add tags once and replace the category', () => {
+        const resume = decodeFastResume(
+            labelFastResume(windowsFastResume(), ['private', 'migrated'], 'TV'),
+        );
+
+        expect(getTextList(resume, 'qBt-tags')).toEqual([
+            'hd',
+            'private',
+            'migrated',
+        ]);
+        expect(getText(resume, 'qBt-category')).toBe('TV');
+    });
+
+    it('keep the category without a new one', () => {
+        const resume = decodeFastResume(
+            labelFastResume(windowsFastResume(), ['migrated']),
+        );
+
+        expect(getText(resume, 'qBt-category')).toBe('Séries');
+    });
+});
+
+describe('torrents without a .torrent file', () => {
+    const magnetResume = (...fields: [string, Buffer][]): Buffer =>
+        dict(['info-hash', str(binary(20, 1))], ...fields, [
+            'save_path',
+            str('D:\\Torrents'),
+        ]);
+
+    it('take the metadata from the resume data byte for byte', () => {
+        // Keys out of order, which re-encoding the info dictionary would sort
+        const info = dict(
+            ['name', str('movie.mkv')],
+            ['length', int(5000)],
+            ['piece length', int(16384)],
+            ['pieces', str(binary(20, 5))],
+        );
+
+        const torrent = extractTorrent(magnetResume(['info', info]));
+
+        expect(getRawValue(torrent, 'info')).toEqual(info);
+        expect(getInfoHashes(torrent).v1).toBe(
+            crypto.createHash('sha1').update(info).digest('hex'),
+        );
+        expect(extractTorrent(magnetResume())).toBeNull();
+        expect(extractTorrent(windowsFastResume())).toBeNull();
+    });
+
+    it('are named after qBittorrent, libtorrent or the magnet link', () => {
+        expect(getResumeName(windowsFastResume())).toBe('Show');
+        expect(
+            getResumeName(
+                magnetResume([
+                    'magnet-uri',
+                    str('magnet:?xt=urn:btih:ab&dn=Some%20Album'),
+                ]),
+            ),
+        ).toBe('Some Album');
+        expect(getResumeName(magnetResume())).toBeUndefined();
+    });
+
+    it('keep the magnet link they were added with', () => {
+        const magnetUri = 'magnet:?xt=urn:btih:ab&dn=Album';
+
+        expect(
+            buildMagnetUri(
+                magnetResume(['qBt-magnetUri', str(magnetUri)]),
+                'ab'.repeat(20),
+            ),
+        ).toBe(magnetUri);
+    });
+
+    it('get a magnet link built from their hashes, name and trackers', () => {
+        expect(buildMagnetUri(windowsFastResume(), 'ab'.repeat(20))).toBe(
+            'magnet:?' +
+                [
+                    `xt=urn:btih:${binary(20, 1).toString('hex')}`,
+                    `xt=urn:btmh:1220${binary(32, 2).toString('hex')}`,
+                    'dn=Show',
+                    `tr=${encodeURIComponent('https://tracker.example.org/announce?passkey=abc')}`,
+                    `tr=${encodeURIComponent('udp://backup.example.org:1337')}`,
+                ].join('&'),
+        );
+        expect(
+            buildMagnetUri(magnetResume(['trackers', list()]), 'cd'.repeat(20)),
+        ).toBe(`magnet:?xt=urn:btih:${binary(20, 1).toString('hex')}`);
+    });
+});
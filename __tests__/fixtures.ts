@@ -0,0 +1,164 @@
+// Bencoded samples written out by hand, so the tests don't rely on the codec they check
+
+type Raw = Buffer | string;
+
+const toBuffer = (value: Raw): Buffer =>
+    Buffer.isBuffer(value) ? value : Buffer.from(value, 'utf8');
+
+export const str = (value: Raw): Buffer => {
+    const bytes = toBuffer(value);
+    return Buffer.concat([Buffer.from(`${bytes.length}:`), bytes]);
+};
+
+export const int = (value: number | bigint): Buffer =>
+    Buffer.from(`i${value}e`);
+
+export const list = (...items: Buffer[]): Buffer =>
+    Buffer.concat([Buffer.from('l'), ...items, Buffer.from('e')]);
+
+// Fields are written in the order given, which is how unsorted keys are made
+export const dict = (...fields: [Raw, Buffer][]): Buffer =>
+    Buffer.concat([
+        Buffer.from('d'),
+        ...fields.flatMap(([key, value]) => [str(key), value]),
+        Buffer.from('e'),
+    ]);
+
+// Deterministic bytes covering every value, most of them invalid UTF-8
+export const binary = (length: number, seed = 0): Buffer =>
+    Buffer.from(
+        Array.from({ length }, (_, i) => (seed + i * 151 + 0x80) % 256),
+    );
+
+// Larger than Number.MAX_SAFE_INTEGER, only exact as a bigint
+export const HUGE_UPLOAD = 2n ** 53n + 7n;
+
+/**
+ * A fastresume the way libtorrent 2.0 and qBittorrent 4.6 write it on Windows: sorted keys,
+ * binary hashes, pieces and peers, a renamed file, tags and an incomplete-downloads folder.
+ */
+export const windowsFastResume = (
+    overrides: {
+        peers?: Buffer;
+        paused?: number;
+        pieces?: Buffer;
+        ratioLimit?: number;
+        savePath?: string;
+    } = {},
+): Buffer =>
+    dict(
+        ['active_time', int(1234567)],
+        ['added_time', int(1690000000)],
+        ['allocation', str('sparse')],
+        ['auto_managed', int(1)],
+        ['file-format', str('libtorrent resume file')],
+        ['file-version', int(2)],
+        ['file_priority', list(int(1), int(0), int(4))],
+        ['info-hash', str(binary(20, 1))],
+        ['info-hash2', str(binary(32, 2))],
+        ['libtorrent-version', str('2.0.9.0')],
+        [
+            'mapped_files',
+            list(str(''), str('Show\\Extras\\Making of.mkv'), str('')),
+        ],
+        ['name', str('Show')],
+        ['paused', int(overrides.paused ?? 0)],
+        ['peers', str(overrides.peers ?? binary(12, 3))],
+        ['pieces', str(overrides.pieces ?? Buffer.from([1, 1, 0, 1, 1]))],
+        ['qBt-category', str('Séries')],
+        ['qBt-downloadPath', str('E:\\Incomplete')],
+        ['qBt-name', str('')],
+        ...((overrides.ratioLimit === undefined
+            ? []
+            : [['qBt-ratioLimit', int(overrides.ratioLimit)]]) as [
+            string,
+            Buffer,
+        ][]),
+        ['qBt-savePath', str(overrides.savePath ?? 'D:\\Torrents\\Séries')],
+        ['qBt-tags', list(str('hd'), str('private'))],
+        ['save_path', str(overrides.savePath ?? 'D:\\Torrents\\Séries')],
+        ['seeding_time', int(987654)],
+        ['total_downloaded', int(-1)],
+        ['total_uploaded', int(HUGE_UPLOAD)],
+        [
+            'trackers',
+            list(
+                list(str('https://tracker.example.org/announce?passkey=abc')),
+                list(str('udp://backup.example.org:1337')),
+            ),
+        ],
+        ['url-list', list()],
+    );
+
+const fileEntry = (length: number, seed: number): Buffer =>
+    dict([
+        '',
+        dict(['length', int(length)], ['pieces root', str(binary(32, seed))]),
+    ]);
+
+const padEntry = (length: number): Buffer =>
+    dict(
+        ['attr', str('p')],
+        ['length', int(length)],
+        ['path', list(str('.pad'), str(`${length}`))],
+    );
+
+const v1File = (length: number, ...path: string[]): Buffer =>
+    dict(['length', int(length)], ['path', list(...path.map((p) => str(p)))]);
+
+// BEP 52 file tree of a season pack: two episodes and a subtitle folder
+const SEASON_TREE = dict(
+    ['E01.mkv', fileEntry(40000, 1)],
+    ['E02.mkv', fileEntry(30000, 2)],
+    ['Subs', dict(['en.srt', fileEntry(1200, 3)])],
+);
+
+export const PIECE_LENGTH = 16384;
+
+// The info dictionary as it is hashed, so infohashes can be computed independently
+export const V2_INFO = dict(
+    ['file tree', SEASON_TREE],
+    ['meta version', int(2)],
+    ['name', str('Season 1')],
+    ['piece length', int(PIECE_LENGTH)],
+);
+
+// Hybrid torrents pad each file to a piece boundary in their v1 file list
+export const HYBRID_INFO = dict(
+    ['file tree', SEASON_TREE],
+    [
+        'files',
+        list(
+            v1File(40000, 'E01.mkv'),
+            padEntry(PIECE_LENGTH * 3 - 40000),
+            v1File(30000, 'E02.mkv'),
+            padEntry(PIECE_LENGTH * 2 - 30000),
+            v1File(1200, 'Subs', 'en.srt'),
+        ),
+    ],
+    ['meta version', int(2)],
+    ['name', str('Season 1')],
+    ['piece length', int(PIECE_LENGTH)],
+    ['pieces', str(binary(20 * 6, 4))],
+);
+
+export const V1_INFO = dict(
+    ['length', int(5000)],
+    ['name', str('movie.mkv')],
+    ['piece length', int(PIECE_LENGTH)],
+    ['pieces', str(binary(20, 5))],
+);
+
+// Only the v2 file tree of a single file, named like the torrent
+export const V2_SINGLE_INFO = dict(
+    ['file tree', dict(['movie.mkv', fileEntry(5000, 6)])],
+    ['meta version', int(2)],
+    ['name', str('movie.mkv')],
+    ['piece length', int(PIECE_LENGTH)],
+);
+
+export const torrentFile = (info: Buffer): Buffer =>
+    dict(
+        ['announce', str('https://tracker.example.org/announce')],
+        ['info', info],
+    );
@@ -0,0 +1,129 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    foldName,
+    foldPath,
+    isFuzzyMatch,
+    resolveFuzzyPath,
+} from '../src/fuzzyPath.js';
+import { createDirectoryIndex } from '../src/pathSearch.js';
+import { rankTorrentPaths } from '../src/pathMatcher.js';
+import { TorrentData } from '../src/torrent.js';
+
+// ntfs-3g stores a reserved character as its code point + U+F000
+const ntfsAlias = (char: string): string =>
+    String.fromCharCode(0xf000 + char.charCodeAt(0));
+
+const NFC = 'Amélie';
+const NFD = NFC.normalize('NFD');
+
+describe('foldName', () => {
+    it('ignores case', () => {
+        expect(foldName('Movies')).toBe(foldName('MOVIES'));
+    });
+
+    it('treats NFC and NFD as the same name', () => {
+        expect(NFD).not.toBe(NFC);
+        expect(foldName(NFD)).toBe(foldName(NFC));
+    });
+
+    it('folds reserved characters and their NTFS aliases to _', () => {
+        expect(foldName('Q&A: Why?')).toBe('q&a_ why_');
+        expect(foldName(`Q&A${ntfsAlias(':')} Why${ntfsAlias('?')}`)).toBe(
+            'q&a_ why_',
+        );
+        expect(foldName('Q&A_ Why_')).toBe('q&a_ why_');
+    });
+
+    it('drops the trailing dots and spaces Windows drops', () => {
+        expect(foldName('Vol. 2. ')).toBe('vol. 2');
+    });
+
+    it('folds every segment of a path', () => {
+        expect(foldPath(`Films/${NFD}/Part 1?`)).toBe('films/amélie/part 1_');
+    });
+});
+
+describe('fuzzy lookups', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qbt-fuzzy-'));
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const mkdir = (...segments: string[]): string => {
+        const target = path.join(dir, ...segments);
+        fs.mkdirSync(target, { recursive: true });
+        return target;
+    };
+
+    it('resolves names spelled differently segment by segment', () => {
+        const target = mkdir('films', NFD, `Part 1${ntfsAlias('?')}`);
+
+        expect(resolveFuzzyPath(dir, `Films/${NFC}/Part 1?`)).toBe(target);
+    });
+
+    it('prefers the exact name', () => {
+        mkdir('movies');
+        const exact = mkdir('Movies');
+
+        expect(resolveFuzzyPath(dir, 'Movies')).toBe(exact);
+    });
+
+    it('returns null when no name folds the same', () => {
+        mkdir('Movies');
+
+        expect(resolveFuzzyPath(dir, 'Movies/Missing')).toBeNull();
+    });
+
+    it('tells whether a path was found under another spelling', () => {
+        expect(isFuzzyMatch('/mnt/d/Movies/Old', 'Movies/Old')).toBe(false);
+        expect(isFuzzyMatch('/mnt/d/movies/old', 'Movies/Old')).toBe(true);
+    });
+
+    it('finds differently spelled save paths in the directory index', async () => {
+        const target = mkdir('d', 'torrents', NFD, 'TV_ Shows');
+        const index = createDirectoryIndex([dir], null);
+
+        expect(await index.find(`Torrents/${NFC}/TV: Shows`)).toEqual([target]);
+    });
+
+    it('prefers exact matches in the directory index', async () => {
+        mkdir('d', 'movies');
+        const exact = mkdir('e', 'Movies');
+        const index = createDirectoryIndex([dir], null);
+
+        expect(await index.find('Movies')).toEqual([exact]);
+    });
+
+    it('matches torrent files stored under NTFS aliases', async () => {
+        const save = mkdir('save');
+        const folder = mkdir('save', `Live${ntfsAlias(':')} 2024`);
+        fs.writeFileSync(path.join(folder, `${NFD}.mkv`), Buffer.alloc(100));
+        const torrent: TorrentData = {
+            info: {
+                name: 'Live: 2024',
+                'piece length': 16384,
+                files: [{ length: 100, path: [`${NFC}.mkv`] }],
+            },
+        };
+
+        const [best] = await rankTorrentPaths(torrent, [save], {
+            samplePieces: 0,
+        });
+
+        expect(best.existingFiles).toBe(1);
+        expect(best.matches[0]).toMatchObject({
+            actualPath: path.join(folder, `${NFD}.mkv`),
+            fuzzy: true,
+            sizeMatch: true,
+        });
+    });
+});
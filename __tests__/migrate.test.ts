@@ -0,0 +1,647 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CommandOptions, ExitCode } from '../src/cli.js';
+import { decodeFastResume } from '../src/fastresume.js';
+import { listBackups, restoreBackup } from '../src/backup.js';
+import { findWindowsVolumes } from '../src/mounts.js';
+import { DirectoryIndex, createDirectoryIndex } from '../src/pathSearch.js';
+import { isQBitRunning } from '../src/qbittorrent.js';
+import { getRawValue, getText, getTextList } from '../src/rawBencode.js';
+import { runMigration } from '../src/migrate.js';
+import {
+    HUGE_UPLOAD,
+    PIECE_LENGTH,
+    V1_INFO,
+    binary,
+    dict,
+    int,
+    str,
+    torrentFile,
+    windowsFastResume,
+} from './fixtures.js';
+
+vi.mock('../src/qbittorrent.js', async (importOriginal) => ({
+    ...(await importOriginal<object>()),
+    findBTBackup: vi.fn(async () => null),
+    isQBitRunning: vi.fn(async () => false),
+}));
+vi.mock('../src/mounts.js', async (importOriginal) => ({
+    ...(await importOriginal<object>()),
+    findWindowsVolumes: vi.fn(async () => []),
+}));
+const { findPaths } = vi.hoisted(() => ({
+    findPaths: vi.fn(async (): Promise<string[]> => []),
+}));
+vi.mock('../src/pathSearch.js', () => ({
+    createDirectoryIndex: vi.fn(() => ({ find: findPaths })),
+}));
+vi.mock('../src/prompt.js', () => ({
+    isInteractive: (): boolean => false,
+    promptUserInput: vi.fn(),
+}));
+
+// Named by the infohash, as qBittorrent does
+const HASH = crypto.createHash('sha1').update(V1_INFO).digest('hex');
+
+describe('runMigration', () => {
+    let dir: string;
+    let windowsDir: string;
+    let linuxDir: string;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qbt-migrate-'));
+        windowsDir = path.join(dir, 'windows');
+        linuxDir = path.join(dir, 'linux');
+        fs.mkdirSync(windowsDir);
+        fs.mkdirSync(linuxDir);
+        fs.writeFileSync(
+            path.join(windowsDir, `${HASH}.fastresume`),
+            windowsFastResume(),
+        );
+        fs.writeFileSync(
+            path.join(windowsDir, `${HASH}.torrent`),
+            torrentFile(V1_INFO),
+        );
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    // Only the drive of the incomplete-downloads folder, save paths are searched
+    const downloadMapping = (): Record<string, string> => ({
+        'E:\\': path.join(dir, 'e'),
+    });
+
+    const options = (
+        overrides: Partial<CommandOptions> = {},
+    ): CommandOptions => ({
+        source: windowsDir,
+        target: linuxDir,
+        yes: true,
+        dryRun: false,
+        verifyPieces: 0,
+        pathMappings: {
+            'D:\\Torrents': path.join(dir, 'data'),
+            ...downloadMapping(),
+        },
+        driveMappings: {},
+        shareMappings: {},
+        searchRoots: [],
+        skipSettings: false,
+        onConflict: 'merge',
+        unresolved: 'ask',
+        layout: '{category}',
+        relocateMode: 'copy',
+        trackerRules: [],
+        tags: [],
+        ...overrides,
+    });
+
+    const written = (): string[] => fs.readdirSync(linuxDir).sort();
+
+    it('writes the torrent with translated save paths', async () => {
+        expect(await runMigration(options())).toBe(ExitCode.Success);
+
+        expect(written()).toEqual([`${HASH}.fastresume`, `${HASH}.torrent`]);
+        const resume = decodeFastResume(
+            fs.readFileSync(path.join(linuxDir, `${HASH}.fastresume`)),
+        );
+        expect(getText(resume, 'save_path')).toBe(
+            path.join(dir, 'data', 'Séries'),
+        );
+    });
+
+    it('translates the incomplete-downloads folder', async () => {
+        const code = await runMigration(
+            options({
+                pathMappings: {
+                    'D:\\Torrents': path.join(dir, 'data'),
+                    'E:\\': path.join(dir, 'e'),
+                },
+            }),
+        );
+
+        expect(code).toBe(ExitCode.Success);
+        const resume = decodeFastResume(
+            fs.readFileSync(path.join(linuxDir, `${HASH}.fastresume`)),
+        );
+        expect(getText(resume, 'qBt-downloadPath')).toBe(
+            path.join(dir, 'e', 'Incomplete'),
+        );
+    });
+
+    it('renames files found under another spelling', async () => {
+        const saveDir = path.join(dir, 'data', 'Séries');
+        fs.mkdirSync(saveDir, { recursive: true });
+        fs.writeFileSync(path.join(saveDir, 'MOVIE.mkv'), Buffer.alloc(5000));
+
+        expect(await runMigration(options())).toBe(ExitCode.Success);
+
+        const resume = decodeFastResume(
+            fs.readFileSync(path.join(linuxDir, `${HASH}.fastresume`)),
+        );
+        expect(getTextList(resume, 'mapped_files')?.[0]).toBe('MOVIE.mkv');
+    });
+
+    it('relocates the data into the layout and points the torrent at it', async () => {
+        const saveDir = path.join(dir, 'data', 'Séries');
+        fs.mkdirSync(saveDir, { recursive: true });
+        fs.writeFileSync(path.join(saveDir, 'movie.mkv'), Buffer.alloc(5000));
+        const relocate = path.join(dir, 'srv');
+
+        await runMigration(options({ relocate, dryRun: true }));
+        expect(fs.existsSync(relocate)).toBe(false);
+
+        expect(await runMigration(options({ relocate }))).toBe(
+            ExitCode.Success,
+        );
+        expect(
+            fs.statSync(path.join(relocate, 'Séries', 'movie.mkv')).size,
+        ).toBe(5000);
+        expect(fs.existsSync(path.join(saveDir, 'movie.mkv'))).toBe(true);
+        const resume = decodeFastResume(
+            fs.readFileSync(path.join(linuxDir, `${HASH}.fastresume`)),
+        );
+        expect(getText(resume, 'save_path')).toBe(
+            path.join(relocate, 'Séries'),
+        );
+    });
+
+    it('tags torrents and rewrites their trackers', async () => {
+        const code = await runMigration(
+            options({
+                tags: ['migrated'],
+                category: 'Linux',
+                trackerRules: [{ from: 'example.org', to: 'example.net' }],
+            }),
+        );
+
+        expect(code).toBe(ExitCode.Success);
+        const resume = decodeFastResume(
+            fs.readFileSync(path.join(linuxDir, `${HASH}.fastresume`)),
+        );
+        expect(getTextList(resume, 'qBt-tags')).toEqual([
+            'hd',
+            'private',
+            'migrated',
+        ]);
+        expect(getText(resume, 'qBt-category')).toBe('Linux');
+        const torrent = fs.readFileSync(path.join(linuxDir, `${HASH}.torrent`));
+        expect(torrent.toString('latin1')).toContain(
+            'https://tracker.example.net/announce',
+        );
+        expect(
+            crypto
+                .createHash('sha1')
+                .update(getRawValue(torrent, 'info'))
+                .digest('hex'),
+        ).toBe(HASH);
+    });
+
+    it('fails verification when a Windows path is left', async () => {
+        const code = await runMigration(
+            options({
+                pathMappings: { 'D:\\Torrents': path.join(dir, 'data') },
+            }),
+        );
+
+        expect(code).toBe(ExitCode.VerifyFailed);
+        expect(written()).toEqual([`${HASH}.fastresume`, `${HASH}.torrent`]);
+    });
+
+    it('backs up the Linux BT_backup so the run can be undone', async () => {
+        fs.writeFileSync(path.join(linuxDir, `${HASH}.torrent`), 'old');
+
+        await runMigration(options());
+
+        const [backupDir] = await listBackups(linuxDir);
+        expect(await restoreBackup(backupDir)).toEqual({
+            restored: 1,
+            deleted: 1,
+            relocated: 0,
+        });
+        expect(written()).toEqual([`${HASH}.torrent`]);
+        expect(
+            fs.readFileSync(path.join(linuxDir, `${HASH}.torrent`), 'utf8'),
+        ).toBe('old');
+    });
+
+    it('searches for save paths without a mapping', async () => {
+        vi.mocked(findPaths).mockResolvedValueOnce([path.join(dir, 'found')]);
+
+        const code = await runMigration(
+            options({ pathMappings: downloadMapping() }),
+        );
+
+        expect(code).toBe(ExitCode.Success);
+        expect(createDirectoryIndex).toHaveBeenCalledTimes(1);
+        expect(createDirectoryIndex).toHaveBeenCalledWith(['/'], null);
+        expect(findPaths).toHaveBeenCalledWith('Torrents/Séries', []);
+        const resume = decodeFastResume(
+            fs.readFileSync(path.join(linuxDir, `${HASH}.fastresume`)),
+        );
+        expect(getText(resume, 'save_path')).toBe(path.join(dir, 'found'));
+    });
+
+    it('finds save paths on the partition their drive is mounted at', async () => {
+        const mountPoint = path.join(dir, 'data-disk');
+        fs.mkdirSync(path.join(mountPoint, 'Torrents', 'Séries'), {
+            recursive: true,
+        });
+        vi.mocked(findWindowsVolumes).mockResolvedValueOnce([
+            {
+                device: '/dev/sdb1',
+                mountPoint,
+                fsType: 'ntfs3',
+                label: 'Data (D:)',
+            },
+        ]);
+
+        const code = await runMigration(
+            options({ pathMappings: downloadMapping() }),
+        );
+
+        expect(code).toBe(ExitCode.Success);
+        expect(findPaths).not.toHaveBeenCalledWith(
+            'Torrents/Séries',
+            expect.anything(),
+        );
+        const resume = decodeFastResume(
+            fs.readFileSync(path.join(linuxDir, `${HASH}.fastresume`)),
+        );
+        expect(getText(resume, 'save_path')).toBe(
+            path.join(mountPoint, 'Torrents', 'Séries'),
+        );
+    });
+
+    it('walks the whole filesystem only for save paths missing from the partitions', async () => {
+        const mountPoint = path.join(dir, 'data-disk');
+        fs.mkdirSync(mountPoint);
+        vi.mocked(findWindowsVolumes).mockResolvedValueOnce([
+            {
+                device: '/dev/sdb1',
+                mountPoint,
+                fsType: 'ntfs3',
+                label: 'Data (D:)',
+            },
+        ]);
+        // Both indexes are created before the first lookup
+        const index = (roots: string[]): DirectoryIndex => ({
+            find: async (relativePath) =>
+                roots[0] === '/' && relativePath === 'Torrents/Séries'
+                    ? [path.join(dir, 'found')]
+                    : [],
+        });
+        vi.mocked(createDirectoryIndex)
+            .mockImplementationOnce(index)
+            .mockImplementationOnce(index);
+
+        const code = await runMigration(
+            options({ pathMappings: downloadMapping() }),
+        );
+
+        expect(code).toBe(ExitCode.Success);
+        // Only the index of the partitions is kept on disk
+        expect(createDirectoryIndex).toHaveBeenCalledWith(
+            expect.arrayContaining([mountPoint]),
+        );
+        expect(createDirectoryIndex).toHaveBeenCalledWith(['/'], null);
+        const resume = decodeFastResume(
+            fs.readFileSync(path.join(linuxDir, `${HASH}.fastresume`)),
+        );
+        expect(getText(resume, 'save_path')).toBe(path.join(dir, 'found'));
+    });
+
+    it('finds save paths on the mount of their network share', async () => {
+        fs.writeFileSync(
+            path.join(windowsDir, `${HASH}.fastresume`),
+            windowsFastResume({ savePath: '\\\\?\\UNC\\nas\\media\\TV' }),
+        );
+        const mountPoint = path.join(dir, 'media');
+        fs.mkdirSync(path.join(mountPoint, 'TV'), { recursive: true });
+
+        const code = await runMigration(
+            options({
+                pathMappings: downloadMapping(),
+                shareMappings: { '\\\\nas\\media': mountPoint },
+            }),
+        );
+
+        expect(code).toBe(ExitCode.Success);
+        const resume = decodeFastResume(
+            fs.readFileSync(path.join(linuxDir, `${HASH}.fastresume`)),
+        );
+        expect(getText(resume, 'save_path')).toBe(path.join(mountPoint, 'TV'));
+    });
+
+    it('merges the Windows settings unless told to skip them', async () => {
+        fs.writeFileSync(
+            path.join(dir, 'qBittorrent.ini'),
+            '[BitTorrent]\nSession\\DefaultSavePath=D:\\\\Torrents\n',
+        );
+        const linuxConfig = path.join(dir, 'qBittorrent.conf');
+
+        await runMigration(options({ skipSettings: true }));
+        expect(fs.existsSync(linuxConfig)).toBe(false);
+
+        expect(await runMigration(options())).toBe(ExitCode.Success);
+        expect(fs.readFileSync(linuxConfig, 'utf8')).toBe(
+            `[BitTorrent]\nSession\\DefaultSavePath=${path.join(dir, 'data')}\n`,
+        );
+    });
+
+    it('renames resume data to the infohash of its torrent', async () => {
+        const wrongHash = 'cd'.repeat(20);
+        for (const ext of ['fastresume', 'torrent']) {
+            fs.renameSync(
+                path.join(windowsDir, `${HASH}.${ext}`),
+                path.join(windowsDir, `${wrongHash}.${ext}`),
+            );
+        }
+
+        expect(await runMigration(options())).toBe(ExitCode.Success);
+        expect(written()).toEqual([`${HASH}.fastresume`, `${HASH}.torrent`]);
+    });
+
+    it('skips torrents without an infohash', async () => {
+        fs.writeFileSync(
+            path.join(windowsDir, `${HASH}.torrent`),
+            dict(['announce', str('https://tracker.example.org/announce')]),
+        );
+
+        await runMigration(options());
+
+        expect(written()).toEqual([]);
+        expect(console.warn).toHaveBeenCalledWith(
+            `⚠️ No infohash in the metadata of ${HASH}, skipped`,
+        );
+    });
+
+    it('moves the save path where most of its torrents are', async () => {
+        // Three torrents of the same save path, one of them found apart from the others
+        const [main, other] = [path.join(dir, 'main'), path.join(dir, 'other')];
+        const names = ['a.mkv', 'b.mkv', 'c.mkv'];
+        const hashes = names.map((name, i) => {
+            const info = dict(
+                ['length', int(5000)],
+                ['name', str(name)],
+                ['piece length', int(PIECE_LENGTH)],
+                ['pieces', str(binary(20, i))],
+            );
+            const hash = crypto.createHash('sha1').update(info).digest('hex');
+            fs.writeFileSync(
+                path.join(windowsDir, `${hash}.fastresume`),
+                windowsFastResume(),
+            );
+            fs.writeFileSync(
+                path.join(windowsDir, `${hash}.torrent`),
+                torrentFile(info),
+            );
+            const dataDir = name === 'b.mkv' ? other : main;
+            fs.mkdirSync(dataDir, { recursive: true });
+            fs.writeFileSync(path.join(dataDir, name), Buffer.alloc(5000));
+            return hash;
+        });
+        vi.mocked(findPaths).mockResolvedValueOnce([other, main]);
+
+        const code = await runMigration(
+            options({ pathMappings: downloadMapping() }),
+        );
+
+        expect(code).toBe(ExitCode.Success);
+        const savePath = (hash: string): string =>
+            getText(
+                decodeFastResume(
+                    fs.readFileSync(path.join(linuxDir, `${hash}.fastresume`)),
+                ),
+                'save_path',
+            );
+        expect(hashes.map(savePath)).toEqual([main, other, main]);
+        expect(savePath(HASH)).toBe(main);
+    });
+
+    it.each([
+        ['linux', 500],
+        ['windows', Number(HUGE_UPLOAD)],
+    ] as const)(
+        'resolves torrents already on Linux with the %s policy',
+        async (onConflict, uploaded) => {
+            fs.writeFileSync(
+                path.join(linuxDir, `${HASH}.fastresume`),
+                dict(
+                    ['save_path', str('/srv/old')],
+                    ['total_uploaded', int(500)],
+                ),
+            );
+
+            expect(await runMigration(options({ onConflict }))).toBe(
+                ExitCode.Success,
+            );
+            const resume = decodeFastResume(
+                fs.readFileSync(path.join(linuxDir, `${HASH}.fastresume`)),
+            );
+            expect(Number(resume.get('total_uploaded'))).toBe(uploaded);
+        },
+    );
+
+    it('writes nothing in a dry run', async () => {
+        expect(await runMigration(options({ dryRun: true }))).toBe(
+            ExitCode.Success,
+        );
+        expect(written()).toEqual([]);
+    });
+
+    it('exports the plan, unresolved save paths included', async () => {
+        const planFile = path.join(dir, 'plan.json');
+        const reportFile = path.join(dir, 'plan.html');
+
+        const code = await runMigration(
+            options({
+                pathMappings: downloadMapping(),
+                plan: planFile,
+                report: reportFile,
+            }),
+        );
+
+        expect(code).toBe(ExitCode.UnresolvedPaths);
+        const plan = JSON.parse(fs.readFileSync(planFile, 'utf8'));
+        expect(plan).toMatchObject({
+            source: windowsDir,
+            target: linuxDir,
+            unresolved: ['D:\\Torrents\\Séries'],
+            torrents: [
+                {
+                    infohash: HASH,
+                    name: 'movie.mkv',
+                    oldSavePath: 'D:\\Torrents\\Séries',
+                    newSavePath: null,
+                },
+            ],
+        });
+        expect(fs.readFileSync(reportFile, 'utf8')).toContain('movie.mkv');
+    });
+
+    it('takes the metadata of a magnet link from its resume data', async () => {
+        fs.rmSync(path.join(windowsDir, `${HASH}.torrent`));
+        fs.writeFileSync(
+            path.join(windowsDir, `${HASH}.fastresume`),
+            dict(['info', V1_INFO], ['save_path', str('D:\\Torrents\\Séries')]),
+        );
+
+        expect(await runMigration(options())).toBe(ExitCode.Success);
+
+        expect(written()).toEqual([`${HASH}.fastresume`, `${HASH}.torrent`]);
+        expect(
+            getRawValue(
+                fs.readFileSync(path.join(linuxDir, `${HASH}.torrent`)),
+                'info',
+            ),
+        ).toEqual(V1_INFO);
+    });
+
+    it('migrates and plans magnet links still without metadata', async () => {
+        const magnetHash = 'cd'.repeat(20);
+        fs.writeFileSync(
+            path.join(windowsDir, `${magnetHash}.fastresume`),
+            dict(
+                [
+                    'magnet-uri',
+                    str(`magnet:?xt=urn:btih:${magnetHash}&dn=Album`),
+                ],
+                ['save_path', str('D:\\Torrents\\Music')],
+            ),
+        );
+        const planFile = path.join(dir, 'plan.json');
+
+        const code = await runMigration(options({ plan: planFile }));
+
+        expect(code).toBe(ExitCode.Success);
+        expect(written()).toEqual([
+            `${HASH}.fastresume`,
+            `${HASH}.torrent`,
+            `${magnetHash}.fastresume`,
+        ]);
+        const plan = JSON.parse(fs.readFileSync(planFile, 'utf8'));
+        expect(plan.torrents).toContainEqual(
+            expect.objectContaining({
+                infohash: magnetHash,
+                name: 'Album',
+                oldSavePath: 'D:\\Torrents\\Music',
+                newSavePath: path.join(dir, 'data', 'Music'),
+                metadata: false,
+            }),
+        );
+    });
+
+    it('reports save paths it cannot find', async () => {
+        expect(
+            await runMigration(options({ pathMappings: downloadMapping() })),
+        ).toBe(ExitCode.UnresolvedPaths);
+        expect(written()).toEqual([]);
+    });
+
+    it('leaves out torrents without data when told to skip them', async () => {
+        const code = await runMigration(
+            options({ pathMappings: downloadMapping(), unresolved: 'skip' }),
+        );
+
+        expect(code).toBe(ExitCode.Success);
+        expect(written()).toEqual([]);
+    });
+
+    it('migrates torrents without data stopped, with their Windows path', async () => {
+        const code = await runMigration(
+            options({ pathMappings: downloadMapping(), unresolved: 'paused' }),
+        );
+
+        expect(code).toBe(ExitCode.Success);
+        const resume = decodeFastResume(
+            fs.readFileSync(path.join(linuxDir, `${HASH}.fastresume`)),
+        );
+        expect(getText(resume, 'save_path')).toBe('D:\\Torrents\\Séries');
+        expect(resume.get('qBt-stopped')).toBe(1);
+    });
+
+    it('finds the Windows BT_backup on the mounted partitions', async () => {
+        const mountPoint = path.join(dir, 'system-disk');
+        const btBackup = path.join(
+            mountPoint,
+            'Users/Me/AppData/Local/qBittorrent/BT_backup',
+        );
+        fs.mkdirSync(path.dirname(btBackup), { recursive: true });
+        fs.renameSync(windowsDir, btBackup);
+        const volume = {
+            device: '/dev/sda3',
+            mountPoint,
+            fsType: 'ntfs3',
+            label: 'Windows',
+        };
+        vi.mocked(findWindowsVolumes)
+            .mockResolvedValueOnce([volume])
+            .mockResolvedValueOnce([volume]);
+
+        const code = await runMigration(options({ source: undefined }));
+
+        expect(code).toBe(ExitCode.Success);
+        expect(written()).toEqual([`${HASH}.fastresume`, `${HASH}.torrent`]);
+    });
+
+    it('searches a folder above BT_backup given as the source', async () => {
+        const btBackup = path.join(
+            dir,
+            'portable/profile/qBittorrent/data/BT_backup',
+        );
+        fs.mkdirSync(path.dirname(btBackup), { recursive: true });
+        fs.renameSync(windowsDir, btBackup);
+
+        const code = await runMigration(
+            options({ source: path.join(dir, 'portable') }),
+        );
+
+        expect(code).toBe(ExitCode.Success);
+        expect(written()).toEqual([`${HASH}.fastresume`, `${HASH}.torrent`]);
+    });
+
+    it('has nothing to do without torrents', async () => {
+        fs.rmSync(windowsDir, { recursive: true });
+        fs.mkdirSync(windowsDir);
+
+        expect(await runMigration(options())).toBe(ExitCode.NothingToDo);
+    });
+
+    it('needs confirmation without a terminal', async () => {
+        expect(await runMigration(options({ yes: false }))).toBe(
+            ExitCode.Error,
+        );
+        expect(written()).toEqual([]);
+    });
+
+    it('refuses to write while qBittorrent is running', async () => {
+        vi.mocked(isQBitRunning).mockResolvedValueOnce(true);
+
+        expect(await runMigration(options())).toBe(ExitCode.Error);
+    });
+
+    it('fails on missing directories', async () => {
+        expect(
+            await runMigration(options({ source: path.join(dir, 'missing') })),
+        ).toBe(ExitCode.Error);
+        expect(
+            await runMigration(options({ target: path.join(dir, 'missing') })),
+        ).toBe(ExitCode.Error);
+    });
+
+    it('counts files it cannot write', async () => {
+        fs.mkdirSync(path.join(linuxDir, `${HASH}.fastresume`));
+
+        expect(await runMigration(options())).toBe(ExitCode.WriteErrors);
+    });
+});
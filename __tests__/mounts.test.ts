@@ -0,0 +1,269 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+    Mount,
+    WindowsVolume,
+    findShare,
+    getDriveLetter,
+    mapDrives,
+    mapShares,
+    parseDriveLetter,
+    readMounts,
+    stripDriveLetter,
+    stripServer,
+} from '../src/mounts.js';
+
+describe('readMounts', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qbt-mounts-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('unescapes octal fields', async () => {
+        const file = path.join(dir, 'mounts');
+        fs.writeFileSync(
+            file,
+            'proc /proc proc rw 0 0\n' +
+                '/dev/sdb1 /media/me/My\\040Data ntfs3 rw 0 0\n',
+        );
+
+        expect(await readMounts(file)).toEqual([
+            { device: 'proc', mountPoint: '/proc', fsType: 'proc' },
+            {
+                device: '/dev/sdb1',
+                mountPoint: '/media/me/My Data',
+                fsType: 'ntfs3',
+            },
+        ]);
+    });
+
+    it('returns nothing when the file is missing', async () => {
+        expect(await readMounts(path.join(dir, 'missing'))).toEqual([]);
+    });
+});
+
+describe('mapDrives', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qbt-drives-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    // A mounted partition below the temporary directory, holding `dirs`
+    const volume = (
+        name: string,
+        dirs: string[] = [],
+        label?: string,
+    ): WindowsVolume => {
+        const mountPoint = path.join(dir, name);
+        fs.mkdirSync(mountPoint);
+        for (const sub of dirs) {
+            fs.mkdirSync(path.join(mountPoint, sub), { recursive: true });
+        }
+        return { device: `/dev/${name}`, mountPoint, fsType: 'ntfs3', label };
+    };
+
+    const letters = (
+        mappings: ReturnType<typeof mapDrives>,
+    ): Record<string, string> =>
+        Object.fromEntries(
+            mappings.map(({ letter, mountPoint }) => [
+                letter,
+                path.relative(dir, mountPoint),
+            ]),
+        );
+
+    it('lets rules win over labels', () => {
+        const data = volume('sdb1', [], 'Data (D:)');
+
+        const mappings = mapDrives([data], [], {
+            rules: { 'd:': '/mnt/elsewhere' },
+        });
+
+        expect(mappings).toEqual([
+            { letter: 'D', mountPoint: '/mnt/elsewhere', reason: 'rule' },
+        ]);
+    });
+
+    it('reads letters from labels and mount point names', () => {
+        const volumes = [
+            volume('sdb1', [], 'Data (D:)'),
+            volume('e'),
+            volume('sdd1', [], 'Backups'),
+        ];
+
+        expect(letters(mapDrives(volumes, []))).toEqual({
+            D: 'sdb1',
+            E: 'e',
+        });
+    });
+
+    it('maps C to the volume holding a qBittorrent profile', () => {
+        const windows = volume('sda2', ['Users/me/AppData/Local/qBittorrent']);
+
+        const mappings = mapDrives([windows], ['C:\\Downloads'], {
+            sourceDir: path.join(
+                windows.mountPoint,
+                'Users/me/AppData/Local/qBittorrent/BT_backup',
+            ),
+        });
+
+        expect(mappings).toEqual([
+            {
+                letter: 'C',
+                mountPoint: windows.mountPoint,
+                reason: 'holds the qBittorrent profile',
+            },
+        ]);
+    });
+
+    it('does not guess C for a portable install on a labelled drive', () => {
+        const data = volume(
+            'sdb1',
+            ['qBittorrent/profile/qBittorrent/data/BT_backup', 'Torrents'],
+            'Data (D:)',
+        );
+
+        const mappings = mapDrives([data], ['C:\\Torrents', 'D:\\Torrents'], {
+            sourceDir: path.join(
+                data.mountPoint,
+                'qBittorrent/profile/qBittorrent/data/BT_backup',
+            ),
+        });
+
+        expect(letters(mappings)).toEqual({ D: 'sdb1' });
+    });
+
+    it('does not guess C for a portable install outside a user profile', () => {
+        const data = volume('sdb1', ['qBittorrent/BT_backup', 'Torrents']);
+
+        const mappings = mapDrives([data], ['D:\\Torrents'], {
+            sourceDir: path.join(data.mountPoint, 'qBittorrent/BT_backup'),
+        });
+
+        expect(mappings).toEqual([
+            {
+                letter: 'D',
+                mountPoint: data.mountPoint,
+                reason: 'contains its save paths',
+            },
+        ]);
+    });
+
+    it('maps a drive only to the one volume holding its save paths', () => {
+        const volumes = [
+            volume('sdb1', ['Movies']),
+            volume('sdc1', ['Music']),
+            volume('sdd1', ['Music']),
+        ];
+
+        const mappings = mapDrives(volumes, [
+            'D:\\Movies\\',
+            'E:\\Music',
+            'F:\\Missing',
+        ]);
+
+        expect(letters(mappings)).toEqual({ D: 'sdb1' });
+    });
+});
+
+describe('drive letters', () => {
+    it.each([
+        ['D', 'D'],
+        ['d:', 'D'],
+        ['D:\\', 'D'],
+        ['D:/', 'D'],
+        ['DD', null],
+        ['D:\\Torrents', null],
+    ])('parses %j', (drive, letter) => {
+        expect(parseDriveLetter(drive)).toBe(letter);
+    });
+
+    it('strips the drive letter and trailing separators', () => {
+        expect(stripDriveLetter('D:\\Torrents\\Séries\\')).toBe(
+            'Torrents/Séries',
+        );
+        expect(stripDriveLetter('D:')).toBe('');
+    });
+
+    it('reads past the long-path prefix', () => {
+        expect(getDriveLetter('\\\\?\\d:\\Downloads')).toBe('D');
+        expect(stripDriveLetter('\\\\?\\D:\\Downloads\\')).toBe('Downloads');
+    });
+});
+
+describe('mapShares', () => {
+    const MOUNTS: Mount[] = [
+        { device: '//nas/media', mountPoint: '/mnt/media', fsType: 'cifs' },
+        {
+            device: 'nas:/volume1/backup/',
+            mountPoint: '/mnt/backup',
+            fsType: 'nfs4',
+        },
+        { device: '//nas/media', mountPoint: '/mnt/again', fsType: 'cifs' },
+        { device: '/dev/sdb1', mountPoint: '/mnt/data', fsType: 'ntfs3' },
+    ];
+
+    it('maps CIFS and NFS mounts to the shares they serve', () => {
+        expect(mapShares(MOUNTS)).toEqual([
+            {
+                share: '\\\\nas\\media',
+                mountPoint: '/mnt/media',
+                reason: 'cifs mount',
+            },
+            {
+                share: '\\\\nas\\volume1\\backup',
+                mountPoint: '/mnt/backup',
+                reason: 'nfs4 mount',
+            },
+        ]);
+    });
+
+    it('lets rules win over mounts', () => {
+        expect(
+            mapShares(MOUNTS, { '\\\\?\\UNC\\NAS\\Media': '/srv/media' })[0],
+        ).toEqual({
+            share: '\\\\NAS\\Media',
+            mountPoint: '/srv/media',
+            reason: 'rule',
+        });
+    });
+});
+
+describe('findShare', () => {
+    const shares = mapShares([], {
+        '\\\\nas\\media': '/mnt/media',
+        '\\\\nas\\media\\tv': '/mnt/tv',
+    });
+
+    it('picks the longest share and the path below it', () => {
+        expect(findShare(shares, '\\\\NAS\\media\\tv\\Show\\')).toEqual({
+            mapping: shares[1],
+            relativePath: 'Show',
+        });
+        expect(findShare(shares, '//nas/media/Movies')).toEqual({
+            mapping: shares[0],
+            relativePath: 'Movies',
+        });
+    });
+
+    it('ignores drive paths and other shares', () => {
+        expect(findShare(shares, 'D:\\media')).toBeNull();
+        expect(findShare(shares, '\\\\nas\\music')).toBeNull();
+    });
+
+    it('strips the server of a UNC path', () => {
+        expect(stripServer('\\\\?\\UNC\\nas\\media\\tv\\')).toBe('media/tv');
+    });
+});
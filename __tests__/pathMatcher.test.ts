@@ -0,0 +1,133 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+    PathMatchResult,
+    isOutlier,
+    rankTorrentPaths,
+    voteBasePath,
+} from '../src/pathMatcher.js';
+import { createPathTranslator } from '../src/paths.js';
+import { decodeTorrent } from '../src/torrent.js';
+import { HYBRID_INFO, torrentFile } from './fixtures.js';
+
+const candidate = (basePath: string, confidence: number): PathMatchResult => ({
+    basePath,
+    confidence,
+    matches: [],
+    totalFiles: 1,
+    existingFiles: 1,
+    debug: [],
+});
+
+describe('voteBasePath', () => {
+    it('picks the location most torrents were found at', () => {
+        expect(
+            voteBasePath([
+                [candidate('/a', 0.6), candidate('/b', 0.5)],
+                [candidate('/b', 1.1)],
+                [candidate('/a', 0.7)],
+                [],
+            ]),
+        ).toBe('/a');
+    });
+
+    it('breaks ties by total confidence', () => {
+        expect(
+            voteBasePath([[candidate('/a', 0.6)], [candidate('/b', 1.1)]]),
+        ).toBe('/b');
+    });
+
+    it('has no winner without any match', () => {
+        expect(voteBasePath([[], []])).toBeNull();
+    });
+});
+
+describe('isOutlier', () => {
+    it('is not an outlier at the chosen location, or without matches', () => {
+        expect(isOutlier([candidate('/a', 1)], '/a')).toBe(false);
+        expect(isOutlier([], '/a')).toBe(false);
+    });
+
+    it('is an outlier when its data matches better elsewhere', () => {
+        expect(isOutlier([candidate('/b', 1)], '/a')).toBe(true);
+        expect(
+            isOutlier([candidate('/b', 1), candidate('/a', 0.5)], '/a'),
+        ).toBe(true);
+    });
+
+    it('stays with the group when both locations match equally', () => {
+        expect(isOutlier([candidate('/b', 1), candidate('/a', 1)], '/a')).toBe(
+            false,
+        );
+    });
+});
+
+describe('rankTorrentPaths with mapped_files', () => {
+    const torrent = decodeTorrent(torrentFile(HYBRID_INFO));
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qbt-mapped-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const create = (file: string, size: number): void => {
+        fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+        fs.writeFileSync(path.join(dir, file), Buffer.alloc(size));
+    };
+
+    it('finds renamed files below the save path', async () => {
+        create('save/Season 1/E01.mkv', 40000);
+        create('save/Season 1/Episode 2.mkv', 30000);
+        create('save/Season 1/Subs/en.srt', 1200);
+
+        const [best] = await rankTorrentPaths(
+            torrent,
+            [path.join(dir, 'save')],
+            {
+                samplePieces: 0,
+                mappedFiles: ['', '', 'Season 1\\Episode 2.mkv'],
+            },
+        );
+
+        expect(best).toMatchObject({ existingFiles: 3, totalFiles: 3 });
+    });
+
+    it('looks up files moved outside the save path where they were translated to', async () => {
+        create('other/E01.mkv', 40000);
+        create('save/Season 1/E02.mkv', 30000);
+        create('save/Season 1/Subs/en.srt', 1200);
+        const mappedFiles = ['E:\\Moved\\E01.mkv'];
+
+        const [best] = await rankTorrentPaths(
+            torrent,
+            [path.join(dir, 'save')],
+            {
+                samplePieces: 0,
+                mappedFiles,
+                translatePath: createPathTranslator([
+                    {
+                        windowsPath: 'E:\\Moved',
+                        linuxPath: path.join(dir, 'other'),
+                    },
+                ]),
+            },
+        );
+        const [untranslated] = await rankTorrentPaths(
+            torrent,
+            [path.join(dir, 'save')],
+            { samplePieces: 0, mappedFiles },
+        );
+
+        expect(best).toMatchObject({ existingFiles: 3, totalFiles: 3 });
+        expect(best.matches[0].actualPath).toBe(
+            path.join(dir, 'other', 'E01.mkv'),
+        );
+        expect(untranslated).toMatchObject({ existingFiles: 2, totalFiles: 2 });
+    });
+});
@@ -0,0 +1,67 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createDirectoryIndex } from '../src/pathSearch.js';
+
+describe('createDirectoryIndex', () => {
+    let dir: string;
+    let cacheFile: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qbt-search-'));
+        cacheFile = path.join(dir, 'cache', 'directory-index.json');
+        for (const sub of [
+            'disk1/Torrents/Séries',
+            'disk1/Torrents/Séries/Séries',
+            'disk2/Backup/Torrents/Séries',
+            'disk2/node_modules/Torrents/Séries',
+        ]) {
+            fs.mkdirSync(path.join(dir, sub), { recursive: true });
+        }
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const roots = (): string[] =>
+        ['disk1', 'disk2'].map((disk) => path.join(dir, disk));
+
+    it('finds directories by the end of their path', async () => {
+        const index = createDirectoryIndex(roots(), null);
+
+        expect((await index.find('Torrents/Séries')).sort()).toEqual([
+            path.join(dir, 'disk1/Torrents/Séries'),
+            path.join(dir, 'disk2/Backup/Torrents/Séries'),
+        ]);
+        expect(await index.find('Movies')).toEqual([]);
+        expect(await index.find('')).toEqual([]);
+    });
+
+    it('prefers matches below the preferred roots', async () => {
+        const index = createDirectoryIndex(roots(), null);
+
+        expect(
+            await index.find('Torrents/Séries', [path.join(dir, 'disk2')]),
+        ).toEqual([path.join(dir, 'disk2/Backup/Torrents/Séries')]);
+    });
+
+    it('keeps the index in the cache file for the next run', async () => {
+        await createDirectoryIndex(roots(), cacheFile).find('Séries');
+        const cached = JSON.parse(fs.readFileSync(cacheFile, 'utf8')).dirs;
+        expect(Object.keys(cached)).toContain(path.join(dir, 'disk1/Torrents'));
+
+        // A directory whose mtime did not change is not read again
+        const readdir = vi.spyOn(fs.promises, 'readdir');
+        await createDirectoryIndex(roots(), cacheFile).find('Séries');
+        expect(readdir).not.toHaveBeenCalled();
+    });
+
+    it('writes nothing without a cache file', async () => {
+        await createDirectoryIndex(roots(), null).find('Séries');
+
+        expect(fs.existsSync(path.dirname(cacheFile))).toBe(false);
+    });
+});
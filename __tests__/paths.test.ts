@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import {
+    createPathTranslator,
+    createWindowsPathTranslator,
+    isLinuxAbsolutePath,
+    isUncPath,
+    isWindowsAbsolutePath,
+    normalizeWindowsPath,
+    stripLongPathPrefix,
+} from '../src/paths.js';
+
+describe('Windows paths', () => {
+    it.each([
+        ['\\\\?\\D:\\Movies', 'D:\\Movies'],
+        ['\\\\?\\UNC\\nas\\media', '\\\\nas\\media'],
+        ['D:\\Movies', 'D:\\Movies'],
+    ])('strips the long-path prefix of %s', (windowsPath, stripped) => {
+        expect(stripLongPathPrefix(windowsPath)).toBe(stripped);
+    });
+
+    it.each([
+        ['\\\\nas\\media', true],
+        ['//nas/media/tv', true],
+        ['\\\\?\\UNC\\nas\\media', true],
+        ['\\\\?\\D:\\Movies', false],
+        ['\\\\nas', false],
+        ['D:\\Movies', false],
+    ])('tells whether %s is a share', (windowsPath, unc) => {
+        expect(isUncPath(windowsPath)).toBe(unc);
+    });
+
+    it.each([
+        ['D:\\Movies', true],
+        ['\\\\?\\D:\\Movies', true],
+        ['\\\\nas\\media', true],
+        ['/mnt/data', false],
+        ['Movies\\Old', false],
+    ])('tells whether %s is absolute', (windowsPath, absolute) => {
+        expect(isWindowsAbsolutePath(windowsPath)).toBe(absolute);
+    });
+
+    it.each([
+        ['/mnt/data', true],
+        ['//nas/media', false],
+        ['D:\\Movies', false],
+        ['Movies/Old', false],
+    ])('tells whether %s is an absolute Linux path', (linuxPath, absolute) => {
+        expect(isLinuxAbsolutePath(linuxPath)).toBe(absolute);
+    });
+
+    it('compares paths without prefix, separators or case', () => {
+        expect(normalizeWindowsPath('\\\\?\\D:\\Torrents\\')).toBe(
+            'd:/torrents',
+        );
+    });
+});
+
+describe('createPathTranslator', () => {
+    const translate = createPathTranslator([
+        { windowsPath: 'D:\\', linuxPath: '/mnt/data' },
+        { windowsPath: 'D:\\Torrents\\TV', linuxPath: '/srv/tv' },
+        { windowsPath: '\\\\nas\\media', linuxPath: '/mnt/media' },
+    ]);
+
+    it('uses the longest matching mapping and keeps the case of the rest', () => {
+        expect(translate('d:\\torrents\\tv\\Show')).toBe('/srv/tv/Show');
+        expect(translate('D:\\Movies\\Old\\')).toBe('/mnt/data/Movies/Old');
+    });
+
+    it('translates long-path prefixed and UNC paths', () => {
+        expect(translate('\\\\?\\D:\\Movies')).toBe('/mnt/data/Movies');
+        expect(translate('\\\\?\\UNC\\nas\\media\\tv')).toBe('/mnt/media/tv');
+    });
+
+    it('leaves paths no mapping covers', () => {
+        expect(translate('E:\\Movies')).toBeNull();
+    });
+});
+
+describe('createWindowsPathTranslator', () => {
+    const translate = createWindowsPathTranslator([
+        { windowsPath: 'D:\\', linuxPath: '/mnt/data' },
+        { windowsPath: 'D:\\Torrents\\TV\\', linuxPath: '/srv/tv/' },
+        { windowsPath: '\\\\?\\UNC\\nas\\media', linuxPath: '/mnt/media' },
+    ]);
+
+    it('uses the longest matching mapping', () => {
+        expect(translate('/srv/tv/Show/')).toBe('D:\\Torrents\\TV\\Show');
+        expect(translate('/mnt/data/Movies/Old')).toBe('D:\\Movies\\Old');
+        expect(translate('/mnt/media/tv')).toBe('\\\\nas\\media\\tv');
+    });
+
+    it('keeps the separator of a drive root', () => {
+        expect(translate('/mnt/data')).toBe('D:\\');
+        expect(translate('/mnt/media')).toBe('\\\\nas\\media');
+    });
+
+    it('leaves paths no mapping covers', () => {
+        expect(translate('/mnt/database')).toBeNull();
+        expect(translate('/home/me/Downloads')).toBeNull();
+    });
+});
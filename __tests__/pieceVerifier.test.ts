@@ -0,0 +1,176 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { findCorrectTorrentPath } from '../src/pathMatcher.js';
+import { PieceFile, verifyPieces } from '../src/pieceVerifier.js';
+import { TorrentData, decodeTorrent } from '../src/torrent.js';
+import {
+    PIECE_LENGTH,
+    binary,
+    dict,
+    int,
+    list,
+    str,
+    torrentFile,
+} from './fixtures.js';
+
+// Two files whose boundary falls inside the second piece
+const ALBUM = [
+    { name: '01.flac', content: binary(20000, 1) },
+    { name: '02.flac', content: binary(30000, 2) },
+];
+
+const pieceHashes = (data: Buffer): Buffer => {
+    const hashes: Buffer[] = [];
+    for (let start = 0; start < data.length; start += PIECE_LENGTH) {
+        const piece = data.subarray(start, start + PIECE_LENGTH);
+        hashes.push(crypto.createHash('sha1').update(piece).digest());
+    }
+    return Buffer.concat(hashes);
+};
+
+const ALBUM_TORRENT = decodeTorrent(
+    torrentFile(
+        dict(
+            [
+                'files',
+                list(
+                    ...ALBUM.map((file) =>
+                        dict(
+                            ['length', int(file.content.length)],
+                            ['path', list(str(file.name))],
+                        ),
+                    ),
+                ),
+            ],
+            ['name', str('Album')],
+            ['piece length', int(PIECE_LENGTH)],
+            [
+                'pieces',
+                str(pieceHashes(Buffer.concat(ALBUM.map((f) => f.content)))),
+            ],
+        ),
+    ),
+);
+
+describe('piece verification', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qbt-pieces-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    // Writes the album below `root`, with `contents` in place of the real files
+    const writeAlbum = (
+        root: string,
+        contents = ALBUM.map((file) => file.content),
+    ): string => {
+        fs.mkdirSync(path.join(root, 'Album'), { recursive: true });
+        ALBUM.forEach((file, i) =>
+            fs.writeFileSync(path.join(root, 'Album', file.name), contents[i]),
+        );
+        return root;
+    };
+
+    const pieceFiles = (root: string | null): PieceFile[] =>
+        ALBUM.map((file) => ({
+            actualPath: root && path.join(root, 'Album', file.name),
+            size: file.content.length,
+        }));
+
+    it('verifies pieces spanning file boundaries', async () => {
+        const root = writeAlbum(path.join(dir, 'good'));
+
+        const result = await verifyPieces(ALBUM_TORRENT, pieceFiles(root));
+
+        expect(result).toEqual({
+            checkedPieces: 4,
+            verifiedPieces: 4,
+            ratio: 1,
+        });
+    });
+
+    it('samples only as many pieces as asked for', async () => {
+        const root = writeAlbum(path.join(dir, 'good'));
+
+        const result = await verifyPieces(ALBUM_TORRENT, pieceFiles(root), 2);
+
+        expect(result.checkedPieces).toBe(2);
+        expect(result.verifiedPieces).toBe(2);
+    });
+
+    it('fails the pieces of a file with other content', async () => {
+        const root = writeAlbum(path.join(dir, 'bad'), [
+            ALBUM[0].content,
+            Buffer.alloc(ALBUM[1].content.length),
+        ]);
+
+        const result = await verifyPieces(ALBUM_TORRENT, pieceFiles(root));
+
+        // The second piece holds the end of 01.flac and the start of 02.flac
+        expect(result.verifiedPieces).toBe(1);
+    });
+
+    it('fails the pieces of missing or short files', async () => {
+        const root = writeAlbum(path.join(dir, 'short'), [
+            ALBUM[0].content,
+            ALBUM[1].content.subarray(0, 100),
+        ]);
+
+        expect(
+            (await verifyPieces(ALBUM_TORRENT, pieceFiles(root)))
+                .verifiedPieces,
+        ).toBe(1);
+        expect(
+            (await verifyPieces(ALBUM_TORRENT, pieceFiles(null)))
+                .verifiedPieces,
+        ).toBe(0);
+    });
+
+    it('checks nothing without piece hashes', async () => {
+        const torrent: TorrentData = {
+            info: { ...ALBUM_TORRENT.info, pieces: undefined },
+        };
+
+        expect(await verifyPieces(torrent, pieceFiles(dir))).toEqual({
+            checkedPieces: 0,
+            verifiedPieces: 0,
+            ratio: 0,
+        });
+    });
+
+    it('tells apart copies with the same file sizes', async () => {
+        const copy = writeAlbum(
+            path.join(dir, 'copy'),
+            ALBUM.map((file) => Buffer.alloc(file.content.length)),
+        );
+        const original = writeAlbum(path.join(dir, 'original'));
+
+        const best = await findCorrectTorrentPath(ALBUM_TORRENT, [
+            copy,
+            original,
+        ]);
+
+        expect(best.basePath).toBe(original);
+        expect(best.verifiedPieceRatio).toBe(1);
+        expect(best.confidence).toBe(1.1);
+    });
+
+    it('keeps half the confidence of a copy whose pieces all fail', async () => {
+        const copy = writeAlbum(
+            path.join(dir, 'copy'),
+            ALBUM.map((file) => Buffer.alloc(file.content.length)),
+        );
+
+        const best = await findCorrectTorrentPath(ALBUM_TORRENT, [copy]);
+
+        expect(best.verifiedPieceRatio).toBe(0);
+        expect(best.confidence).toBeCloseTo(0.55);
+    });
+});
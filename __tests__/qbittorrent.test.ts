@@ -0,0 +1,100 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { findConfigFile, getProfile } from '../src/qbittorrent.js';
+
+describe('getProfile', () => {
+    const home = '/home/me';
+
+    beforeEach(() => {
+        vi.spyOn(os, 'homedir').mockReturnValue(home);
+        vi.stubEnv('XDG_DATA_HOME', '');
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it.each([
+        [
+            '/home/me/.local/share/qBittorrent/BT_backup',
+            { sandbox: null, profileDir: null, configuration: null },
+        ],
+        [
+            '/home/me/.local/share/qBittorrent_seedbox/BT_backup',
+            { sandbox: null, profileDir: null, configuration: 'seedbox' },
+        ],
+        [
+            '/home/me/.var/app/org.qbittorrent.qBittorrent/data/qBittorrent/BT_backup',
+            { sandbox: 'flatpak', profileDir: null, configuration: null },
+        ],
+        [
+            '/home/me/snap/qbittorrent-arnatious/current/.local/share/qBittorrent/BT_backup',
+            { sandbox: 'snap', profileDir: null, configuration: null },
+        ],
+        [
+            '/srv/profile/qBittorrent_test/data/BT_backup',
+            {
+                sandbox: null,
+                profileDir: '/srv/profile',
+                configuration: 'test',
+            },
+        ],
+    ])('tells which instance %s belongs to', (btBackup, profile) => {
+        expect(getProfile(btBackup)).toEqual(profile);
+    });
+
+    it('does not know a container volume', () => {
+        expect(
+            getProfile('/opt/qbittorrent/config/qBittorrent/BT_backup'),
+        ).toBeNull();
+    });
+});
+
+describe('findConfigFile', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qbt-config-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const write = (relativePath: string): string => {
+        const file = path.join(dir, relativePath);
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, '');
+        return file;
+    };
+
+    it.each([
+        [
+            '.local/share/qBittorrent/BT_backup',
+            '.config/qBittorrent/qBittorrent.conf',
+        ],
+        [
+            '.var/app/org.qbittorrent.qBittorrent/data/qBittorrent/BT_backup',
+            '.var/app/org.qbittorrent.qBittorrent/config/qBittorrent/qBittorrent.conf',
+        ],
+        [
+            'profile/qBittorrent/data/BT_backup',
+            'profile/qBittorrent/config/qBittorrent.conf',
+        ],
+        ['config/qBittorrent/BT_backup', 'config/qBittorrent/qBittorrent.conf'],
+    ])('finds the config of %s', (btBackup, config) => {
+        const configFile = write(config);
+
+        expect(findConfigFile(path.join(dir, btBackup))).toBe(configFile);
+    });
+
+    it('finds nothing without a config file', () => {
+        expect(
+            findConfigFile(
+                path.join(dir, 'profile/qBittorrent/data/BT_backup'),
+            ),
+        ).toBeNull();
+    });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import {
+    BencodeDict,
+    BencodeError,
+    decodeRaw,
+    encodeRaw,
+    getNumber,
+    getRawValue,
+    getText,
+    getTextList,
+} from '../src/rawBencode.js';
+import {
+    HUGE_UPLOAD,
+    binary,
+    dict,
+    int,
+    list,
+    str,
+    windowsFastResume,
+} from './fixtures.js';
+
+describe('rawBencode', () => {
+    it('round-trips a fastresume byte for byte', () => {
+        const content = windowsFastResume();
+
+        expect(encodeRaw(decodeRaw(content)).equals(content)).toBe(true);
+    });
+
+    it('keeps the keys in the order they were read', () => {
+        const resume = decodeRaw(windowsFastResume()) as BencodeDict;
+
+        const keys = [...resume.keys()];
+        expect(keys.slice(0, 4)).toEqual([
+            'active_time',
+            'added_time',
+            'allocation',
+            'auto_managed',
+        ]);
+        expect(keys).toEqual([...keys].sort());
+    });
+
+    it('keeps binary byte strings as they are', () => {
+        const hash = binary(20, 1);
+        const resume = decodeRaw(windowsFastResume()) as BencodeDict;
+
+        expect(resume.get('info-hash')).toEqual(hash);
+        expect(resume.get('peers')).toEqual(binary(12, 3));
+        expect(resume.get('pieces')).toEqual(Buffer.from([1, 1, 0, 1, 1]));
+    });
+
+    it('reads integers beyond the safe range as bigints', () => {
+        const resume = decodeRaw(windowsFastResume()) as BencodeDict;
+
+        expect(resume.get('total_uploaded')).toBe(HUGE_UPLOAD);
+        expect(resume.get('total_downloaded')).toBe(-1);
+        expect(encodeRaw(HUGE_UPLOAD).toString()).toBe(`i${HUGE_UPLOAD}e`);
+    });
+
+    it('reads UTF-8 text', () => {
+        const resume = decodeRaw(windowsFastResume()) as BencodeDict;
+
+        expect(getText(resume, 'save_path')).toBe('D:\\Torrents\\Séries');
+        expect(getText(resume, 'qBt-name')).toBe('');
+        expect(getText(resume, 'total_uploaded')).toBeUndefined();
+    });
+
+    it('reads lists of UTF-8 text', () => {
+        const resume = decodeRaw(windowsFastResume()) as BencodeDict;
+
+        expect(getTextList(resume, 'mapped_files')).toEqual([
+            '',
+            'Show\\Extras\\Making of.mkv',
+            '',
+        ]);
+        expect(getTextList(resume, 'save_path')).toBeUndefined();
+    });
+
+    it('reads integers as numbers, 0 when missing', () => {
+        const resume = decodeRaw(windowsFastResume()) as BencodeDict;
+
+        expect(getNumber(resume, 'seeding_time')).toBe(987654);
+        expect(getNumber(resume, 'total_uploaded')).toBe(Number(HUGE_UPLOAD));
+        expect(getNumber(resume, 'save_path')).toBe(0);
+        expect(getNumber(resume, 'last_upload')).toBe(0);
+    });
+
+    it('keeps binary dictionary keys and sorts them by raw bytes', () => {
+        const key = Buffer.from([0xc3, 0xa9]);
+        const content = dict(['Z', int(1)], ['a', int(2)], [key, int(3)]);
+
+        const decoded = decodeRaw(content) as BencodeDict;
+
+        expect(decoded.get(key.toString('latin1'))).toBe(3);
+        expect(encodeRaw(decoded).equals(content)).toBe(true);
+    });
+
+    it('sorts unsorted keys when encoding', () => {
+        const content = dict(['b', int(1)], ['a', int(2)]);
+
+        expect(encodeRaw(decodeRaw(content)).toString()).toBe('d1:ai2e1:bi1ee');
+    });
+
+    it('returns the raw bytes of a top-level value', () => {
+        const info = dict(['name', str('x')], ['length', int(5)]);
+        const content = dict(['announce', str('http://t')], ['info', info]);
+
+        expect(getRawValue(content, 'info')).toEqual(info);
+        expect(getRawValue(content, 'missing')).toBeUndefined();
+        expect(getRawValue(list(), 'info')).toBeUndefined();
+    });
+
+    it.each([
+        ['trailing data', Buffer.from('i1ei2e')],
+        ['a string past the end', Buffer.from('5:abc')],
+        ['an unterminated list', Buffer.from('li1e')],
+        ['an invalid integer', Buffer.from('i1.5e')],
+    ])('rejects %s', (_, content) => {
+        expect(() => decodeRaw(content)).toThrow(BencodeError);
+    });
+});
@@ -0,0 +1,159 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createBackup, restoreBackup } from '../src/backup.js';
+import { FileMatch } from '../src/pathMatcher.js';
+import {
+    findUnknownLayoutFields,
+    planRelocation,
+    relocateFiles,
+    renderLayout,
+} from '../src/relocate.js';
+
+const VALUES = {
+    category: 'TV/Anime',
+    name: 'Show: S01/E01',
+    infohash: 'ab'.repeat(20),
+};
+
+const found = (actualPath: string, size = 5): FileMatch => ({
+    expectedPath: path.basename(actualPath),
+    actualPath,
+    exists: true,
+    expectedSize: size,
+    actualSize: size,
+    sizeMatch: true,
+    fuzzy: false,
+});
+
+describe('renderLayout', () => {
+    it('keeps category subfolders and flattens the other fields', () => {
+        expect(renderLayout('{category}/{name}', VALUES)).toBe(
+            'TV/Anime/Show: S01_E01',
+        );
+    });
+
+    it('drops empty fields and segments that would leave the root', () => {
+        expect(
+            renderLayout('{category}/../{infohash}', {
+                ...VALUES,
+                category: '',
+            }),
+        ).toBe(VALUES.infohash);
+    });
+
+    it('finds unknown fields', () => {
+        expect(findUnknownLayoutFields('{category}/{label}/{}')).toEqual([
+            'label',
+            '',
+        ]);
+    });
+});
+
+describe('planRelocation', () => {
+    it('keeps each file in its place relative to the save path', () => {
+        const relocation = planRelocation('/mnt/d/Torrents', '/srv/TV', [
+            found('/mnt/d/Torrents/Show/E01.mkv', 100),
+            { ...found('/mnt/d/Torrents/Show/E02.mkv'), exists: false },
+            found('/mnt/e/Moved/Extras.mkv'),
+        ]);
+
+        expect(relocation).toEqual({
+            savePath: '/srv/TV',
+            files: [
+                {
+                    source: '/mnt/d/Torrents/Show/E01.mkv',
+                    destination: '/srv/TV/Show/E01.mkv',
+                    size: 100,
+                },
+            ],
+        });
+    });
+});
+
+describe('relocateFiles', () => {
+    let dir: string;
+    let source: string;
+    let target: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qbt-relocate-'));
+        source = path.join(dir, 'ntfs');
+        target = path.join(dir, 'ext4');
+        fs.mkdirSync(path.join(source, 'Show'), { recursive: true });
+        for (const name of ['E01.mkv', 'E02.mkv']) {
+            fs.writeFileSync(path.join(source, 'Show', name), 'video');
+        }
+        fs.mkdirSync(path.join(dir, 'BT_backup'));
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const relocation = (): ReturnType<typeof planRelocation> =>
+        planRelocation(source, target, [
+            found(path.join(source, 'Show', 'E01.mkv')),
+            found(path.join(source, 'Show', 'E02.mkv')),
+        ]);
+
+    it.each(['copy', 'hardlink', 'symlink'] as const)(
+        'leaves the source in place with %s',
+        async (mode) => {
+            await relocateFiles('Show', relocation(), mode);
+
+            expect(
+                fs.readFileSync(path.join(target, 'Show', 'E02.mkv'), 'utf8'),
+            ).toBe('video');
+            expect(fs.existsSync(path.join(source, 'Show', 'E02.mkv'))).toBe(
+                true,
+            );
+        },
+    );
+
+    it('moves files and puts them back on rollback', async () => {
+        const backup = await createBackup(path.join(dir, 'BT_backup'));
+
+        await relocateFiles('Show', relocation(), 'move', backup);
+        expect(fs.readdirSync(path.join(source, 'Show'))).toEqual([]);
+
+        expect(await restoreBackup(backup.dir)).toMatchObject({
+            relocated: 2,
+        });
+        expect(fs.readdirSync(path.join(source, 'Show')).sort()).toEqual([
+            'E01.mkv',
+            'E02.mkv',
+        ]);
+        expect(fs.existsSync(path.join(target, 'Show', 'E01.mkv'))).toBe(false);
+    });
+
+    it('puts back the files done so far when one fails', async () => {
+        const plan = relocation();
+        plan.files[1].size = 1;
+
+        await expect(relocateFiles('Show', plan, 'move')).rejects.toThrow(
+            'expected 1',
+        );
+
+        expect(fs.readdirSync(path.join(source, 'Show')).sort()).toEqual([
+            'E01.mkv',
+            'E02.mkv',
+        ]);
+        expect(fs.readdirSync(path.join(target, 'Show'))).toEqual([]);
+    });
+
+    it('skips files already at the destination with the right size', async () => {
+        fs.mkdirSync(path.join(target, 'Show'), { recursive: true });
+        fs.writeFileSync(path.join(target, 'Show', 'E01.mkv'), 'VIDEO');
+
+        await relocateFiles('Show', relocation(), 'move');
+
+        expect(
+            fs.readFileSync(path.join(target, 'Show', 'E01.mkv'), 'utf8'),
+        ).toBe('VIDEO');
+        expect(fs.existsSync(path.join(source, 'Show', 'E01.mkv'))).toBe(true);
+    });
+});
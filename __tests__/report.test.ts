@@ -0,0 +1,285 @@
+import { describe, expect, it } from 'vitest';
+import { PathMatchResult } from '../src/pathMatcher.js';
+import {
+    MigrationPlan,
+    buildTorrentPlan,
+    renderHtmlReport,
+} from '../src/report.js';
+
+const candidate = (
+    basePath: string,
+    confidence: number,
+    overrides: Partial<PathMatchResult> = {},
+): PathMatchResult => ({
+    basePath,
+    confidence,
+    matches: [],
+    totalFiles: 2,
+    existingFiles: 2,
+    debug: [],
+    ...overrides,
+});
+
+const TORRENT = {
+    infohash: 'ab'.repeat(20),
+    name: 'Album',
+    oldSavePath: 'D:\\Music',
+    outlier: false,
+    incomplete: false,
+    metadata: true,
+    resolution: null,
+    fuzzySavePath: false,
+};
+
+describe('buildTorrentPlan', () => {
+    it('reports the chosen location and each rejected one once', () => {
+        const plan = buildTorrentPlan(TORRENT, '/mnt/data/Music', [
+            candidate('/mnt/data/Music', 1.1, { verifiedPieceRatio: 1 }),
+            candidate('/mnt/data/Music', 0.6),
+            candidate('/mnt/backup/Music', 0.55123, { verifiedPieceRatio: 0 }),
+            candidate('/mnt/backup/Music', 0.2),
+        ]);
+
+        expect(plan.chosen).toEqual({
+            basePath: '/mnt/data/Music',
+            confidence: 1.1,
+            existingFiles: 2,
+            totalFiles: 2,
+            verifiedPieceRatio: 1,
+        });
+        expect(plan.rejected).toEqual([
+            {
+                basePath: '/mnt/backup/Music',
+                confidence: 0.551,
+                existingFiles: 2,
+                totalFiles: 2,
+                verifiedPieceRatio: 0,
+            },
+        ]);
+    });
+
+    it('lists missing files and size mismatches at the chosen location', () => {
+        const file = {
+            actualPath: '',
+            exists: true,
+            expectedSize: 100,
+            actualSize: 100,
+            sizeMatch: true,
+            fuzzy: false,
+        };
+
+        const plan = buildTorrentPlan(TORRENT, '/mnt/data/Music', [
+            candidate('/mnt/data/Music', 0.8, {
+                matches: [
+                    { ...file, expectedPath: 'Album/01.flac' },
+                    {
+                        ...file,
+                        expectedPath: 'Album/02.flac',
+                        actualSize: 50,
+                        sizeMatch: false,
+                    },
+                    {
+                        ...file,
+                        expectedPath: 'Album/03.flac',
+                        exists: false,
+                        actualSize: 0,
+                    },
+                ],
+            }),
+        ]);
+
+        expect(plan.missingFiles).toEqual(['Album/03.flac']);
+        expect(plan.sizeMismatches).toEqual([
+            { path: 'Album/02.flac', expectedSize: 100, actualSize: 50 },
+        ]);
+    });
+
+    it('lists the save path and files found under another spelling', () => {
+        const plan = buildTorrentPlan(
+            { ...TORRENT, fuzzySavePath: true },
+            '/mnt/data/music',
+            [
+                candidate('/mnt/data/music', 1, {
+                    matches: [
+                        {
+                            expectedPath: 'Album/01.flac',
+                            actualPath: '/mnt/data/music/album/01.flac',
+                            exists: true,
+                            expectedSize: 100,
+                            actualSize: 100,
+                            sizeMatch: true,
+                            fuzzy: true,
+                        },
+                    ],
+                }),
+            ],
+        );
+
+        expect(plan.fuzzyMatches).toEqual([
+            { expected: 'D:\\Music', actual: '/mnt/data/music' },
+            {
+                expected: 'Album/01.flac',
+                actual: '/mnt/data/music/album/01.flac',
+            },
+        ]);
+    });
+
+    it('leaves an unresolved torrent without a chosen location', () => {
+        const plan = buildTorrentPlan(TORRENT, null, []);
+
+        expect(plan).toMatchObject({
+            newSavePath: null,
+            chosen: null,
+            rejected: [],
+            missingFiles: [],
+        });
+    });
+});
+
+describe('renderHtmlReport', () => {
+    const plan: MigrationPlan = {
+        createdAt: '2026-01-01T00:00:00.000Z',
+        source: '/mnt/c/BT_backup',
+        target: '/home/me/BT_backup',
+        dryRun: true,
+        torrents: [
+            buildTorrentPlan(
+                { ...TORRENT, name: 'Rock & <Roll>' },
+                '/mnt/data/Music',
+                [candidate('/mnt/data/Music', 1)],
+            ),
+            buildTorrentPlan(TORRENT, null, []),
+        ],
+        unresolved: ['D:\\Music'],
+    };
+
+    it('escapes names and marks unresolved torrents', () => {
+        const html = renderHtmlReport(plan);
+
+        expect(html).toContain('Rock &amp; &lt;Roll&gt;');
+        expect(html).not.toContain('<Roll>');
+        expect(html).toContain('<tr class="ok">');
+        expect(html).toContain('<tr class="unresolved">');
+        expect(html).toContain('2 torrents, 1 unresolved save paths');
+        expect(html).toContain('(dry run)');
+    });
+
+    it('flags data found apart from its save path', () => {
+        const html = renderHtmlReport({
+            ...plan,
+            torrents: [
+                buildTorrentPlan({ ...TORRENT, outlier: true }, '/mnt/old', [
+                    candidate('/mnt/old', 1),
+                ]),
+            ],
+        });
+
+        expect(html).toContain(
+            'data found apart from the rest of its save path',
+        );
+    });
+
+    it('shows what happens to torrents already on Linux', () => {
+        const summary = {
+            totalUploaded: 0,
+            totalDownloaded: 0,
+            seedingTime: 0,
+            addedTime: 0,
+            lastActivity: 0,
+            savePath: '/mnt/data/Music',
+            category: '',
+            tags: [],
+        };
+        const html = renderHtmlReport({
+            ...plan,
+            torrents: [
+                buildTorrentPlan(TORRENT, '/mnt/data/Music', [], {
+                    infohash: TORRENT.infohash,
+                    name: TORRENT.name,
+                    action: 'keep-linux',
+                    windows: summary,
+                    linux: summary,
+                    differences: ['total_uploaded'],
+                }),
+            ],
+        });
+
+        expect(html).toContain(
+            'already on Linux, keep-linux (differs: total_uploaded)',
+        );
+    });
+
+    it('says what was done with torrents whose data was not found', () => {
+        const html = renderHtmlReport({
+            ...plan,
+            torrents: [
+                buildTorrentPlan(
+                    { ...TORRENT, resolution: 'paused' },
+                    null,
+                    [],
+                ),
+            ],
+        });
+
+        expect(html).toContain('migrated stopped with its Windows path');
+    });
+
+    it('marks torrents still in the incomplete-downloads folder', () => {
+        const html = renderHtmlReport({
+            ...plan,
+            torrents: [
+                buildTorrentPlan({ ...TORRENT, incomplete: true }, null, []),
+            ],
+        });
+
+        expect(html).toContain('<strong>Album</strong> (incomplete)');
+    });
+
+    it('marks magnet links whose metadata was never received', () => {
+        const html = renderHtmlReport({
+            ...plan,
+            torrents: [
+                buildTorrentPlan(
+                    { ...TORRENT, metadata: false },
+                    '/mnt/data/Music',
+                    [],
+                ),
+            ],
+        });
+
+        expect(html).toContain('<tr class="warning">');
+        expect(html).toContain('no metadata, fetched from peers');
+    });
+
+    it('shows save paths found under another spelling', () => {
+        const html = renderHtmlReport({
+            ...plan,
+            torrents: [
+                buildTorrentPlan(
+                    { ...TORRENT, fuzzySavePath: true },
+                    '/mnt/data/music',
+                    [],
+                ),
+            ],
+        });
+
+        expect(html).toContain('spelled differently: D:\\Music');
+    });
+
+    it('shows where relocated data goes', () => {
+        const html = renderHtmlReport({
+            ...plan,
+            torrents: [
+                buildTorrentPlan(
+                    TORRENT,
+                    '/mnt/data/Music',
+                    [],
+                    null,
+                    '/srv/Music',
+                ),
+            ],
+        });
+
+        expect(html).toContain('relocated to /srv/Music');
+    });
+});
@@ -0,0 +1,239 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import initSqlJs from 'sql.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createBackup, restoreBackup } from '../src/backup.js';
+import {
+    BencodeDict,
+    decodeRaw,
+    encodeRaw,
+    getText,
+} from '../src/rawBencode.js';
+import { ResumeEntry, openResumeStore } from '../src/resumeStore.js';
+import { createSqliteStore } from '../src/sqliteStore.js';
+import { V1_INFO, dict, torrentFile, windowsFastResume } from './fixtures.js';
+
+const HASH = 'ab'.repeat(20);
+
+// The torrents table of qBittorrent 4.6, without inactive_seeding_time_limit like older versions
+const TORRENTS_SCHEMA = `CREATE TABLE torrents (
+    id INTEGER PRIMARY KEY,
+    torrent_id BLOB NOT NULL UNIQUE,
+    queue_position INTEGER NOT NULL DEFAULT -1,
+    name TEXT,
+    category TEXT,
+    tags TEXT,
+    target_save_path TEXT,
+    download_path TEXT,
+    content_layout TEXT NOT NULL,
+    ratio_limit INTEGER NOT NULL,
+    seeding_time_limit INTEGER NOT NULL,
+    has_outer_pieces_priority INTEGER NOT NULL,
+    has_seed_status INTEGER NOT NULL,
+    operating_mode TEXT NOT NULL,
+    stopped INTEGER NOT NULL,
+    stop_condition TEXT NOT NULL DEFAULT 'None',
+    libtorrent_resume_data BLOB NOT NULL,
+    metadata BLOB NOT NULL
+)`;
+
+const resumeDict = (data: Buffer): BencodeDict =>
+    decodeRaw(data) as BencodeDict;
+
+// The fields libtorrent owns, everything but qBittorrent's qBt-* settings
+const libtorrentFields = (data: Buffer): Buffer =>
+    encodeRaw(
+        new Map(
+            [...resumeDict(data)].filter(([key]) => !key.startsWith('qBt-')),
+        ),
+    );
+
+describe('torrents.db', () => {
+    let dir: string;
+    let dbPath: string;
+
+    beforeEach(async () => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qbt-sqlite-'));
+        dbPath = path.join(dir, 'torrents.db');
+        const SQL = await initSqlJs();
+        const db = new SQL.Database();
+        db.run(TORRENTS_SCHEMA);
+        fs.writeFileSync(dbPath, db.export());
+        db.close();
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const entry = (overrides: Partial<ResumeEntry> = {}): ResumeEntry => ({
+        infohash: HASH,
+        fastResume: windowsFastResume({ paused: 1 }),
+        torrent: torrentFile(V1_INFO),
+        ...overrides,
+    });
+
+    const rows = async (): Promise<Record<string, unknown>[]> => {
+        const SQL = await initSqlJs();
+        const db = new SQL.Database(fs.readFileSync(dbPath));
+        const [result] = db.exec(
+            'SELECT torrent_id, queue_position, stopped, tags FROM torrents',
+        );
+        db.close();
+        return (result?.values ?? []).map((values) =>
+            Object.fromEntries(
+                result.columns.map((column, i) => [column, values[i]]),
+            ),
+        );
+    };
+
+    it('reads back what it writes', async () => {
+        const store = createSqliteStore(dbPath);
+
+        expect(await store.write([entry()])).toEqual({
+            written: 1,
+            errors: 0,
+        });
+        const [read] = await store.read();
+
+        expect(read.infohash).toBe(HASH);
+        expect(read.torrent).toEqual(torrentFile(V1_INFO));
+        expect(libtorrentFields(read.fastResume)).toEqual(
+            libtorrentFields(entry().fastResume),
+        );
+        const resume = resumeDict(read.fastResume);
+        expect(getText(resume, 'qBt-savePath')).toBe('D:\\Torrents\\Séries');
+        expect(getText(resume, 'qBt-downloadPath')).toBe('E:\\Incomplete');
+        expect(getText(resume, 'qBt-category')).toBe('Séries');
+        expect(resume.get('qBt-tags')).toEqual([
+            Buffer.from('hd'),
+            Buffer.from('private'),
+        ]);
+        expect(resume.get('qBt-stopped')).toBe(1);
+    });
+
+    it('replaces rows of the same torrent and queues new ones last', async () => {
+        const store = createSqliteStore(dbPath);
+        const other = 'cd'.repeat(20);
+
+        await store.write([entry(), entry({ infohash: other })]);
+        await store.write([entry()]);
+
+        expect(await rows()).toEqual([
+            {
+                torrent_id: other,
+                queue_position: 1,
+                stopped: 1,
+                tags: 'hd,private',
+            },
+            {
+                torrent_id: HASH,
+                queue_position: 2,
+                stopped: 1,
+                tags: 'hd,private',
+            },
+        ]);
+    });
+
+    it('wraps metadata stored as a bare info dictionary', async () => {
+        const store = createSqliteStore(dbPath);
+        await store.write([entry({ torrent: V1_INFO })]);
+
+        const [read] = await store.read();
+
+        expect(read.torrent).toEqual(dict(['info', V1_INFO]));
+    });
+
+    it('snapshots the database before writing, so it can be restored', async () => {
+        const before = fs.readFileSync(dbPath);
+        const backup = await createBackup(dbPath);
+
+        await createSqliteStore(dbPath).write([entry()], backup);
+        expect(await rows()).toHaveLength(1);
+
+        expect(await restoreBackup(backup.dir)).toEqual({
+            restored: 1,
+            deleted: 0,
+            relocated: 0,
+        });
+        expect(fs.readFileSync(dbPath)).toEqual(before);
+    });
+});
+
+describe('openResumeStore', () => {
+    let dir: string;
+    let btBackup: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qbt-store-'));
+        btBackup = path.join(dir, 'BT_backup');
+        fs.mkdirSync(btBackup);
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const write = (file: string, content: string | Buffer = ''): void =>
+        fs.writeFileSync(path.join(dir, file), content);
+
+    it('reads .fastresume files, with or without their .torrent', async () => {
+        write(`BT_backup/${HASH}.fastresume`, windowsFastResume());
+        write(`BT_backup/${'cd'.repeat(20)}.fastresume`, windowsFastResume());
+        write(`BT_backup/${HASH}.torrent`, torrentFile(V1_INFO));
+        write('BT_backup/notes.txt');
+
+        const store = await openResumeStore(btBackup, null);
+        const entries = await store.read();
+
+        expect(store.kind).toBe('folder');
+        expect(
+            entries
+                .map((e) => [e.infohash, e.torrent !== null])
+                .sort(([a], [b]) => String(a).localeCompare(String(b))),
+        ).toEqual([
+            [HASH, true],
+            ['cd'.repeat(20), false],
+        ]);
+    });
+
+    it('opens a torrents.db given directly', async () => {
+        write('torrents.db');
+
+        const store = await openResumeStore(path.join(dir, 'torrents.db'));
+
+        expect(store).toMatchObject({
+            kind: 'sqlite',
+            location: path.join(dir, 'torrents.db'),
+        });
+    });
+
+    it('prefers the torrents.db next to an empty BT_backup', async () => {
+        write('torrents.db');
+
+        expect((await openResumeStore(btBackup, null)).kind).toBe('sqlite');
+    });
+
+    it('follows the configured storage when both exist', async () => {
+        write('torrents.db');
+        write(`BT_backup/${HASH}.fastresume`, windowsFastResume());
+        write(
+            'qBittorrent.conf',
+            '[BitTorrent]\nSession\\ResumeDataStorageType=SQLite\n',
+        );
+
+        expect((await openResumeStore(btBackup, null)).kind).toBe('folder');
+        expect(
+            (
+                await openResumeStore(
+                    btBackup,
+                    path.join(dir, 'qBittorrent.conf'),
+                )
+            ).kind,
+        ).toBe('sqlite');
+    });
+});
@@ -0,0 +1,154 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CommandOptions, ExitCode } from '../src/cli.js';
+import { decodeFastResume, rewriteFastResume } from '../src/fastresume.js';
+import { createPathTranslator } from '../src/paths.js';
+import { getText } from '../src/rawBencode.js';
+import { runReverseMigration } from '../src/reverse.js';
+import { V1_INFO, torrentFile, windowsFastResume } from './fixtures.js';
+
+vi.mock('../src/qbittorrent.js', async (importOriginal) => ({
+    ...(await importOriginal<object>()),
+    findBTBackup: vi.fn(async () => null),
+    isQBitRunning: vi.fn(async () => false),
+}));
+vi.mock('../src/mounts.js', async (importOriginal) => ({
+    ...(await importOriginal<object>()),
+    findWindowsVolumes: vi.fn(async () => []),
+    readMounts: vi.fn(async () => []),
+}));
+vi.mock('../src/prompt.js', () => ({
+    isInteractive: (): boolean => false,
+    promptUserInput: vi.fn(),
+}));
+
+const HASH = crypto.createHash('sha1').update(V1_INFO).digest('hex');
+
+describe('runReverseMigration', () => {
+    let dir: string;
+    let linuxDir: string;
+    let windowsDir: string;
+
+    // Resume data as the Linux client keeps it, its data on the D: and E: partitions
+    const writeLinuxTorrent = (savePath = 'D:\\Torrents\\Séries'): void => {
+        fs.writeFileSync(
+            path.join(linuxDir, `${HASH}.fastresume`),
+            rewriteFastResume(
+                windowsFastResume({ savePath }),
+                createPathTranslator([
+                    { windowsPath: 'D:\\', linuxPath: path.join(dir, 'd') },
+                    { windowsPath: 'E:\\', linuxPath: path.join(dir, 'e') },
+                    { windowsPath: 'H:\\', linuxPath: '/home/me' },
+                ]),
+            ).content,
+        );
+        fs.writeFileSync(
+            path.join(linuxDir, `${HASH}.torrent`),
+            torrentFile(V1_INFO),
+        );
+    };
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qbt-reverse-'));
+        linuxDir = path.join(dir, 'linux');
+        windowsDir = path.join(dir, 'windows');
+        fs.mkdirSync(linuxDir);
+        fs.mkdirSync(windowsDir);
+        fs.mkdirSync(path.join(dir, 'd', 'Torrents', 'Séries'), {
+            recursive: true,
+        });
+        fs.writeFileSync(
+            path.join(dir, 'd', 'Torrents', 'Séries', 'movie.mkv'),
+            Buffer.alloc(5000),
+        );
+        writeLinuxTorrent();
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const options = (
+        overrides: Partial<CommandOptions> = {},
+    ): CommandOptions => ({
+        source: linuxDir,
+        target: windowsDir,
+        yes: true,
+        dryRun: false,
+        verifyPieces: 0,
+        pathMappings: {},
+        driveMappings: { D: path.join(dir, 'd'), E: path.join(dir, 'e') },
+        shareMappings: {},
+        searchRoots: [],
+        skipSettings: true,
+        onConflict: 'merge',
+        unresolved: 'ask',
+        layout: '{category}',
+        relocateMode: 'copy',
+        trackerRules: [],
+        tags: [],
+        ...overrides,
+    });
+
+    const windowsResume = (): ReturnType<typeof decodeFastResume> =>
+        decodeFastResume(
+            fs.readFileSync(path.join(windowsDir, `${HASH}.fastresume`)),
+        );
+
+    it('writes the torrent with the Windows paths of its drives', async () => {
+        expect(await runReverseMigration(options())).toBe(ExitCode.Success);
+
+        expect(fs.readdirSync(windowsDir).sort()).toEqual([
+            `${HASH}.fastresume`,
+            `${HASH}.torrent`,
+        ]);
+        expect(getText(windowsResume(), 'save_path')).toBe(
+            'D:\\Torrents\\Séries',
+        );
+        expect(getText(windowsResume(), 'qBt-downloadPath')).toBe(
+            'E:\\Incomplete',
+        );
+    });
+
+    it('stops on save paths off the Windows drives without a terminal', async () => {
+        writeLinuxTorrent('H:\\Downloads');
+
+        expect(await runReverseMigration(options())).toBe(
+            ExitCode.UnresolvedPaths,
+        );
+        expect(fs.readdirSync(windowsDir)).toEqual([]);
+    });
+
+    it('migrates torrents off the Windows drives stopped when told to', async () => {
+        writeLinuxTorrent('H:\\Downloads');
+
+        const code = await runReverseMigration(
+            options({ unresolved: 'paused' }),
+        );
+
+        expect(code).toBe(ExitCode.Success);
+        expect(getText(windowsResume(), 'save_path')).toBe(
+            '/home/me/Downloads',
+        );
+        expect(windowsResume().get('qBt-stopped')).toBe(1);
+    });
+
+    it('writes nothing in a dry run', async () => {
+        expect(await runReverseMigration(options({ dryRun: true }))).toBe(
+            ExitCode.Success,
+        );
+        expect(fs.readdirSync(windowsDir)).toEqual([]);
+    });
+
+    it('needs the Windows BT_backup', async () => {
+        expect(await runReverseMigration(options({ target: undefined }))).toBe(
+            ExitCode.Error,
+        );
+    });
+});
@@ -0,0 +1,194 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createPathTranslator } from '../src/paths.js';
+import {
+    findWindowsConfigDir,
+    planSettingsMigration,
+} from '../src/settings.js';
+
+const translatePath = createPathTranslator([
+    { windowsPath: 'D:\\Torrents', linuxPath: '/mnt/data/Torrents' },
+]);
+
+describe('settings migration', () => {
+    let dir: string;
+    let windowsDir: string;
+    let linuxDir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qbt-settings-'));
+        windowsDir = path.join(dir, 'windows');
+        linuxDir = path.join(dir, 'linux');
+        fs.mkdirSync(path.join(windowsDir, 'rss'), { recursive: true });
+        fs.mkdirSync(linuxDir);
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const writeWindows = (file: string, content: string): void =>
+        fs.writeFileSync(path.join(windowsDir, file), content);
+    const writeLinux = (file: string, content: string): void =>
+        fs.writeFileSync(path.join(linuxDir, file), content);
+
+    const plan = async (): ReturnType<typeof planSettingsMigration> =>
+        planSettingsMigration(windowsDir, linuxDir, translatePath);
+
+    it('merges qBittorrent.ini into qBittorrent.conf', async () => {
+        writeWindows(
+            'qBittorrent.ini',
+            [
+                '\uFEFF[BitTorrent]',
+                'Session\\DefaultSavePath=D:\\\\Torrents\\\\New',
+                'Session\\TempPath=E:\\\\Incomplete',
+                'Session\\ResumeDataStorageType=SQLite',
+                'Session\\Port=51413',
+                '',
+                '[MainWindow]',
+                'geometry=@ByteArray(abc)',
+                '',
+                '[Preferences]',
+                'WebUI\\Port=8081',
+            ].join('\r\n'),
+        );
+        writeLinux(
+            'qBittorrent.conf',
+            [
+                '[BitTorrent]',
+                '; kept',
+                'Session\\Port=6881',
+                'Session\\ResumeDataStorageType=Legacy',
+                'Session\\Interface=eth0',
+                '',
+                '[LegalNotice]',
+                'Accepted=true',
+                '',
+            ].join('\n'),
+        );
+
+        const [ini] = await plan();
+
+        expect(ini.destination).toBe(path.join(linuxDir, 'qBittorrent.conf'));
+        expect(ini.content).toBe(
+            [
+                '[BitTorrent]',
+                '; kept',
+                'Session\\Port=51413',
+                'Session\\ResumeDataStorageType=Legacy',
+                'Session\\Interface=eth0',
+                'Session\\DefaultSavePath=/mnt/data/Torrents/New',
+                '',
+                '[LegalNotice]',
+                'Accepted=true',
+                '',
+                '[MainWindow]',
+                '',
+                '[Preferences]',
+                'WebUI\\Port=8081',
+                '',
+            ].join('\n'),
+        );
+        expect(ini.translated).toEqual(['D:\\Torrents\\New']);
+        expect(ini.untranslated).toEqual(['E:\\Incomplete']);
+    });
+
+    it('quotes translated values that need it', async () => {
+        writeWindows(
+            'qBittorrent.ini',
+            '[BitTorrent]\nSession\\DefaultSavePath=D:\\\\Torrents\\\\A, B\n',
+        );
+
+        const [ini] = await plan();
+
+        expect(ini.content).toContain(
+            'Session\\DefaultSavePath="/mnt/data/Torrents/A, B"',
+        );
+    });
+
+    it('translates JSON keys and values, leaving out unmapped entries', async () => {
+        writeWindows(
+            'watched_folders.json',
+            JSON.stringify({
+                'D:\\Torrents\\Watch': { recursive: false },
+                'E:\\Watch': { recursive: true },
+            }),
+        );
+        writeWindows(
+            'categories.json',
+            JSON.stringify({
+                Movies: { save_path: 'D:\\Torrents\\Movies' },
+                Music: { save_path: 'E:\\Music' },
+            }),
+        );
+        writeLinux(
+            'categories.json',
+            JSON.stringify({ Linux: { save_path: '/srv/linux' } }),
+        );
+
+        const files = await plan();
+        const content = (name: string): unknown =>
+            JSON.parse(
+                files.find((file) => file.destination.endsWith(name)).content,
+            );
+
+        expect(content('categories.json')).toEqual({
+            Linux: { save_path: '/srv/linux' },
+            Movies: { save_path: '/mnt/data/Torrents/Movies' },
+            Music: {},
+        });
+        expect(content('watched_folders.json')).toEqual({
+            '/mnt/data/Torrents/Watch': { recursive: false },
+        });
+    });
+
+    it('skips settings files that are not valid JSON', async () => {
+        writeWindows(path.join('rss', 'feeds.json'), '{');
+
+        expect(await plan()).toEqual([]);
+    });
+});
+
+describe('findWindowsConfigDir', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qbt-config-dir-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const create = (configDir: string): void => {
+        fs.mkdirSync(path.join(dir, configDir), { recursive: true });
+        fs.writeFileSync(path.join(dir, configDir, 'qBittorrent.ini'), '');
+    };
+
+    it('finds the roaming profile of an installed qBittorrent', () => {
+        create('AppData/Roaming/qBittorrent');
+
+        expect(
+            findWindowsConfigDir(
+                path.join(dir, 'AppData/Local/qBittorrent/BT_backup'),
+            ),
+        ).toBe(path.join(dir, 'AppData/Roaming/qBittorrent'));
+    });
+
+    it('finds the config directory of a portable install', () => {
+        create('profile/qBittorrent/config');
+
+        expect(
+            findWindowsConfigDir(
+                path.join(dir, 'profile/qBittorrent/data/BT_backup'),
+            ),
+        ).toBe(path.join(dir, 'profile/qBittorrent/config'));
+    });
+
+    it('returns null without qBittorrent.ini', () => {
+        expect(findWindowsConfigDir(path.join(dir, 'BT_backup'))).toBeNull();
+    });
+});
@@ -0,0 +1,208 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CommandOptions, ExitCode } from '../src/cli.js';
+import { decodeFastResume } from '../src/fastresume.js';
+import { getNumber, getText } from '../src/rawBencode.js';
+import { getJournalFile, runSync } from '../src/sync.js';
+import { V1_INFO, dict, int, str, torrentFile } from './fixtures.js';
+
+vi.mock('../src/qbittorrent.js', async (importOriginal) => ({
+    ...(await importOriginal<object>()),
+    findBTBackup: vi.fn(async () => null),
+    isQBitRunning: vi.fn(async () => false),
+}));
+vi.mock('../src/mounts.js', async (importOriginal) => ({
+    ...(await importOriginal<object>()),
+    findWindowsVolumes: vi.fn(async () => []),
+    readMounts: vi.fn(async () => []),
+}));
+vi.mock('../src/prompt.js', () => ({
+    isInteractive: (): boolean => false,
+    promptUserInput: vi.fn(),
+}));
+
+const HASH = crypto.createHash('sha1').update(V1_INFO).digest('hex');
+
+describe('runSync', () => {
+    let dir: string;
+    let windowsDir: string;
+    let linuxDir: string;
+
+    const writeTorrent = (
+        btBackup: string,
+        savePath: string,
+        counters: { uploaded: number; seeding: number },
+    ): void => {
+        fs.writeFileSync(
+            path.join(btBackup, `${HASH}.fastresume`),
+            dict(
+                ['active_time', int(counters.seeding)],
+                ['save_path', str(savePath)],
+                ['seeding_time', int(counters.seeding)],
+                ['total_downloaded', int(5000)],
+                ['total_uploaded', int(counters.uploaded)],
+            ),
+        );
+        fs.writeFileSync(
+            path.join(btBackup, `${HASH}.torrent`),
+            torrentFile(V1_INFO),
+        );
+    };
+
+    const counters = (
+        btBackup: string,
+    ): { uploaded: number; seeding: number } => {
+        const resume = decodeFastResume(
+            fs.readFileSync(path.join(btBackup, `${HASH}.fastresume`)),
+        );
+        return {
+            uploaded: getNumber(resume, 'total_uploaded'),
+            seeding: getNumber(resume, 'seeding_time'),
+        };
+    };
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qbt-sync-'));
+        windowsDir = path.join(dir, 'windows');
+        linuxDir = path.join(dir, 'linux');
+        fs.mkdirSync(windowsDir);
+        fs.mkdirSync(linuxDir);
+        fs.mkdirSync(path.join(dir, 'd', 'Torrents'), { recursive: true });
+        fs.writeFileSync(
+            path.join(dir, 'd', 'Torrents', 'movie.mkv'),
+            Buffer.alloc(5000),
+        );
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const options = (
+        overrides: Partial<CommandOptions> = {},
+    ): CommandOptions => ({
+        source: windowsDir,
+        target: linuxDir,
+        yes: true,
+        dryRun: false,
+        verifyPieces: 0,
+        pathMappings: {},
+        driveMappings: { D: path.join(dir, 'd') },
+        shareMappings: {},
+        searchRoots: [],
+        skipSettings: true,
+        onConflict: 'merge',
+        unresolved: 'ask',
+        layout: '{category}',
+        relocateMode: 'copy',
+        trackerRules: [],
+        tags: [],
+        ...overrides,
+    });
+
+    const writeBoth = (
+        windows: { uploaded: number; seeding: number },
+        linux: { uploaded: number; seeding: number },
+    ): void => {
+        writeTorrent(windowsDir, 'D:\\Torrents', windows);
+        writeTorrent(linuxDir, path.join(dir, 'd', 'Torrents'), linux);
+    };
+
+    it('carries the larger counters to both sides on the first sync', async () => {
+        writeBoth(
+            { uploaded: 100, seeding: 50 },
+            { uploaded: 80, seeding: 70 },
+        );
+
+        expect(await runSync(options())).toBe(ExitCode.Success);
+
+        expect(counters(windowsDir)).toEqual({ uploaded: 100, seeding: 70 });
+        expect(counters(linuxDir)).toEqual({ uploaded: 100, seeding: 70 });
+        const journal = JSON.parse(
+            fs.readFileSync(getJournalFile(linuxDir), 'utf8'),
+        );
+        expect(journal).toMatchObject({
+            windowsDir: path.resolve(windowsDir),
+            linuxDir: path.resolve(linuxDir),
+        });
+    });
+
+    it('adds what each side gained since the last sync', async () => {
+        writeBoth(
+            { uploaded: 100, seeding: 50 },
+            { uploaded: 100, seeding: 50 },
+        );
+        expect(await runSync(options())).toBe(ExitCode.NothingToDo);
+
+        writeBoth(
+            { uploaded: 130, seeding: 60 },
+            { uploaded: 110, seeding: 55 },
+        );
+        expect(await runSync(options())).toBe(ExitCode.Success);
+
+        expect(counters(windowsDir)).toEqual({ uploaded: 140, seeding: 65 });
+        expect(counters(linuxDir)).toEqual({ uploaded: 140, seeding: 65 });
+    });
+
+    it('ignores the journal of another Linux BT_backup', async () => {
+        writeBoth(
+            { uploaded: 100, seeding: 50 },
+            { uploaded: 100, seeding: 50 },
+        );
+        expect(await runSync(options())).toBe(ExitCode.NothingToDo);
+        const journal = JSON.parse(
+            fs.readFileSync(getJournalFile(linuxDir), 'utf8'),
+        );
+        fs.writeFileSync(
+            getJournalFile(linuxDir),
+            JSON.stringify({ ...journal, linuxDir: '/elsewhere/BT_backup' }),
+        );
+
+        writeBoth(
+            { uploaded: 130, seeding: 60 },
+            { uploaded: 110, seeding: 55 },
+        );
+        expect(await runSync(options())).toBe(ExitCode.Success);
+
+        expect(counters(linuxDir)).toEqual({ uploaded: 130, seeding: 60 });
+        expect(console.warn).toHaveBeenCalledWith(
+            expect.stringContaining('The sync journal is for'),
+        );
+    });
+
+    it('copies a torrent new on Windows with its save path mapped', async () => {
+        writeTorrent(windowsDir, 'D:\\Torrents', { uploaded: 10, seeding: 5 });
+
+        expect(await runSync(options())).toBe(ExitCode.Success);
+
+        const resume = decodeFastResume(
+            fs.readFileSync(path.join(linuxDir, `${HASH}.fastresume`)),
+        );
+        expect(getText(resume, 'save_path')).toBe(
+            path.join(dir, 'd', 'Torrents'),
+        );
+        expect(fs.existsSync(path.join(linuxDir, `${HASH}.torrent`))).toBe(
+            true,
+        );
+    });
+
+    it('does not copy back a torrent removed since the last sync', async () => {
+        writeBoth(
+            { uploaded: 100, seeding: 50 },
+            { uploaded: 100, seeding: 50 },
+        );
+        expect(await runSync(options())).toBe(ExitCode.NothingToDo);
+        fs.rmSync(path.join(linuxDir, `${HASH}.fastresume`));
+        fs.rmSync(path.join(linuxDir, `${HASH}.torrent`));
+
+        expect(await runSync(options())).toBe(ExitCode.NothingToDo);
+
+        expect(fs.readdirSync(linuxDir)).toEqual([]);
+    });
+});
@@ -0,0 +1,259 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+    TorrentData,
+    decodeTorrent,
+    getContentFiles,
+    getExpectedFiles,
+    getInfoHashes,
+    getMappedFiles,
+    getTorrentId,
+    isSingleFileTorrent,
+    matchesTorrentId,
+} from '../src/torrent.js';
+import { rankTorrentPaths } from '../src/pathMatcher.js';
+import { PieceFile, verifyPieces } from '../src/pieceVerifier.js';
+import {
+    HYBRID_INFO,
+    PIECE_LENGTH,
+    binary,
+    dict,
+    str,
+    V1_INFO,
+    V2_INFO,
+    V2_SINGLE_INFO,
+    torrentFile,
+} from './fixtures.js';
+
+const sha = (algorithm: string, info: Buffer): string =>
+    crypto.createHash(algorithm).update(info).digest('hex');
+
+const SEASON_FILES = [
+    { path: 'E01.mkv', size: 40000 },
+    { path: 'E02.mkv', size: 30000 },
+    { path: 'Subs/en.srt', size: 1200 },
+];
+
+describe('v2 and hybrid torrents', () => {
+    it('reads the files of a v2 torrent from its file tree', () => {
+        const torrent = decodeTorrent(torrentFile(V2_INFO));
+
+        expect(isSingleFileTorrent(torrent)).toBe(false);
+        expect(getExpectedFiles(torrent)).toEqual(SEASON_FILES);
+    });
+
+    it('reads a single-file v2 torrent', () => {
+        const torrent = decodeTorrent(torrentFile(V2_SINGLE_INFO));
+
+        expect(isSingleFileTorrent(torrent)).toBe(true);
+        expect(getExpectedFiles(torrent)).toEqual([
+            { path: 'movie.mkv', size: 5000 },
+        ]);
+    });
+
+    it('reads a hybrid torrent from its v1 file list, pad files included', () => {
+        const torrent = decodeTorrent(torrentFile(HYBRID_INFO));
+
+        const files = getContentFiles(torrent);
+        expect(files.map((file) => file.padding)).toEqual([
+            false,
+            true,
+            false,
+            true,
+            false,
+        ]);
+        expect(files[1].size).toBe(PIECE_LENGTH * 3 - 40000);
+        expect(getExpectedFiles(torrent)).toEqual(SEASON_FILES);
+    });
+
+    it('applies mapped_files by the index pad files count in', () => {
+        const torrent = decodeTorrent(torrentFile(HYBRID_INFO));
+
+        const files = getMappedFiles(torrent, [
+            '',
+            '',
+            'Season 1\\Episode 2.mkv',
+        ]);
+
+        expect(files).toEqual([
+            { path: 'Season 1/E01.mkv', size: 40000 },
+            { path: 'Season 1/Episode 2.mkv', size: 30000 },
+            { path: 'Season 1/Subs/en.srt', size: 1200 },
+        ]);
+    });
+
+    it('keeps mapped_files moved outside the save path absolute', () => {
+        const torrent = decodeTorrent(torrentFile(HYBRID_INFO));
+
+        const files = getMappedFiles(torrent, ['E:\\Elsewhere\\E01.mkv']);
+
+        expect(files[0]).toEqual({ path: 'E:/Elsewhere/E01.mkv', size: 40000 });
+    });
+
+    it('keeps the binary v1 piece hashes', () => {
+        const torrent = decodeTorrent(torrentFile(HYBRID_INFO));
+
+        expect(torrent.info.pieces).toHaveLength(20 * 6);
+    });
+});
+
+describe('infohashes', () => {
+    it.each([
+        ['v1', V1_INFO, true, false],
+        ['v2', V2_INFO, false, true],
+        ['hybrid', HYBRID_INFO, true, true],
+    ])('are taken over the raw info of a %s torrent', (_, info, v1, v2) => {
+        expect(getInfoHashes(torrentFile(info))).toEqual({
+            v1: v1 ? sha('sha1', info) : null,
+            v2: v2 ? sha('sha256', info) : null,
+        });
+    });
+
+    it('name a torrent by its truncated v2 hash, or its v1 hash', () => {
+        const hybrid = getInfoHashes(torrentFile(HYBRID_INFO));
+        const v1 = getInfoHashes(torrentFile(V1_INFO));
+
+        expect(getTorrentId(hybrid)).toBe(
+            sha('sha256', HYBRID_INFO).slice(0, 40),
+        );
+        expect(getTorrentId(v1)).toBe(sha('sha1', V1_INFO));
+    });
+
+    it('name nothing without an info dictionary', () => {
+        const hashes = getInfoHashes(
+            dict(['announce', str('https://tracker.example.org/announce')]),
+        );
+
+        expect(hashes).toEqual({ v1: null, v2: null });
+        expect(getTorrentId(hashes)).toBeNull();
+    });
+
+    it('match a hybrid torrent by either hash, ignoring case', () => {
+        const hashes = getInfoHashes(torrentFile(HYBRID_INFO));
+
+        expect(matchesTorrentId(hashes.v1.toUpperCase(), hashes)).toBe(true);
+        expect(matchesTorrentId(hashes.v2.slice(0, 40), hashes)).toBe(true);
+        expect(matchesTorrentId(hashes.v2, hashes)).toBe(false);
+    });
+});
+
+describe('rankTorrentPaths', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qbt-torrent-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const writeFiles = (root: string): void => {
+        for (const file of SEASON_FILES) {
+            const filePath = path.join(root, 'Season 1', file.path);
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+            fs.writeFileSync(filePath, Buffer.alloc(file.size));
+        }
+    };
+
+    it.each([
+        ['v2', V2_INFO],
+        ['hybrid', HYBRID_INFO],
+    ])(
+        'finds the data of a %s torrent without its pad files',
+        async (_, info) => {
+            const found = path.join(dir, 'found');
+            writeFiles(found);
+            fs.mkdirSync(path.join(dir, 'empty'));
+
+            const [best, ...rest] = await rankTorrentPaths(
+                decodeTorrent(torrentFile(info)),
+                [path.join(dir, 'empty'), found],
+                { samplePieces: 0 },
+            );
+
+            expect(best.basePath).toBe(found);
+            expect(best.existingFiles).toBe(3);
+            expect(best.totalFiles).toBe(3);
+            expect(rest).toEqual([]);
+        },
+    );
+});
+
+describe('verifyPieces', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qbt-pieces-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    // A hybrid torrent whose v1 piece hashes cover `contents` and the zeros of its pad files
+    const hashHybrid = (contents: Buffer[]): TorrentData => {
+        const torrent = decodeTorrent(torrentFile(HYBRID_INFO));
+        let next = 0;
+        const data = Buffer.concat(
+            getContentFiles(torrent).map((file) =>
+                file.padding ? Buffer.alloc(file.size) : contents[next++],
+            ),
+        );
+        const hashes: Buffer[] = [];
+        for (let start = 0; start < data.length; start += PIECE_LENGTH) {
+            const piece = data.subarray(start, start + PIECE_LENGTH);
+            hashes.push(crypto.createHash('sha1').update(piece).digest());
+        }
+        torrent.info.pieces = Buffer.concat(hashes);
+        return torrent;
+    };
+
+    const pieceFiles = (torrent: TorrentData): PieceFile[] =>
+        getContentFiles(torrent).map((file) => ({
+            actualPath: file.padding ? null : path.join(dir, file.path),
+            size: file.size,
+            padding: file.padding,
+        }));
+
+    it('hashes the pad files of a hybrid torrent as zeros', async () => {
+        const contents = SEASON_FILES.map((file, i) => binary(file.size, i));
+        const torrent = hashHybrid(contents);
+        SEASON_FILES.forEach((file, i) => {
+            fs.mkdirSync(path.dirname(path.join(dir, file.path)), {
+                recursive: true,
+            });
+            fs.writeFileSync(path.join(dir, file.path), contents[i]);
+        });
+
+        const result = await verifyPieces(torrent, pieceFiles(torrent), 8);
+
+        expect(result).toEqual({
+            checkedPieces: 6,
+            verifiedPieces: 6,
+            ratio: 1,
+        });
+    });
+
+    it('tells apart a file with the same size but other content', async () => {
+        const contents = SEASON_FILES.map((file, i) => binary(file.size, i));
+        const torrent = hashHybrid(contents);
+        SEASON_FILES.forEach((file, i) => {
+            fs.mkdirSync(path.dirname(path.join(dir, file.path)), {
+                recursive: true,
+            });
+            fs.writeFileSync(
+                path.join(dir, file.path),
+                i === 1 ? Buffer.alloc(file.size) : contents[i],
+            );
+        });
+
+        const result = await verifyPieces(torrent, pieceFiles(torrent), 8);
+
+        // E02 and the pad file after it make up pieces 3 and 4
+        expect(result.verifiedPieces).toBe(4);
+    });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { decodeFastResume } from '../src/fastresume.js';
+import { getRawValue, getText } from '../src/rawBencode.js';
+import {
+    createTrackerRewriter,
+    rewriteResumeTrackers,
+    rewriteTorrentTrackers,
+} from '../src/trackers.js';
+import {
+    V1_INFO,
+    binary,
+    dict,
+    int,
+    list,
+    str,
+    windowsFastResume,
+} from './fixtures.js';
+
+describe('createTrackerRewriter', () => {
+    it('replaces text, then applies the next rule to the result', () => {
+        const rewrite = createTrackerRewriter([
+            { from: 'tracker.example.org', to: 'tracker.example.net' },
+            { from: 'http://', to: 'https://' },
+        ]);
+
+        expect(rewrite('http://tracker.example.org/announce')).toBe(
+            'https://tracker.example.net/announce',
+        );
+    });
+
+    it('supports regular expressions with groups', () => {
+        const rewrite = createTrackerRewriter([
+            { from: 'passkey=(\\w+)', to: 'key=$1', regex: true },
+        ]);
+
+        expect(rewrite('https://t.example.org/a?passkey=abc')).toBe(
+            'https://t.example.org/a?key=abc',
+        );
+    });
+});
+
+describe('rewriteResumeTrackers', () => {
+    it('rewrites the tracker tiers and keeps the other fields', () => {
+        const original = windowsFastResume();
+
+        const { content, changed } = rewriteResumeTrackers(
+            original,
+            createTrackerRewriter([{ from: 'example.org', to: 'example.net' }]),
+        );
+
+        expect(changed).toBe(2);
+        expect(decodeFastResume(content).get('trackers')).toEqual([
+            [Buffer.from('https://tracker.example.net/announce?passkey=abc')],
+            [Buffer.from('udp://backup.example.net:1337')],
+        ]);
+        expect(getRawValue(content, 'peers')).toEqual(
+            getRawValue(original, 'peers'),
+        );
+    });
+
+    it('rewrites the trackers of the magnet link a torrent was added with', () => {
+        const { content, changed } = rewriteResumeTrackers(
+            dict(
+                [
+                    'magnet-uri',
+                    str(
+                        'magnet:?xt=urn:btih:ab&tr=udp%3A%2F%2Ftracker.example.org%3A80&dn=Album',
+                    ),
+                ],
+                ['save_path', str('/mnt/data')],
+            ),
+            createTrackerRewriter([{ from: 'example.org', to: 'example.net' }]),
+        );
+
+        expect(changed).toBe(1);
+        expect(getText(decodeFastResume(content), 'magnet-uri')).toBe(
+            'magnet:?xt=urn:btih:ab&tr=udp%3A%2F%2Ftracker.example.net%3A80&dn=Album',
+        );
+    });
+
+    it('returns the same bytes when no URL changes', () => {
+        const original = windowsFastResume();
+
+        const result = rewriteResumeTrackers(
+            original,
+            createTrackerRewriter([{ from: 'nowhere', to: 'somewhere' }]),
+        );
+
+        expect(result).toEqual({ content: original, changed: 0 });
+    });
+});
+
+describe('rewriteTorrentTrackers', () => {
+    // Keys out of order, which re-encoding the info dictionary would sort
+    const UNSORTED_INFO = dict(
+        ['name', str('movie.mkv')],
+        ['length', int(5000)],
+        ['piece length', int(16384)],
+        ['pieces', str(binary(20, 5))],
+    );
+
+    const torrent = (info: Buffer): Buffer =>
+        dict(
+            ['announce', str('https://tracker.example.org/announce')],
+            [
+                'announce-list',
+                list(
+                    list(str('https://tracker.example.org/announce')),
+                    list(str('udp://backup.example.org:1337')),
+                ),
+            ],
+            ['info', info],
+        );
+
+    it.each([
+        ['sorted', V1_INFO],
+        ['unsorted', UNSORTED_INFO],
+    ])('rewrites announce URLs and keeps a %s info dictionary', (_, info) => {
+        const { content, changed } = rewriteTorrentTrackers(
+            torrent(info),
+            createTrackerRewriter([{ from: 'example.org', to: 'example.net' }]),
+        );
+
+        expect(changed).toBe(3);
+        expect(getRawValue(content, 'info')).toEqual(info);
+        expect(getRawValue(content, 'announce')).toEqual(
+            str('https://tracker.example.net/announce'),
+        );
+    });
+});
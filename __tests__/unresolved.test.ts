@@ -0,0 +1,96 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { promptUserInput } from '../src/prompt.js';
+import { decodeTorrent } from '../src/torrent.js';
+import {
+    UnresolvedTorrent,
+    promptResolution,
+    validateManualPath,
+} from '../src/unresolved.js';
+import { V1_INFO, torrentFile } from './fixtures.js';
+
+vi.mock('../src/prompt.js', () => ({
+    isInteractive: (): boolean => true,
+    promptUserInput: vi.fn(),
+}));
+
+describe('unresolved torrents', () => {
+    let dir: string;
+    let unresolved: UnresolvedTorrent;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qbt-unresolved-'));
+        fs.mkdirSync(path.join(dir, 'found'));
+        fs.mkdirSync(path.join(dir, 'empty'));
+        fs.writeFileSync(
+            path.join(dir, 'found', 'movie.mkv'),
+            Buffer.alloc(5000),
+        );
+        unresolved = {
+            name: 'movie.mkv',
+            windowsPath: 'D:\\Movies',
+            torrent: decodeTorrent(torrentFile(V1_INFO)),
+        };
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const answer = (...answers: string[]): void => {
+        for (const input of answers) {
+            vi.mocked(promptUserInput).mockResolvedValueOnce(input);
+        }
+    };
+
+    it('validates a location entered by hand', async () => {
+        expect(
+            await validateManualPath(unresolved, path.join(dir, 'found')),
+        ).toMatchObject({ existingFiles: 1, totalFiles: 1 });
+        expect(
+            await validateManualPath(unresolved, path.join(dir, 'empty')),
+        ).toBeNull();
+    });
+
+    it.each([
+        ['s', 'skip'],
+        ['paused', 'paused'],
+    ])('takes %j as %s', async (input, action) => {
+        answer(input);
+
+        expect(await promptResolution(unresolved)).toEqual({ action });
+    });
+
+    it('uses a location holding the data', async () => {
+        answer('m', path.join(dir, 'found'));
+
+        expect(await promptResolution(unresolved)).toMatchObject({
+            action: 'manual',
+            linuxPath: path.join(dir, 'found'),
+            match: { existingFiles: 1 },
+        });
+    });
+
+    it('asks before using a location without the data', async () => {
+        answer('m', path.join(dir, 'empty'), 'n', 'm', path.join(dir, 'empty'));
+        answer('y');
+
+        expect(await promptResolution(unresolved)).toEqual({
+            action: 'manual',
+            linuxPath: path.join(dir, 'empty'),
+            match: null,
+        });
+    });
+
+    it('asks again after an unknown answer or a missing directory', async () => {
+        answer('later', 'm', path.join(dir, 'missing'), 's');
+
+        expect(await promptResolution(unresolved)).toEqual({ action: 'skip' });
+        expect(promptUserInput).toHaveBeenCalledTimes(4);
+    });
+});
@@ -0,0 +1,201 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CommandOptions, ExitCode } from '../src/cli.js';
+import { openResumeStore } from '../src/resumeStore.js';
+import { createPathTranslator } from '../src/paths.js';
+import {
+    createWindowsTarget,
+    runVerify,
+    verifyResumeData,
+} from '../src/verify.js';
+import { V1_INFO, dict, int, list, str, torrentFile } from './fixtures.js';
+
+const HASH = crypto.createHash('sha1').update(V1_INFO).digest('hex');
+
+describe('verifyResumeData', () => {
+    let dir: string;
+    let target: string;
+    let data: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qbt-verify-'));
+        target = path.join(dir, 'BT_backup');
+        data = path.join(dir, 'data');
+        fs.mkdirSync(target);
+        fs.mkdirSync(data);
+        fs.writeFileSync(path.join(data, 'movie.mkv'), Buffer.alloc(5000));
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const write = (
+        fields: {
+            savePath?: string;
+            paused?: number;
+            pieces?: Buffer;
+            peers?: Buffer;
+            mappedFiles?: string[];
+        } = {},
+        infohash = HASH,
+    ): void => {
+        fs.writeFileSync(
+            path.join(target, `${infohash}.fastresume`),
+            dict(
+                ...((fields.mappedFiles
+                    ? [
+                          [
+                              'mapped_files',
+                              list(...fields.mappedFiles.map((f) => str(f))),
+                          ],
+                      ]
+                    : []) as [string, Buffer][]),
+                ['paused', int(fields.paused ?? 0)],
+                ['peers', str(fields.peers ?? Buffer.alloc(6))],
+                ['pieces', str(fields.pieces ?? Buffer.from([1]))],
+                ['save_path', str(fields.savePath ?? data)],
+            ),
+        );
+        fs.writeFileSync(
+            path.join(target, `${infohash}.torrent`),
+            torrentFile(V1_INFO),
+        );
+    };
+
+    const verify = async (): ReturnType<typeof verifyResumeData> =>
+        verifyResumeData(await openResumeStore(target));
+
+    it('passes a torrent whose data is in place', async () => {
+        write();
+
+        const result = await verify();
+
+        expect(result.failed).toBe(0);
+        expect(result.checks).toEqual([
+            {
+                infohash: HASH,
+                name: 'movie.mkv',
+                errors: [],
+                warnings: [],
+            },
+        ]);
+    });
+
+    it('fails a .torrent named after another infohash', async () => {
+        write({}, 'cd'.repeat(20));
+
+        const [check] = (await verify()).checks;
+
+        expect(check.errors).toEqual([`infohash of the .torrent is ${HASH}`]);
+    });
+
+    it('fails Windows paths left in path fields, unless the torrent is stopped', async () => {
+        write({ savePath: 'D:\\Movies', mappedFiles: ['', 'E:\\x.mkv'] });
+        expect((await verify()).checks[0].errors).toEqual([
+            'Windows path left in save_path, mapped_files[1]',
+        ]);
+
+        write({ savePath: 'D:\\Movies', paused: 1 });
+        const [check] = (await verify()).checks;
+        expect(check.errors).toEqual([]);
+        expect(check.warnings).toEqual(['Windows path left in save_path']);
+    });
+
+    it('does not read binary fields as paths', async () => {
+        write({ peers: Buffer.from('C:\\\x01\x02\x03') });
+
+        expect((await verify()).failed).toBe(0);
+    });
+
+    it('only warns about missing data of an unfinished download', async () => {
+        fs.rmSync(path.join(data, 'movie.mkv'));
+
+        write();
+        expect((await verify()).checks[0].errors).toEqual([
+            `missing: ${path.join(data, 'movie.mkv')}`,
+        ]);
+
+        write({ pieces: Buffer.from([0]) });
+        const [check] = (await verify()).checks;
+        expect(check.errors).toEqual([]);
+        expect(check.warnings).toEqual([
+            `missing: ${path.join(data, 'movie.mkv')}`,
+        ]);
+    });
+
+    it('only warns about a torrent still without metadata', async () => {
+        write();
+        fs.rmSync(path.join(target, `${HASH}.torrent`));
+
+        expect((await verify()).checks).toEqual([
+            {
+                infohash: HASH,
+                name: HASH,
+                errors: [],
+                warnings: ['no metadata, it is fetched from peers'],
+            },
+        ]);
+    });
+
+    it('fails a .torrent without resume data', async () => {
+        fs.writeFileSync(
+            path.join(target, `${HASH}.torrent`),
+            torrentFile(V1_INFO),
+        );
+
+        expect((await verify()).checks).toEqual([
+            {
+                infohash: HASH,
+                name: HASH,
+                errors: ['no .fastresume file'],
+                warnings: [],
+            },
+        ]);
+    });
+
+    it('checks resume data written for Windows through the drive mount points', async () => {
+        write({ savePath: 'D:\\' });
+        const windowsTarget = createWindowsTarget(
+            createPathTranslator([{ windowsPath: 'D:\\', linuxPath: data }]),
+        );
+
+        let result = await verifyResumeData(
+            await openResumeStore(target),
+            undefined,
+            windowsTarget,
+        );
+        expect(result.failed).toBe(0);
+
+        write({ savePath: data });
+        result = await verifyResumeData(
+            await openResumeStore(target),
+            undefined,
+            windowsTarget,
+        );
+        expect(result.checks[0].errors).toEqual([
+            'Linux path left in save_path',
+        ]);
+    });
+
+    describe('verify command', () => {
+        it('exits with its own code when a torrent fails', async () => {
+            write({ savePath: 'D:\\Movies' });
+
+            expect(await runVerify({ target } as CommandOptions)).toBe(
+                ExitCode.VerifyFailed,
+            );
+        });
+
+        it('has nothing to do without torrents', async () => {
+            expect(await runVerify({ target } as CommandOptions)).toBe(
+                ExitCode.NothingToDo,
+            );
+        });
+    });
+});
@@ -0,0 +1,307 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { rewriteFastResume } from '../src/fastresume.js';
+import { createPathTranslator } from '../src/paths.js';
+import { ResumeEntry } from '../src/resumeStore.js';
+import {
+    WebApiClient,
+    WebApiError,
+    createWebApiClient,
+    createWebApiStore,
+} from '../src/webApi.js';
+import { V1_INFO, binary, torrentFile, windowsFastResume } from './fixtures.js';
+
+const SID = 'SID=mock-session';
+// The v1 infohash of windowsFastResume
+const INFOHASH = binary(20, 1).toString('hex');
+
+interface ApiRequest {
+    path: string;
+    fields: Record<string, string>;
+}
+
+/**
+ * A qBittorrent Web API that accepts admin/secret, records every request and
+ * lists the torrents added through it.
+ */
+const createMockServer = (
+    options: { version5?: boolean } = {},
+): {
+    requests: ApiRequest[];
+    url: () => string;
+    start: () => Promise<void>;
+    stop: () => Promise<void>;
+} => {
+    const requests: ApiRequest[] = [];
+    const torrents: { hash: string }[] = [];
+
+    const readFields = async (
+        req: http.IncomingMessage,
+    ): Promise<Record<string, string>> => {
+        const chunks: Buffer[] = [];
+        for await (const chunk of req) chunks.push(chunk);
+        if (req.method !== 'POST') return {};
+        const form = await new Response(Buffer.concat(chunks), {
+            headers: { 'content-type': req.headers['content-type'] },
+        }).formData();
+        const fields: Record<string, string> = {};
+        // Files are recorded by name
+        form.forEach(
+            (value, key) =>
+                (fields[key] = typeof value === 'string' ? value : value.name),
+        );
+        return fields;
+    };
+
+    const server = http.createServer(async (req, res) => {
+        const url = new URL(req.url, 'http://localhost');
+        const apiPath = url.pathname.replace('/api/v2/', '');
+        const fields = await readFields(req);
+        requests.push({ path: apiPath, fields });
+
+        if (apiPath === 'auth/login') {
+            if (fields.username === 'admin' && fields.password === 'secret') {
+                res.setHeader('Set-Cookie', `${SID}; HttpOnly; path=/`);
+                res.end('Ok.');
+            } else {
+                res.end('Fails.');
+            }
+            return;
+        }
+        if (req.headers.cookie !== SID) {
+            res.statusCode = 403;
+            res.end('Forbidden');
+            return;
+        }
+        if (apiPath === 'torrents/info') {
+            const hashes = url.searchParams.get('hashes');
+            res.setHeader('Content-Type', 'application/json');
+            res.end(
+                JSON.stringify(
+                    torrents.filter((t) => !hashes || t.hash === hashes),
+                ),
+            );
+            return;
+        }
+        if (apiPath === 'torrents/add') {
+            // A magnet link carries the infohash in its xt parameter
+            const hash = fields.torrents
+                ? fields.torrents.replace(/\.torrent$/, '')
+                : fields.urls.match(/urn:btih:(\w+)/)[1];
+            torrents.push({ hash: hash.toLowerCase() });
+            res.end('Ok.');
+            return;
+        }
+        if (apiPath === 'torrents/start' && !options.version5) {
+            res.statusCode = 404;
+            res.end();
+            return;
+        }
+        res.end();
+    });
+
+    return {
+        requests,
+        url: () =>
+            `http://127.0.0.1:${(server.address() as AddressInfo).port}/`,
+        start: () =>
+            new Promise((resolve) => server.listen(0, '127.0.0.1', resolve)),
+        stop: () =>
+            new Promise((resolve, reject) =>
+                server.close((error) => (error ? reject(error) : resolve())),
+            ),
+    };
+};
+
+const translatePath = createPathTranslator([
+    { windowsPath: 'D:\\', linuxPath: '/mnt/data' },
+    { windowsPath: 'E:\\', linuxPath: '/mnt/scratch' },
+]);
+
+const resumeEntry = (
+    overrides: Parameters<typeof windowsFastResume>[0] = {},
+): ResumeEntry => ({
+    infohash: INFOHASH,
+    fastResume: rewriteFastResume(windowsFastResume(overrides), translatePath)
+        .content,
+    torrent: torrentFile(V1_INFO),
+});
+
+describe('Web API store', () => {
+    let server: ReturnType<typeof createMockServer>;
+    let client: WebApiClient;
+
+    const connect = async (
+        options: { version5?: boolean } = {},
+    ): Promise<void> => {
+        server = createMockServer(options);
+        await server.start();
+        client = createWebApiClient({
+            url: server.url(),
+            username: 'admin',
+            password: 'secret',
+        });
+        await client.login();
+    };
+
+    const sent = (apiPath: string): ApiRequest[] =>
+        server.requests.filter((request) => request.path === apiPath);
+
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(async () => {
+        await server.stop();
+    });
+
+    it('logs in and sends the session cookie afterwards', async () => {
+        await connect();
+
+        expect(sent('auth/login')[0].fields).toEqual({
+            username: 'admin',
+            password: 'secret',
+        });
+        expect(client.url).toBe(server.url().replace(/\/$/, ''));
+        await expect(client.get('torrents/info')).resolves.toEqual([]);
+    });
+
+    it('rejects a wrong password', async () => {
+        server = createMockServer();
+        await server.start();
+        const wrong = createWebApiClient({
+            url: server.url(),
+            username: 'admin',
+            password: 'guess',
+        });
+
+        await expect(wrong.login()).rejects.toThrow(
+            'Login failed, check the username and password',
+        );
+        await expect(wrong.get('torrents/info')).rejects.toMatchObject({
+            status: 403,
+        });
+    });
+
+    it('adds a torrent stopped with the settings of its fastresume', async () => {
+        await connect();
+
+        const result = await createWebApiStore(client).write([resumeEntry()]);
+
+        expect(result).toEqual({ written: 1, errors: 0 });
+        const [add] = sent('torrents/add');
+        expect(add.fields).toMatchObject({
+            savepath: '/mnt/data/Torrents/Séries',
+            downloadPath: '/mnt/scratch/Incomplete',
+            useDownloadPath: 'true',
+            autoTMM: 'false',
+            category: 'Séries',
+            tags: 'hd,private',
+            skip_checking: 'false',
+            paused: 'true',
+            stopped: 'true',
+        });
+        expect(add.fields.torrents).toBe(`${INFOHASH}.torrent`);
+    });
+
+    it('adds a torrent without metadata by magnet link', async () => {
+        await connect();
+
+        const result = await createWebApiStore(client).write([
+            { ...resumeEntry(), torrent: null },
+        ]);
+
+        expect(result).toEqual({ written: 1, errors: 0 });
+        const [add] = sent('torrents/add');
+        expect(add.fields.torrents).toBeUndefined();
+        expect(add.fields.urls).toMatch(
+            new RegExp(`^magnet:\\?xt=urn:btih:${INFOHASH}&`),
+        );
+        expect(add.fields.savepath).toBe('/mnt/data/Torrents/Séries');
+    });
+
+    it('skips the hash check of a complete torrent', async () => {
+        await connect();
+
+        await createWebApiStore(client).write([
+            resumeEntry({ pieces: Buffer.from([1, 1, 1, 1, 1]) }),
+        ]);
+
+        expect(sent('torrents/add')[0].fields.skip_checking).toBe('true');
+    });
+
+    it('sets the share limits again after adding', async () => {
+        await connect();
+
+        await createWebApiStore(client).write([
+            resumeEntry({ ratioLimit: 2500 }),
+        ]);
+
+        expect(sent('torrents/setShareLimits')[0].fields).toEqual({
+            hashes: INFOHASH,
+            ratioLimit: '2.5',
+            seedingTimeLimit: '-2',
+            inactiveSeedingTimeLimit: '-2',
+        });
+    });
+
+    it('falls back to resume before qBittorrent 5.0', async () => {
+        await connect();
+
+        await createWebApiStore(client).write([resumeEntry()]);
+
+        expect(sent('torrents/start')).toHaveLength(1);
+        expect(sent('torrents/resume')[0].fields).toEqual({
+            hashes: INFOHASH,
+        });
+    });
+
+    it('starts a running torrent with start from qBittorrent 5.0', async () => {
+        await connect({ version5: true });
+
+        await createWebApiStore(client).write([resumeEntry()]);
+
+        expect(sent('torrents/start')[0].fields).toEqual({
+            hashes: INFOHASH,
+        });
+        expect(sent('torrents/resume')).toEqual([]);
+    });
+
+    it('leaves a stopped torrent stopped', async () => {
+        await connect();
+
+        await createWebApiStore(client).write([resumeEntry({ paused: 1 })]);
+
+        expect(sent('torrents/start')).toEqual([]);
+        expect(sent('torrents/resume')).toEqual([]);
+    });
+
+    it('leaves torrents qBittorrent already has alone', async () => {
+        await connect();
+        const store = createWebApiStore(client);
+        await store.write([resumeEntry()]);
+
+        const result = await store.write([
+            { ...resumeEntry(), infohash: INFOHASH.toUpperCase() },
+        ]);
+
+        expect(result).toEqual({ written: 0, errors: 0 });
+        expect(sent('torrents/add')).toHaveLength(1);
+    });
+
+    it('counts a torrent qBittorrent refuses as an error', async () => {
+        await connect();
+        client.post = vi.fn(async () => 'Fails.');
+
+        const result = await createWebApiStore(client).write([resumeEntry()]);
+
+        expect(result).toEqual({ written: 0, errors: 1 });
+        expect(console.error).toHaveBeenCalledWith(
+            `❌ Error adding ${INFOHASH}:`,
+            expect.any(WebApiError),
+        );
+    });
+});
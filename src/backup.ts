@@ -0,0 +1,215 @@
+import fs from 'fs';
+import path from 'path';
+import { findConfigFile } from './qbittorrent.js';
+import { FileTransfer, RelocateMode, undoTransfer } from './relocate.js';
+
+const BACKUPS_DIR_NAME = 'migrator-backups';
+const MANIFEST_FILE = 'manifest.json';
+const SNAPSHOT_BT_BACKUP = 'BT_backup';
+const SNAPSHOT_CONFIG = 'qBittorrent.conf';
+const SNAPSHOT_FILES = 'files';
+
+export interface ManifestEntry {
+    path: string;
+    action: 'created' | 'overwritten';
+    // Copy of an overwritten file outside BT_backup, relative to the backup directory
+    snapshot?: string;
+}
+
+export interface RelocationEntry extends FileTransfer {
+    mode: RelocateMode;
+}
+
+export interface BackupManifest {
+    createdAt: string;
+    targetDir: string;
+    // qBittorrent.conf that was snapshotted along with BT_backup, if one exists
+    configFile: string | null;
+    files: ManifestEntry[];
+    // Data files copied, moved or linked by --relocate, missing in older manifests
+    relocations?: RelocationEntry[];
+}
+
+export interface Backup {
+    dir: string;
+    manifest: BackupManifest;
+    // Must be called before `filePath` is written, the manifest is saved right away
+    recordWrite: (filePath: string) => void;
+    // Must be called before a file is relocated, so rollback can put it back
+    recordRelocation: (file: FileTransfer, mode: RelocateMode) => void;
+}
+
+export const getBackupsDir = (targetDir: string): string =>
+    path.join(path.dirname(path.resolve(targetDir)), BACKUPS_DIR_NAME);
+
+const copyDir = async (source: string, destination: string): Promise<void> => {
+    await fs.promises.cp(source, destination, {
+        recursive: true,
+        preserveTimestamps: true,
+    });
+};
+
+/**
+ * Snapshots the target BT_backup and qBittorrent.conf into a timestamped backup directory.
+ * Every file written afterwards is recorded in the manifest before it is written, so an
+ * interrupted run can still be rolled back.
+ * A torrents.db target is not copied up front, it is snapshotted when recorded.
+ */
+export const createBackup = async (targetDir: string): Promise<Backup> => {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const dir = path.join(getBackupsDir(targetDir), timestamp);
+    const configFile = findConfigFile(targetDir);
+
+    const isFolder = (await fs.promises.stat(targetDir)).isDirectory();
+
+    await fs.promises.mkdir(dir, { recursive: true });
+    if (isFolder) {
+        await copyDir(targetDir, path.join(dir, SNAPSHOT_BT_BACKUP));
+    }
+    if (configFile) {
+        await fs.promises.copyFile(configFile, path.join(dir, SNAPSHOT_CONFIG));
+    }
+
+    const existingFiles = new Set(
+        isFolder ? await fs.promises.readdir(targetDir) : [],
+    );
+    const manifest: BackupManifest = {
+        createdAt: new Date().toISOString(),
+        targetDir: path.resolve(targetDir),
+        configFile,
+        files: [],
+        relocations: [],
+    };
+    const recorded = new Set<string>();
+    const saveManifest = (): void =>
+        fs.writeFileSync(
+            path.join(dir, MANIFEST_FILE),
+            JSON.stringify(manifest, null, 2),
+        );
+
+    const backup: Backup = {
+        dir,
+        manifest,
+        recordWrite: (filePath: string) => {
+            const resolved = path.resolve(filePath);
+            if (recorded.has(resolved)) return;
+            recorded.add(resolved);
+
+            const isTargetFile = path.dirname(resolved) === manifest.targetDir;
+            const existed = isTargetFile
+                ? existingFiles.has(path.basename(resolved))
+                : fs.existsSync(resolved);
+            if (!existed) {
+                manifest.files.push({ path: resolved, action: 'created' });
+                saveManifest();
+                return;
+            }
+
+            // Files outside BT_backup are not part of the snapshot, copy them now
+            let snapshot: string;
+            if (!isTargetFile) {
+                snapshot = path.join(
+                    SNAPSHOT_FILES,
+                    `${manifest.files.length}-${path.basename(resolved)}`,
+                );
+                fs.mkdirSync(path.join(dir, SNAPSHOT_FILES), {
+                    recursive: true,
+                });
+                fs.copyFileSync(resolved, path.join(dir, snapshot));
+            }
+            manifest.files.push({
+                path: resolved,
+                action: 'overwritten',
+                ...(snapshot && { snapshot }),
+            });
+            saveManifest();
+        },
+        recordRelocation: (file: FileTransfer, mode: RelocateMode) => {
+            manifest.relocations.push({ ...file, mode });
+            saveManifest();
+        },
+    };
+
+    saveManifest();
+    return backup;
+};
+
+// Backups of a target directory, newest first
+export const listBackups = async (targetDir: string): Promise<string[]> => {
+    const backupsDir = getBackupsDir(targetDir);
+    if (!fs.existsSync(backupsDir)) return [];
+
+    const entries = await fs.promises.readdir(backupsDir);
+    return entries
+        .filter((entry) =>
+            fs.existsSync(path.join(backupsDir, entry, MANIFEST_FILE)),
+        )
+        .sort()
+        .reverse()
+        .map((entry) => path.join(backupsDir, entry));
+};
+
+export const readManifest = async (
+    backupDir: string,
+): Promise<BackupManifest> => {
+    const content = await fs.promises.readFile(
+        path.join(backupDir, MANIFEST_FILE),
+        'utf-8',
+    );
+    return JSON.parse(content);
+};
+
+/**
+ * Restores a backup: files the migration created are deleted, overwritten ones
+ * are copied back from the snapshot, qBittorrent.conf is restored, and relocated
+ * data is moved back or its copies and links removed.
+ */
+export const restoreBackup = async (
+    backupDir: string,
+): Promise<{ restored: number; deleted: number; relocated: number }> => {
+    const manifest = await readManifest(backupDir);
+    const snapshotDir = path.join(backupDir, SNAPSHOT_BT_BACKUP);
+    let restored = 0;
+    let deleted = 0;
+    let relocated = 0;
+
+    for (const entry of manifest.files) {
+        const isTargetFile = path.dirname(entry.path) === manifest.targetDir;
+        if (entry.action === 'created') {
+            await fs.promises.rm(entry.path, { force: true });
+            deleted++;
+        } else if (isTargetFile) {
+            await fs.promises.copyFile(
+                path.join(snapshotDir, path.basename(entry.path)),
+                entry.path,
+            );
+            restored++;
+        } else if (entry.snapshot) {
+            await fs.promises.copyFile(
+                path.join(backupDir, entry.snapshot),
+                entry.path,
+            );
+            restored++;
+        }
+    }
+
+    const snapshotConfig = path.join(backupDir, SNAPSHOT_CONFIG);
+    if (manifest.configFile && fs.existsSync(snapshotConfig)) {
+        await fs.promises.copyFile(snapshotConfig, manifest.configFile);
+        restored++;
+    }
+
+    // Newest first, files a failed relocation already put back are left alone
+    for (const entry of [...(manifest.relocations ?? [])].reverse()) {
+        const { mode, ...file } = entry;
+        const transferred = await fs.promises
+            .lstat(file.destination)
+            .then(() => true)
+            .catch(() => false);
+        if (!transferred) continue;
+        await undoTransfer(file, mode);
+        relocated++;
+    }
+
+    return { restored, deleted, relocated };
+};
@@ -0,0 +1,320 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { findConfigFile } from './qbittorrent.js';
+import { isInteractive, promptUserInput } from './prompt.js';
+import { openResumeStore } from './resumeStore.js';
+import { findWindowsConfigDir } from './settings.js';
+
+// Where Windows qBittorrent keeps BT_backup below a partition root, `*` matching any directory
+const WINDOWS_LAYOUTS = [
+    ['Users', '*', 'AppData', 'Local', 'qBittorrent', 'BT_backup'],
+    // Portable installs, at the root or up to two directories deep
+    ['profile', 'qBittorrent', 'data', 'BT_backup'],
+    ['*', 'profile', 'qBittorrent', 'data', 'BT_backup'],
+    ['*', '*', 'profile', 'qBittorrent', 'data', 'BT_backup'],
+];
+
+// Where Linux qBittorrent keeps BT_backup below the home directory, `qBittorrent*` also matching
+// the qBittorrent_<name> directories of --configuration instances
+const LINUX_LAYOUTS = [
+    ['.local', 'share', 'qBittorrent*', 'BT_backup'],
+    // Before qBittorrent 4.2
+    ['.local', 'share', 'data', 'qBittorrent*', 'BT_backup'],
+    [
+        '.var',
+        'app',
+        'org.qbittorrent.qBittorrent',
+        'data',
+        'qBittorrent*',
+        'BT_backup',
+    ],
+    ['snap', '*', 'current', '.local', 'share', 'qBittorrent*', 'BT_backup'],
+    // --profile directories, up to two directories deep
+    ['*', 'qBittorrent*', 'data', 'BT_backup'],
+    ['*', '*', 'qBittorrent*', 'data', 'BT_backup'],
+];
+
+// Where qbittorrent-nox containers usually get their config volume, `~` being the home directory
+const CONTAINER_ROOTS = ['/', '/opt/*', '/srv/*', '~/docker/*'];
+
+// BT_backup in a config volume mounted as /config, for the linuxserver and hotio images
+const CONTAINER_LAYOUTS = [
+    ['config', 'qBittorrent', 'BT_backup'],
+    ['config', 'data', 'BT_backup'],
+];
+
+export interface BTBackupCandidate {
+    path: string;
+    torrents: number;
+    // When qBittorrent last added or rewrote resume data there
+    modified: Date;
+}
+
+const matchSegment = (segment: string, name: string): boolean =>
+    new RegExp(
+        `^${segment
+            .split('*')
+            .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+            .join('.*')}$`,
+        'i',
+    ).test(name);
+
+// Directories below `dir` matching `segments`, ignoring case as Windows does
+const expandLayout = async (
+    dir: string,
+    segments: string[],
+): Promise<string[]> => {
+    if (!segments.length) return [dir];
+    const [segment, ...rest] = segments;
+    let names: string[];
+    try {
+        names = (await fs.promises.readdir(dir, { withFileTypes: true }))
+            // Snap's current revision is a symlink
+            .filter(
+                (entry) =>
+                    entry.isDirectory() ||
+                    (entry.isSymbolicLink() &&
+                        fs
+                            .statSync(path.join(dir, entry.name), {
+                                throwIfNoEntry: false,
+                            })
+                            ?.isDirectory()),
+            )
+            .map((entry) => entry.name);
+    } catch {
+        return [];
+    }
+    const found = await Promise.all(
+        names
+            .filter((name) => matchSegment(segment, name))
+            .map((name) => expandLayout(path.join(dir, name), rest)),
+    );
+    return found.flat();
+};
+
+// The layouts below `dir`. With `partial`, for a folder the user gave, any tail of a layout
+// matches too, so a folder partway down resolves. Searched roots only take whole layouts
+const searchLayouts = async (
+    dir: string,
+    layouts: string[][],
+    partial = false,
+): Promise<string[]> => {
+    const found: string[] = [];
+    for (const layout of layouts) {
+        for (let i = 0; i < (partial ? layout.length : 1); i++) {
+            found.push(...(await expandLayout(dir, layout.slice(i))));
+        }
+    }
+    return found;
+};
+
+// A BT_backup directory or torrents.db itself, rather than a folder above it
+const isResumeLocation = (location: string): boolean => {
+    try {
+        return (
+            fs.statSync(location).isFile() ||
+            path.basename(location).toLowerCase() === 'bt_backup'
+        );
+    } catch {
+        return false;
+    }
+};
+
+const describeCandidates = async (
+    locations: Iterable<string>,
+    windows: boolean,
+): Promise<BTBackupCandidate[]> => {
+    const candidates: BTBackupCandidate[] = [];
+    for (const location of new Set(locations)) {
+        try {
+            const configDir = windows ? findWindowsConfigDir(location) : null;
+            const store = await openResumeStore(
+                location,
+                windows
+                    ? configDir && path.join(configDir, 'qBittorrent.ini')
+                    : findConfigFile(location),
+            );
+            // Counting files is enough for a folder, reading every .torrent is slow on NTFS mounts
+            const torrents =
+                store.kind === 'folder'
+                    ? (await fs.promises.readdir(location)).filter((file) =>
+                          file.endsWith('.fastresume'),
+                      ).length
+                    : (await store.read()).length;
+            candidates.push({
+                path: location,
+                torrents,
+                modified: (await fs.promises.stat(store.location)).mtime,
+            });
+        } catch {
+            continue;
+        }
+    }
+    return candidates.sort(
+        (a, b) => b.modified.getTime() - a.modified.getTime(),
+    );
+};
+
+/**
+ * Finds Windows BT_backup directories in or below each of `dirs`: partition roots, or with
+ * `partial` a folder the user gave, like the user directory or AppData\Local\qBittorrent.
+ * The most recently used comes first.
+ */
+export const findWindowsBTBackups = async (
+    dirs: string[],
+    partial = false,
+): Promise<BTBackupCandidate[]> => {
+    const locations: string[] = [];
+    for (const dir of dirs.map((d) => path.resolve(d))) {
+        locations.push(
+            ...(isResumeLocation(dir)
+                ? [dir]
+                : await searchLayouts(dir, WINDOWS_LAYOUTS, partial)),
+        );
+    }
+    return describeCandidates(locations, true);
+};
+
+/**
+ * Finds the BT_backup directories of the Linux qBittorrent profiles: the default one and
+ * --configuration instances, Flatpak, Snap, --profile directories in the home directory and
+ * container config volumes. Only searches in and below `dir` when one is given.
+ */
+export const findLinuxBTBackups = async (
+    dir?: string,
+): Promise<BTBackupCandidate[]> => {
+    if (dir && isResumeLocation(path.resolve(dir))) {
+        return describeCandidates([path.resolve(dir)], false);
+    }
+
+    const home = os.homedir();
+    const locations: string[] = [];
+    if (dir) {
+        locations.push(
+            ...(await searchLayouts(
+                path.resolve(dir),
+                [...LINUX_LAYOUTS, ...CONTAINER_LAYOUTS],
+                true,
+            )),
+        );
+    } else {
+        locations.push(...(await searchLayouts(home, LINUX_LAYOUTS)));
+        if (process.env.XDG_DATA_HOME) {
+            locations.push(
+                ...(await expandLayout(process.env.XDG_DATA_HOME, [
+                    'qBittorrent*',
+                    'BT_backup',
+                ])),
+            );
+        }
+        for (const root of CONTAINER_ROOTS) {
+            const [base, ...segments] = root.split('/');
+            for (const volumeRoot of await expandLayout(
+                base === '~' ? home : '/',
+                segments.filter(Boolean),
+            )) {
+                locations.push(
+                    ...(await searchLayouts(volumeRoot, CONTAINER_LAYOUTS)),
+                );
+            }
+        }
+    }
+
+    // Directories named BT_backup that qBittorrent did not make
+    const candidates = await describeCandidates(locations, false);
+    return candidates.filter(
+        (candidate) => candidate.torrents || findConfigFile(candidate.path),
+    );
+};
+
+export const printCandidates = (
+    system: 'Windows' | 'Linux',
+    candidates: BTBackupCandidate[],
+): void => {
+    console.log(`\n🔍 ${system} BT_backup directories found:`);
+    candidates.forEach((candidate, i) =>
+        console.log(
+            `   ${i + 1}) ${candidate.path} (${candidate.torrents} torrents, modified ${candidate.modified.toLocaleString()})`,
+        ),
+    );
+};
+
+/**
+ * Asks for one of the found BT_backups by number, or for a path that is searched the same way
+ */
+export const chooseBTBackup = async (
+    system: 'Windows' | 'Linux',
+    candidates: BTBackupCandidate[],
+): Promise<string> => {
+    if (candidates.length) printCandidates(system, candidates);
+
+    let chosen = '';
+    while (!chosen) {
+        const answer = (
+            await promptUserInput(
+                candidates.length
+                    ? `Choose 1-${candidates.length} or enter the path to your qBittorrent ${system} directory`
+                    : `Enter the path to your qBittorrent ${system} directory`,
+            )
+        ).trim();
+        const index = Number(answer);
+        if (
+            Number.isInteger(index) &&
+            index >= 1 &&
+            index <= candidates.length
+        ) {
+            chosen = candidates[index - 1].path;
+            continue;
+        }
+        if (!answer) continue;
+
+        // The install directory or a folder above BT_backup is a common answer
+        const found =
+            system === 'Windows'
+                ? await findWindowsBTBackups([answer], true)
+                : await findLinuxBTBackups(answer);
+        if (found.length === 1) {
+            chosen = found[0].path;
+        } else if (found.length) {
+            candidates = found;
+            printCandidates(system, candidates);
+        } else {
+            console.error(`❌ No BT_backup found in ${answer}`);
+        }
+    }
+    return chosen;
+};
+
+/**
+ * The Linux BT_backup from `dir`, which may be a folder above it, or the one of the only
+ * qBittorrent profile found. Asks which one when there are several, null when none is found.
+ */
+export const resolveLinuxBTBackup = async (
+    dir: string | undefined,
+    option: '--source' | '--target',
+): Promise<string | null> => {
+    const found = await findLinuxBTBackups(dir);
+    if (dir && found.length <= 1) {
+        // Left as given when nothing is found, it is reported missing later
+        const btBackup = found[0]?.path ?? dir;
+        if (btBackup !== path.resolve(dir)) {
+            console.log(`🔍 Found Linux BT_backup: ${btBackup}`);
+        }
+        return btBackup;
+    }
+    if (found.length === 1) return found[0].path;
+    if (!found.length) {
+        console.error(
+            `❌ No Linux BT_backup directory found. Run qBittorrent once, or pass it with ${option}.`,
+        );
+        return null;
+    }
+    if (isInteractive()) return chooseBTBackup('Linux', found);
+
+    console.error(
+        `❌ ${found.length} qBittorrent profiles found, pass one with ${option}:`,
+    );
+    found.forEach((candidate) => console.error(`   ${candidate.path}`));
+    return null;
+};
@@ -0,0 +1,497 @@
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { DEFAULT_SAMPLE_PIECES } from './pieceVerifier.js';
+import { parseDriveLetter } from './mounts.js';
+import { isUncPath } from './paths.js';
+import { CONFLICT_POLICIES, ConflictPolicy } from './conflicts.js';
+import { UNRESOLVED_ACTIONS, UnresolvedAction } from './unresolved.js';
+import {
+    DEFAULT_LAYOUT,
+    LAYOUT_FIELDS,
+    RELOCATE_MODES,
+    RelocateMode,
+    findUnknownLayoutFields,
+} from './relocate.js';
+import { TrackerRule } from './trackers.js';
+
+export const ExitCode = {
+    Success: 0,
+    Error: 1,
+    NothingToDo: 2,
+    UnresolvedPaths: 3,
+    WriteErrors: 4,
+    VerifyFailed: 5,
+} as const;
+
+export type ExitCode = (typeof ExitCode)[keyof typeof ExitCode];
+
+export const COMMANDS = [
+    'migrate',
+    'reverse',
+    'rollback',
+    'sync',
+    'verify',
+] as const;
+
+export type Command = (typeof COMMANDS)[number];
+
+export interface CommandOptions {
+    // Windows BT_backup directory, or the Linux one for reverse
+    source?: string;
+    // Linux BT_backup directory, located automatically when not given, or the Windows one for reverse
+    target?: string;
+    yes: boolean;
+    dryRun: boolean;
+    // Pieces hashed per candidate location, 0 disables verification
+    verifyPieces: number;
+    // Windows directory => Linux directory, used instead of searching the filesystem
+    pathMappings: Record<string, string>;
+    // Drive letter => mount point, overriding the automatic drive mapping
+    driveMappings: Record<string, string>;
+    // UNC share => mount point, overriding the CIFS and NFS mounts found
+    shareMappings: Record<string, string>;
+    // Directories searched for save paths, the Windows partitions and / when empty
+    searchRoots: string[];
+    // Leave qBittorrent.conf, categories, watched folders and RSS alone
+    skipSettings: boolean;
+    // What to do with torrents the Linux client already has
+    onConflict: ConflictPolicy;
+    // What to do with torrents whose data is not found, 'ask' needs a terminal
+    unresolved: UnresolvedAction;
+    // Directory the data is copied, moved or linked into, left where it is when not given
+    relocate?: string;
+    // Save path below `relocate`, e.g. {category}/{name}
+    layout: string;
+    relocateMode: RelocateMode;
+    // Applied to the tracker URLs of every migrated torrent
+    trackerRules: TrackerRule[];
+    // Added to every migrated torrent
+    tags: string[];
+    // Replaces the category of every migrated torrent
+    category?: string;
+    // Files the migration plan is exported to
+    plan?: string;
+    report?: string;
+    // Backup directory to roll back to, the newest one when not given
+    backup?: string;
+    // Add torrents through the Web UI of a running qBittorrent instead of writing BT_backup
+    webUi?: string;
+    webUiUsername?: string;
+    webUiPassword?: string;
+}
+
+export interface CliInput {
+    command: Command;
+    help: boolean;
+    options: CommandOptions;
+}
+
+// The config file takes the same options as the command line plus path mappings
+type ConfigFile = Partial<CommandOptions>;
+
+export class CliError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CliError';
+    }
+}
+
+export const USAGE = `Usage: npm start -- [command] [options]
+
+Commands:
+  migrate              Migrate torrents from Windows to Linux (default)
+  reverse              Migrate torrents from Linux back to a Windows BT_backup on a mounted partition
+  rollback             Restore the Linux BT_backup from the backup taken before a migration
+  sync                 Merge seeding statistics between the Windows and Linux BT_backup, copy torrents new on either side
+  verify               Check that a BT_backup or torrents.db loads: infohashes, data files, no Windows paths
+
+Options:
+  --source <dir>       Windows qBittorrent BT_backup directory, a folder above it, or torrents.db (Linux for reverse)
+  --target <dir>       Linux qBittorrent BT_backup directory, a folder above it, or torrents.db (Windows for reverse), also checked by verify
+  -y, --yes            Do not ask for confirmation
+  --dry-run            Show the migration plan without writing anything
+  --drive <X:=dir>     Map a Windows drive letter to a mount point, can be repeated
+  --share <UNC=dir>    Map a network share like \\\\nas\\media to a mount point, can be repeated
+  --search-root <dir>  Only search below this directory for save paths, can be repeated
+  --verify-pieces <n>  Pieces to hash per candidate location, 0 to disable (default: ${DEFAULT_SAMPLE_PIECES})
+  --skip-settings      Only migrate torrents, not settings, categories and RSS
+  --on-conflict <p>    Torrents Linux already has: ${CONFLICT_POLICIES.join(', ')} (default: merge)
+  --unresolved <a>     Torrents whose data is not found: ${UNRESOLVED_ACTIONS.join(', ')} (default: ask)
+  --relocate <dir>     Copy, move or link the data into this directory
+  --layout <template>  Save path below the relocate directory, from ${LAYOUT_FIELDS.map((field) => `{${field}}`).join(', ')} (default: ${DEFAULT_LAYOUT})
+  --relocate-mode <m>  How data is relocated: ${RELOCATE_MODES.join(', ')} (default: copy)
+  --tracker <a>=><b>   Replace a in tracker URLs with b, can be repeated
+  --tag <tag>          Add a tag to every migrated torrent, can be repeated
+  --category <name>    Set the category of every migrated torrent
+  --plan <file>        Write the migration plan as JSON
+  --report <file>      Write the migration plan as a standalone HTML report
+  --backup <dir>       Backup to restore with rollback (default: newest)
+  --webui <url>        Add torrents through the Web UI of a running qBittorrent
+  --webui-user <name>  Web UI username, the password is read from QBITTORRENT_PASSWORD
+  --config <file>      JSON config file with the options above and "pathMappings"
+  -h, --help           Show this help
+
+Exit codes:
+  ${ExitCode.Success} success, ${ExitCode.Error} error, ${ExitCode.NothingToDo} nothing to do, ${ExitCode.UnresolvedPaths} unresolved paths, ${ExitCode.WriteErrors} write errors, ${ExitCode.VerifyFailed} verification failed
+`;
+
+const CLI_ARGS = {
+    source: { type: 'string' },
+    target: { type: 'string' },
+    yes: { type: 'boolean', short: 'y' },
+    'dry-run': { type: 'boolean' },
+    drive: { type: 'string', multiple: true },
+    share: { type: 'string', multiple: true },
+    'search-root': { type: 'string', multiple: true },
+    'verify-pieces': { type: 'string' },
+    'skip-settings': { type: 'boolean' },
+    'on-conflict': { type: 'string' },
+    unresolved: { type: 'string' },
+    relocate: { type: 'string' },
+    layout: { type: 'string' },
+    'relocate-mode': { type: 'string' },
+    tracker: { type: 'string', multiple: true },
+    tag: { type: 'string', multiple: true },
+    category: { type: 'string' },
+    plan: { type: 'string' },
+    report: { type: 'string' },
+    backup: { type: 'string' },
+    webui: { type: 'string' },
+    'webui-user': { type: 'string' },
+    config: { type: 'string' },
+    help: { type: 'boolean', short: 'h' },
+} as const;
+
+type ParsedArgs = ReturnType<
+    typeof parseArgs<{
+        args: string[];
+        allowPositionals: true;
+        options: typeof CLI_ARGS;
+    }>
+>;
+
+const parseCount = (value: unknown, name: string): number => {
+    const count = Number(value);
+    if (!Number.isInteger(count) || count < 0) {
+        throw new CliError(`${name} must be a non-negative integer`);
+    }
+    return count;
+};
+
+// Types of the config file's plain values, checked before they are used like flags
+const CONFIG_VALUE_TYPES: Record<string, 'string' | 'boolean' | 'number'> = {
+    source: 'string',
+    target: 'string',
+    plan: 'string',
+    report: 'string',
+    backup: 'string',
+    onConflict: 'string',
+    unresolved: 'string',
+    relocate: 'string',
+    layout: 'string',
+    relocateMode: 'string',
+    category: 'string',
+    webUi: 'string',
+    webUiUsername: 'string',
+    webUiPassword: 'string',
+    yes: 'boolean',
+    dryRun: 'boolean',
+    skipSettings: 'boolean',
+    verifyPieces: 'number',
+};
+
+const VALUE_TYPE_NAMES = {
+    string: 'a string',
+    boolean: 'true or false',
+    number: 'a number',
+};
+
+const parseConflictPolicy = (value: unknown): ConflictPolicy => {
+    if (!CONFLICT_POLICIES.includes(value as ConflictPolicy)) {
+        throw new CliError(
+            `on-conflict must be one of: ${CONFLICT_POLICIES.join(', ')}`,
+        );
+    }
+    return value as ConflictPolicy;
+};
+
+const parseUnresolvedAction = (value: unknown): UnresolvedAction => {
+    if (!UNRESOLVED_ACTIONS.includes(value as UnresolvedAction)) {
+        throw new CliError(
+            `unresolved must be one of: ${UNRESOLVED_ACTIONS.join(', ')}`,
+        );
+    }
+    return value as UnresolvedAction;
+};
+
+const parseRelocateMode = (value: unknown): RelocateMode => {
+    if (!RELOCATE_MODES.includes(value as RelocateMode)) {
+        throw new CliError(
+            `relocate-mode must be one of: ${RELOCATE_MODES.join(', ')}`,
+        );
+    }
+    return value as RelocateMode;
+};
+
+const parseLayout = (value: string): string => {
+    const [unknown] = findUnknownLayoutFields(value);
+    if (unknown !== undefined) {
+        throw new CliError(
+            `Unknown layout field {${unknown}}, use ${LAYOUT_FIELDS.map((field) => `{${field}}`).join(', ')}`,
+        );
+    }
+    return value;
+};
+
+// --tracker old.example.org=>new.example.org
+const parseTrackerRules = (rules: string[]): TrackerRule[] =>
+    rules.map((rule) => {
+        const separator = rule.indexOf('=>');
+        if (separator < 1) {
+            throw new CliError(
+                `Invalid tracker rule "${rule}", use old.example.org=>new.example.org`,
+            );
+        }
+        return {
+            from: rule.slice(0, separator),
+            to: rule.slice(separator + 2),
+        };
+    });
+
+const checkTrackerRules = (rules: TrackerRule[]): TrackerRule[] => {
+    for (const rule of rules) {
+        if (
+            !rule ||
+            typeof rule.from !== 'string' ||
+            typeof rule.to !== 'string' ||
+            !rule.from
+        ) {
+            throw new CliError(
+                '"trackerRules" must be a list of { "from": ..., "to": ... } rules',
+            );
+        }
+        if (rule.regex) {
+            try {
+                new RegExp(rule.from);
+            } catch (error) {
+                throw new CliError(`Invalid tracker rule: ${error.message}`);
+            }
+        }
+    }
+    return rules;
+};
+
+// --drive D:=/mnt/data
+const parseDriveRules = (rules: string[]): Record<string, string> => {
+    const mappings: Record<string, string> = {};
+    for (const rule of rules) {
+        const separator = rule.indexOf('=');
+        const drive = rule.slice(0, separator);
+        const mountPoint = rule.slice(separator + 1);
+        if (separator < 1 || !parseDriveLetter(drive) || !mountPoint) {
+            throw new CliError(
+                `Invalid drive mapping "${rule}", use D:=/mnt/data`,
+            );
+        }
+        mappings[drive] = mountPoint;
+    }
+    return mappings;
+};
+
+// --share \\nas\media=/mnt/media
+const parseShareRules = (rules: string[]): Record<string, string> => {
+    const mappings: Record<string, string> = {};
+    for (const rule of rules) {
+        const separator = rule.indexOf('=');
+        const share = rule.slice(0, separator);
+        const mountPoint = rule.slice(separator + 1);
+        if (separator < 1 || !isUncPath(share) || !mountPoint) {
+            throw new CliError(
+                `Invalid share mapping "${rule}", use \\\\nas\\media=/mnt/media`,
+            );
+        }
+        mappings[share] = mountPoint;
+    }
+    return mappings;
+};
+
+const loadConfig = async (file: string): Promise<ConfigFile> => {
+    let content: string;
+    try {
+        content = await fs.promises.readFile(file, 'utf-8');
+    } catch (error) {
+        throw new CliError(`Cannot read config file ${file}: ${error}`);
+    }
+
+    let config: ConfigFile;
+    try {
+        config = JSON.parse(content);
+    } catch (error) {
+        throw new CliError(`Invalid JSON in config file ${file}: ${error}`);
+    }
+    if (!config || typeof config !== 'object' || Array.isArray(config)) {
+        throw new CliError(`Config file ${file} must contain a JSON object`);
+    }
+
+    for (const [key, type] of Object.entries(CONFIG_VALUE_TYPES)) {
+        if (config[key] !== undefined && typeof config[key] !== type) {
+            throw new CliError(
+                `"${key}" in ${file} must be ${VALUE_TYPE_NAMES[type]}`,
+            );
+        }
+    }
+
+    // Relative directories in the config file are relative to the file itself
+    const baseDir = path.dirname(path.resolve(file));
+    for (const key of [
+        'source',
+        'target',
+        'plan',
+        'report',
+        'backup',
+        'relocate',
+    ] as const) {
+        if (typeof config[key] === 'string') {
+            config[key] = path.resolve(baseDir, config[key]);
+        }
+    }
+    if (config.searchRoots !== undefined) {
+        if (
+            !Array.isArray(config.searchRoots) ||
+            config.searchRoots.some((root) => typeof root !== 'string')
+        ) {
+            throw new CliError(
+                `"searchRoots" in ${file} must be a list of directories`,
+            );
+        }
+        config.searchRoots = config.searchRoots.map((root) =>
+            path.resolve(baseDir, root),
+        );
+    }
+    if (
+        config.tags !== undefined &&
+        (!Array.isArray(config.tags) ||
+            config.tags.some((tag) => typeof tag !== 'string'))
+    ) {
+        throw new CliError(`"tags" in ${file} must be a list of tags`);
+    }
+    if (
+        config.trackerRules !== undefined &&
+        !Array.isArray(config.trackerRules)
+    ) {
+        throw new CliError(
+            `"trackerRules" in ${file} must be a list of { "from": ..., "to": ... } rules`,
+        );
+    }
+    for (const key of [
+        'pathMappings',
+        'driveMappings',
+        'shareMappings',
+    ] as const) {
+        if (
+            config[key] &&
+            (typeof config[key] !== 'object' ||
+                Object.values(config[key]).some(
+                    (value) => typeof value !== 'string',
+                ))
+        ) {
+            throw new CliError(
+                `"${key}" in ${file} must map Windows paths to Linux paths`,
+            );
+        }
+    }
+    const invalidDrive = Object.keys(config.driveMappings ?? {}).find(
+        (drive) => !parseDriveLetter(drive),
+    );
+    if (invalidDrive !== undefined) {
+        throw new CliError(
+            `Invalid drive "${invalidDrive}" in "driveMappings" of ${file}, use "D:"`,
+        );
+    }
+
+    return config;
+};
+
+/**
+ * Parses command line arguments, merging in the config file if one is given.
+ * Flags on the command line win over the config file.
+ */
+export const parseCli = async (argv: string[]): Promise<CliInput> => {
+    let parsed: ParsedArgs;
+    try {
+        parsed = parseArgs({
+            args: argv,
+            allowPositionals: true,
+            options: CLI_ARGS,
+        });
+    } catch (error) {
+        throw new CliError(error.message);
+    }
+    const { values, positionals } = parsed;
+
+    const command = (positionals[0] ?? 'migrate') as Command;
+    if (!COMMANDS.includes(command)) {
+        throw new CliError(`Unknown command: ${positionals[0]}`);
+    }
+    if (positionals.length > 1) {
+        throw new CliError(`Unexpected argument: ${positionals[1]}`);
+    }
+
+    const config = values.config ? await loadConfig(values.config) : {};
+
+    return {
+        command,
+        help: values.help ?? false,
+        options: {
+            source: values.source ?? config.source,
+            target: values.target ?? config.target,
+            yes: values.yes ?? config.yes ?? false,
+            dryRun: values['dry-run'] ?? config.dryRun ?? false,
+            verifyPieces: parseCount(
+                values['verify-pieces'] ??
+                    config.verifyPieces ??
+                    DEFAULT_SAMPLE_PIECES,
+                'verify-pieces',
+            ),
+            pathMappings: config.pathMappings ?? {},
+            driveMappings: {
+                ...config.driveMappings,
+                ...parseDriveRules(values.drive ?? []),
+            },
+            shareMappings: {
+                ...config.shareMappings,
+                ...parseShareRules(values.share ?? []),
+            },
+            searchRoots: values['search-root'] ?? config.searchRoots ?? [],
+            skipSettings:
+                values['skip-settings'] ?? config.skipSettings ?? false,
+            onConflict: parseConflictPolicy(
+                values['on-conflict'] ?? config.onConflict ?? 'merge',
+            ),
+            unresolved: parseUnresolvedAction(
+                values.unresolved ?? config.unresolved ?? 'ask',
+            ),
+            relocate: values.relocate ?? config.relocate,
+            layout: parseLayout(
+                values.layout ?? config.layout ?? DEFAULT_LAYOUT,
+            ),
+            relocateMode: parseRelocateMode(
+                values['relocate-mode'] ?? config.relocateMode ?? 'copy',
+            ),
+            trackerRules: checkTrackerRules([
+                ...(config.trackerRules ?? []),
+                ...parseTrackerRules(values.tracker ?? []),
+            ]),
+            tags: values.tag ?? config.tags ?? [],
+            category: values.category ?? config.category,
+            plan: values.plan ?? config.plan,
+            report: values.report ?? config.report,
+            backup: values.backup ?? config.backup,
+            webUi: values.webui ?? config.webUi,
+            webUiUsername: values['webui-user'] ?? config.webUiUsername,
+            webUiPassword:
+                process.env.QBITTORRENT_PASSWORD ?? config.webUiPassword,
+        },
+    };
+};
@@ -0,0 +1,194 @@
+import {
+    BencodeDict,
+    encodeRaw,
+    getNumber,
+    getText,
+    setText,
+} from './rawBencode.js';
+import { decodeFastResume } from './fastresume.js';
+import { ResumeEntry } from './resumeStore.js';
+
+export const CONFLICT_POLICIES = [
+    'linux',
+    'windows',
+    'newest',
+    'merge',
+] as const;
+
+export type ConflictPolicy = (typeof CONFLICT_POLICIES)[number];
+
+export type ConflictAction = 'keep-linux' | 'keep-windows' | 'merge';
+
+// The parts of a fastresume that are compared between the two clients
+export interface ResumeSummary {
+    totalUploaded: number;
+    totalDownloaded: number;
+    seedingTime: number;
+    addedTime: number;
+    // Most recent upload, download or completion, as a POSIX timestamp
+    lastActivity: number;
+    savePath: string;
+    category: string;
+    tags: string[];
+}
+
+export interface TorrentConflict {
+    infohash: string;
+    name: string;
+    action: ConflictAction;
+    windows: ResumeSummary;
+    linux: ResumeSummary;
+    // Fields that differ, e.g. `total_uploaded`
+    differences: string[];
+}
+
+// Counters and timestamps taken from whichever side has the larger value when merging
+const MAX_FIELDS = [
+    'total_uploaded',
+    'total_downloaded',
+    'seeding_time',
+    'active_time',
+    'finished_time',
+    'last_upload',
+    'last_download',
+    'completed_time',
+];
+
+const getTags = (resume: BencodeDict): string[] => {
+    const tags = resume.get('qBt-tags');
+    return Array.isArray(tags)
+        ? tags
+              .filter((tag): tag is Buffer => Buffer.isBuffer(tag))
+              .map((tag) => tag.toString('utf8'))
+        : [];
+};
+
+export const summarizeFastResume = (content: Buffer): ResumeSummary => {
+    const resume = decodeFastResume(content);
+    return {
+        totalUploaded: getNumber(resume, 'total_uploaded'),
+        totalDownloaded: getNumber(resume, 'total_downloaded'),
+        seedingTime: getNumber(resume, 'seeding_time'),
+        addedTime: getNumber(resume, 'added_time'),
+        lastActivity: Math.max(
+            getNumber(resume, 'last_upload'),
+            getNumber(resume, 'last_download'),
+            getNumber(resume, 'completed_time'),
+            getNumber(resume, 'added_time'),
+        ),
+        savePath: getText(resume, 'save_path') ?? '',
+        category: getText(resume, 'qBt-category') ?? '',
+        tags: getTags(resume),
+    };
+};
+
+const findDifferences = (
+    windows: ResumeSummary,
+    linux: ResumeSummary,
+): string[] => {
+    const differences: string[] = [];
+    const compare = (field: string, a: unknown, b: unknown): void => {
+        if (a !== b) differences.push(field);
+    };
+    compare('total_uploaded', windows.totalUploaded, linux.totalUploaded);
+    compare('total_downloaded', windows.totalDownloaded, linux.totalDownloaded);
+    compare('seeding_time', windows.seedingTime, linux.seedingTime);
+    compare('added_time', windows.addedTime, linux.addedTime);
+    compare('save_path', windows.savePath, linux.savePath);
+    compare('category', windows.category, linux.category);
+    compare(
+        'tags',
+        [...windows.tags].sort().join(','),
+        [...linux.tags].sort().join(','),
+    );
+    return differences;
+};
+
+const chooseAction = (
+    policy: ConflictPolicy,
+    windows: ResumeSummary,
+    linux: ResumeSummary,
+): ConflictAction => {
+    switch (policy) {
+        case 'linux':
+            return 'keep-linux';
+        case 'windows':
+            return 'keep-windows';
+        case 'newest':
+            // Ties go to Windows, the side being migrated
+            return linux.lastActivity > windows.lastActivity
+                ? 'keep-linux'
+                : 'keep-windows';
+        case 'merge':
+            return 'merge';
+    }
+};
+
+/**
+ * Compares the migrated torrents with the ones the Linux client already has.
+ * `migrated` holds the rewritten fastresume data, so save paths compare as Linux paths.
+ */
+export const findConflicts = (
+    migrated: Array<ResumeEntry & { name: string }>,
+    linuxEntries: ResumeEntry[],
+    policy: ConflictPolicy,
+): TorrentConflict[] => {
+    const linuxById = new Map(
+        linuxEntries.map((entry) => [entry.infohash.toLowerCase(), entry]),
+    );
+    const conflicts: TorrentConflict[] = [];
+    for (const entry of migrated) {
+        const linuxEntry = linuxById.get(entry.infohash.toLowerCase());
+        if (!linuxEntry) continue;
+
+        const windows = summarizeFastResume(entry.fastResume);
+        const linux = summarizeFastResume(linuxEntry.fastResume);
+        conflicts.push({
+            infohash: entry.infohash,
+            name: entry.name,
+            action: chooseAction(policy, windows, linux),
+            windows,
+            linux,
+            differences: findDifferences(windows, linux),
+        });
+    }
+    return conflicts;
+};
+
+/**
+ * Merges the Linux fastresume into the migrated one: the larger of each counter,
+ * the earliest added time, both sides' tags, and the Linux category when Windows has none.
+ * Save paths and everything else come from the migrated data.
+ */
+export const mergeFastResume = (windows: Buffer, linux: Buffer): Buffer => {
+    const merged = decodeFastResume(windows);
+    const linuxResume = decodeFastResume(linux);
+
+    for (const field of MAX_FIELDS) {
+        const value = Math.max(
+            getNumber(merged, field),
+            getNumber(linuxResume, field),
+        );
+        if (value) merged.set(field, value);
+    }
+
+    const addedTimes = [merged, linuxResume]
+        .map((resume) => getNumber(resume, 'added_time'))
+        .filter(Boolean);
+    if (addedTimes.length) merged.set('added_time', Math.min(...addedTimes));
+
+    const tags = [...new Set([...getTags(merged), ...getTags(linuxResume)])];
+    if (tags.length) {
+        merged.set(
+            'qBt-tags',
+            tags.map((tag) => Buffer.from(tag, 'utf8')),
+        );
+    }
+
+    const linuxCategory = getText(linuxResume, 'qBt-category');
+    if (!getText(merged, 'qBt-category') && linuxCategory) {
+        setText(merged, 'qBt-category', linuxCategory);
+    }
+
+    return encodeRaw(merged);
+};
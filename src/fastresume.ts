@@ -0,0 +1,264 @@
+import {
+    BencodeDict,
+    decodeRaw,
+    encodeRaw,
+    getRawValue,
+    getText,
+    isDict,
+    setText,
+} from './rawBencode.js';
+import {
+    PathTranslator,
+    isLinuxAbsolutePath,
+    isWindowsAbsolutePath,
+} from './paths.js';
+
+// Fields holding an absolute directory, as written by libtorrent and qBittorrent
+export const FASTRESUME_PATH_FIELDS = [
+    'save_path',
+    'qBt-savePath',
+    'qBt-downloadPath',
+] as const;
+
+export interface FastResumeRewrite {
+    content: Buffer;
+    // Fields that were rewritten, e.g. `save_path` or `mapped_files[3]`
+    rewritten: string[];
+    // Windows paths no mapping covered, left as they were
+    untranslated: string[];
+}
+
+export const decodeFastResume = (content: Buffer): BencodeDict => {
+    const decoded = decodeRaw(content);
+    if (!isDict(decoded)) {
+        throw new Error('Fastresume data is not a bencoded dictionary');
+    }
+    return decoded;
+};
+
+// Every field but the path fields must come out of a rewrite byte for byte as it went in
+const checkUnchangedFields = (original: Buffer, output: Buffer): void => {
+    const before = decodeFastResume(original);
+    const after = decodeFastResume(output);
+    if (
+        before.size !== after.size ||
+        [...before.keys()].some((key) => !after.has(key))
+    ) {
+        throw new Error('Rewritten fastresume data has different fields');
+    }
+    for (const key of before.keys()) {
+        if (
+            key === 'mapped_files' ||
+            FASTRESUME_PATH_FIELDS.includes(
+                key as (typeof FASTRESUME_PATH_FIELDS)[number],
+            )
+        ) {
+            continue;
+        }
+        if (!getRawValue(output, key)?.equals(getRawValue(original, key))) {
+            throw new Error(`Rewriting the fastresume data changed ${key}`);
+        }
+    }
+};
+
+// libtorrent keeps one byte per piece, the lowest bit set when the piece is downloaded
+export const isComplete = (resume: BencodeDict): boolean => {
+    const pieces = resume.get('pieces');
+    return (
+        Buffer.isBuffer(pieces) &&
+        pieces.length > 0 &&
+        pieces.every((piece) => (piece & 1) === 1)
+    );
+};
+
+/**
+ * Rewrites every known path field of a fastresume file through `translatePath`.
+ * Everything else is carried over byte for byte, which is checked against the original.
+ * With `toWindows`, Linux paths are translated instead of Windows ones.
+ */
+export const rewriteFastResume = (
+    content: Buffer,
+    translatePath: PathTranslator,
+    toWindows = false,
+): FastResumeRewrite => {
+    // Make sure the codec reproduces the original before trusting it with changes
+    if (!encodeRaw(decodeRaw(content)).equals(content)) {
+        throw new Error('Fastresume data does not round-trip through bencode');
+    }
+
+    const resume = decodeFastResume(content);
+    const rewritten: string[] = [];
+    const untranslated: string[] = [];
+
+    const isSourcePath = toWindows
+        ? isLinuxAbsolutePath
+        : isWindowsAbsolutePath;
+    const rewrite = (field: string, value: string): string => {
+        if (!isSourcePath(value)) return value;
+        const translated = translatePath(value);
+        if (translated === null) {
+            untranslated.push(value);
+            return value;
+        }
+        if (translated !== value) rewritten.push(field);
+        return translated;
+    };
+
+    for (const field of FASTRESUME_PATH_FIELDS) {
+        const value = getText(resume, field);
+        if (value === undefined || value === '') continue;
+        setText(resume, field, rewrite(field, value));
+    }
+
+    // Renamed files are stored relative to the save path, or absolute when moved outside it
+    const mappedFiles = resume.get('mapped_files');
+    if (Array.isArray(mappedFiles)) {
+        mappedFiles.forEach((entry, i) => {
+            if (!Buffer.isBuffer(entry) || entry.length === 0) return;
+            const value = entry.toString('utf8');
+            // Windows accepts either separator in relative paths, Linux only /
+            const updated = isSourcePath(value)
+                ? rewrite(`mapped_files[${i}]`, value)
+                : toWindows
+                  ? value
+                  : value.replace(/\\/g, '/');
+            if (updated !== value) {
+                if (!rewritten.includes(`mapped_files[${i}]`)) {
+                    rewritten.push(`mapped_files[${i}]`);
+                }
+                mappedFiles[i] = Buffer.from(updated, 'utf8');
+            }
+        });
+    }
+
+    const output = encodeRaw(resume);
+    checkUnchangedFields(content, output);
+
+    return { content: output, rewritten, untranslated };
+};
+
+// Marks a torrent as stopped, and not auto-managed so the queue does not start it
+export const stopFastResume = (content: Buffer): Buffer => {
+    const resume = decodeFastResume(content);
+    resume.set('paused', 1);
+    resume.set('auto_managed', 0);
+    resume.set('qBt-stopped', 1);
+    return encodeRaw(resume);
+};
+
+/**
+ * Renames files through `mapped_files`, indexed like the torrent's files including pad files.
+ * Files without an entry in `renames` keep their current name.
+ */
+export const renameFiles = (
+    content: Buffer,
+    renames: Map<number, string>,
+): Buffer => {
+    const resume = decodeFastResume(content);
+    const existing = resume.get('mapped_files');
+    const mappedFiles = Array.isArray(existing) ? [...existing] : [];
+    for (const [index, name] of renames) {
+        while (mappedFiles.length <= index) mappedFiles.push(Buffer.alloc(0));
+        mappedFiles[index] = Buffer.from(name, 'utf8');
+    }
+    resume.set('mapped_files', mappedFiles);
+    return encodeRaw(resume);
+};
+
+// Points a torrent at a new save path; its data is there, so it no longer uses an incomplete-downloads folder
+export const setSavePath = (content: Buffer, savePath: string): Buffer => {
+    const resume = decodeFastResume(content);
+    setText(resume, 'save_path', savePath);
+    if (resume.has('qBt-savePath')) setText(resume, 'qBt-savePath', savePath);
+    resume.delete('qBt-downloadPath');
+    return encodeRaw(resume);
+};
+
+// Adds tags to a torrent, and replaces its category when one is given
+export const labelFastResume = (
+    content: Buffer,
+    tags: string[],
+    category?: string,
+): Buffer => {
+    const resume = decodeFastResume(content);
+    const existing = resume.get('qBt-tags');
+    const current = Array.isArray(existing)
+        ? existing
+              .filter((tag): tag is Buffer => Buffer.isBuffer(tag))
+              .map((tag) => tag.toString('utf8'))
+        : [];
+    resume.set(
+        'qBt-tags',
+        [...new Set([...current, ...tags])].map((tag) =>
+            Buffer.from(tag, 'utf8'),
+        ),
+    );
+    if (category !== undefined) setText(resume, 'qBt-category', category);
+    return encodeRaw(resume);
+};
+
+/**
+ * The .torrent of a torrent added by magnet link, when libtorrent saved the metadata
+ * it fetched in the resume data. Returns null while the metadata was never received.
+ * The info dictionary is copied byte for byte, re-encoding it could change the infohash.
+ */
+export const extractTorrent = (content: Buffer): Buffer | null => {
+    const info = getRawValue(content, 'info');
+    return info?.[0] === 0x64
+        ? Buffer.concat([Buffer.from('d4:info'), info, Buffer.from('e')])
+        : null;
+};
+
+// The magnet link a torrent was added with, older qBittorrent versions kept it as qBt-magnetUri
+const findMagnetUri = (resume: BencodeDict): string | undefined =>
+    getText(resume, 'magnet-uri') || getText(resume, 'qBt-magnetUri');
+
+// Name shown for a torrent without metadata: the one set in qBittorrent, libtorrent's, or the magnet link's
+export const getResumeName = (content: Buffer): string | undefined => {
+    const resume = decodeFastResume(content);
+    const query = findMagnetUri(resume)?.split('?')[1];
+    return (
+        getText(resume, 'qBt-name') ||
+        getText(resume, 'name') ||
+        (query && new URLSearchParams(query).get('dn')) ||
+        undefined
+    );
+};
+
+/**
+ * A magnet link for a torrent without metadata: the one it was added with,
+ * or one built from its infohashes, name and trackers.
+ */
+export const buildMagnetUri = (content: Buffer, infohash: string): string => {
+    const resume = decodeFastResume(content);
+    const magnetUri = findMagnetUri(resume);
+    if (magnetUri) return magnetUri;
+
+    const v1 = resume.get('info-hash');
+    const v2 = resume.get('info-hash2');
+    const params: string[] = [];
+    if (Buffer.isBuffer(v1) && v1.length === 20 && v1.some((byte) => byte)) {
+        params.push(`xt=urn:btih:${v1.toString('hex')}`);
+    }
+    if (Buffer.isBuffer(v2) && v2.length === 32) {
+        params.push(`xt=urn:btmh:1220${v2.toString('hex')}`);
+    }
+    if (!params.length) params.push(`xt=urn:btih:${infohash}`);
+
+    const name = getText(resume, 'qBt-name') || getText(resume, 'name');
+    if (name) params.push(`dn=${encodeURIComponent(name)}`);
+    const trackers = resume.get('trackers');
+    if (Array.isArray(trackers)) {
+        for (const tier of trackers) {
+            if (!Array.isArray(tier)) continue;
+            for (const url of tier) {
+                if (Buffer.isBuffer(url)) {
+                    params.push(
+                        `tr=${encodeURIComponent(url.toString('utf8'))}`,
+                    );
+                }
+            }
+        }
+    }
+    return `magnet:?${params.join('&')}`;
+};
@@ -0,0 +1,96 @@
+import fs from 'fs';
+import path from 'path';
+
+// Characters Windows does not allow in names; libtorrent writes them as '_' on Windows
+const RESERVED_CHARS = '\\:*?"<>|';
+
+// ntfs-3g and ntfs3 store reserved characters as their code point + U+F000
+const RESERVED_ALIASES = [...RESERVED_CHARS].map((char) =>
+    String.fromCharCode(0xf000 + char.charCodeAt(0)),
+);
+
+const RESERVED = new RegExp(
+    `[${[...RESERVED_CHARS, ...RESERVED_ALIASES]
+        .map((char) => `\\${char}`)
+        .join('')}]`,
+    'g',
+);
+
+// Directory => its entries by folded name, reused while the directory is unchanged
+const listings = new Map<
+    string,
+    { mtimeMs: number; names: Map<string, string> }
+>();
+
+/**
+ * The form two names are compared in when an exact match fails: NFC, lowercase,
+ * reserved characters as '_', and without the trailing dots and spaces Windows drops.
+ */
+export const foldName = (name: string): string =>
+    name
+        .normalize('NFC')
+        .toLowerCase()
+        .replace(RESERVED, '_')
+        .replace(/[. ]+$/, '');
+
+export const foldPath = (relativePath: string): string =>
+    relativePath.split('/').map(foldName).join('/');
+
+const findEntry = (dir: string, name: string): string | null => {
+    let mtimeMs: number;
+    try {
+        mtimeMs = fs.statSync(dir).mtimeMs;
+    } catch {
+        return null;
+    }
+    let listing = listings.get(dir);
+    if (!listing || listing.mtimeMs !== mtimeMs) {
+        const names = new Map<string, string>();
+        try {
+            for (const entry of fs.readdirSync(dir)) {
+                // An exact match is looked up first, so any name of a fold will do
+                if (!names.has(foldName(entry))) {
+                    names.set(foldName(entry), entry);
+                }
+            }
+        } catch {
+            return null;
+        }
+        listing = { mtimeMs, names };
+        listings.set(dir, listing);
+    }
+    return listing.names.get(foldName(name)) ?? null;
+};
+
+/**
+ * Resolves `relativePath` below `basePath` segment by segment, taking the exact name
+ * when it exists and a name that folds the same otherwise. Returns null when nothing matches.
+ */
+export const resolveFuzzyPath = (
+    basePath: string,
+    relativePath: string,
+): string | null => {
+    let current = basePath;
+    for (const segment of relativePath.split('/').filter(Boolean)) {
+        const exact = path.join(current, segment);
+        if (fs.existsSync(exact)) {
+            current = exact;
+            continue;
+        }
+        const entry = findEntry(current, segment);
+        if (entry === null) return null;
+        current = path.join(current, entry);
+    }
+    return current;
+};
+
+// Whether `actualPath` ends with `relativePath` spelled differently
+export const isFuzzyMatch = (
+    actualPath: string,
+    relativePath: string,
+): boolean => {
+    const segments = relativePath.split('/').filter(Boolean);
+    return (
+        segments.length > 0 && !actualPath.endsWith(`/${segments.join('/')}`)
+    );
+};
@@ -0,0 +1,1097 @@
+import fs from 'fs';
+import path from 'path';
+import { CommandOptions, ExitCode } from './cli.js';
+import {
+    TorrentData,
+    decodeTorrent,
+    getContentFiles,
+    getInfoHashes,
+    getTorrentId,
+    matchesTorrentId,
+} from './torrent.js';
+import {
+    PathMatchResult,
+    isOutlier,
+    rankTorrentPaths,
+    voteBasePath,
+} from './pathMatcher.js';
+import {
+    PathMapping,
+    PathTranslator,
+    createPathTranslator,
+    isUncPath,
+    stripLongPathPrefix,
+} from './paths.js';
+import {
+    decodeFastResume,
+    extractTorrent,
+    getResumeName,
+    labelFastResume,
+    renameFiles,
+    rewriteFastResume,
+    setSavePath,
+    stopFastResume,
+} from './fastresume.js';
+import { createDirectoryIndex } from './pathSearch.js';
+import { getText, getTextList } from './rawBencode.js';
+import {
+    chooseBTBackup,
+    findWindowsBTBackups,
+    resolveLinuxBTBackup,
+} from './btBackupSearch.js';
+import { isFuzzyMatch, resolveFuzzyPath } from './fuzzyPath.js';
+import {
+    findShare,
+    findWindowsVolumes,
+    getDriveLetter,
+    mapDrives,
+    mapShares,
+    readMounts,
+    stripDriveLetter,
+    stripServer,
+} from './mounts.js';
+import { isQBitRunning } from './qbittorrent.js';
+import { Backup, createBackup } from './backup.js';
+import {
+    MigrationPlan,
+    TorrentPlan,
+    buildTorrentPlan,
+    writePlan,
+} from './report.js';
+import {
+    SettingsFile,
+    findWindowsConfigDir,
+    getLinuxConfigDir,
+    planSettingsMigration,
+} from './settings.js';
+import { isInteractive, promptUserInput } from './prompt.js';
+import { createWebApiClient, createWebApiStore } from './webApi.js';
+import {
+    TorrentConflict,
+    findConflicts,
+    mergeFastResume,
+} from './conflicts.js';
+import { ResumeEntry, ResumeStore, openResumeStore } from './resumeStore.js';
+import {
+    Resolution,
+    promptResolution,
+    validateManualPath,
+} from './unresolved.js';
+import {
+    Relocation,
+    planRelocation,
+    relocateFiles,
+    renderLayout,
+} from './relocate.js';
+import {
+    createTrackerRewriter,
+    rewriteResumeTrackers,
+    rewriteTorrentTrackers,
+} from './trackers.js';
+import { printVerifyResult, verifyResumeData } from './verify.js';
+
+const sanitizePath = (str: string): string => {
+    return stripLongPathPrefix(str).replace(/:/g, '').replace(/\\/g, '-');
+};
+
+// Windows path below its drive or server, in forward-slash form
+const stripPathRoot = (windowsPath: string): string =>
+    isUncPath(windowsPath)
+        ? stripServer(windowsPath)
+        : stripDriveLetter(windowsPath);
+
+type Path = {
+    normalizedPath: string;
+    linuxPath?: string;
+    windowsPath?: string;
+    // Linux directories found for the save path
+    candidatePaths?: string[];
+    // Candidates spelled differently than the Windows path, e.g. in another case
+    fuzzyPaths?: string[];
+    // An incomplete-downloads folder (qBt-downloadPath) that holds no torrent's data
+    downloadOnly?: boolean;
+};
+
+const STORE_NAMES: Record<ResumeStore['kind'], string> = {
+    folder: 'BT_backup files',
+    sqlite: 'torrents.db',
+    webapi: 'qBittorrent Web API',
+};
+
+type MigratingTorrent = {
+    infohash: string;
+    name: string;
+    key: string;
+    category: string;
+    torrent: TorrentData;
+    // Renamed files from the fastresume, matched instead of the torrent's own paths
+    mappedFiles?: string[];
+    // pathMap key of the incomplete-downloads folder, equal to `key` while the data is there
+    downloadKey?: string;
+    // Where this torrent's own data was found among the save path's candidates, best first
+    candidates?: PathMatchResult[];
+    // Set when the data lives apart from the rest of its save path
+    linuxPath?: string;
+    // Set when no location was found for its save path
+    resolution?: Resolution;
+    // Where --relocate puts its data
+    relocation?: Relocation;
+};
+
+// Logs in to the Web UI of the running Linux qBittorrent
+const openWebApiStore = async (
+    options: CommandOptions,
+): Promise<ResumeStore> => {
+    const client = createWebApiClient({
+        url: options.webUi,
+        username: options.webUiUsername,
+        password: options.webUiPassword,
+    });
+    await client.login();
+    return createWebApiStore(client);
+};
+
+// Linux qBittorrent opens files by their exact names, so files found under another spelling are renamed to it
+const getFuzzyRenames = (
+    torrent: MigratingTorrent,
+    savePath: string,
+): Map<number, string> => {
+    const renames = new Map<number, string>();
+    const chosen = torrent.candidates?.find(
+        (candidate) => candidate.basePath === savePath,
+    );
+    if (!chosen) return renames;
+
+    // Matches leave out pad files, mapped_files does not
+    const fileIndexes = getContentFiles(torrent.torrent).flatMap(
+        (file, index) => (file.padding ? [] : [index]),
+    );
+    chosen.matches.forEach((match, i) => {
+        const relativePath = path.relative(savePath, match.actualPath);
+        if (match.fuzzy && relativePath) {
+            // Files moved outside the save path keep an absolute entry
+            renames.set(
+                fileIndexes[i],
+                relativePath.startsWith('..') ? match.actualPath : relativePath,
+            );
+        }
+    });
+    return renames;
+};
+
+// Torrents whose data was not found, and what was done with them
+const printResolutions = (
+    torrents: MigratingTorrent[],
+    pathMap: { [key: string]: Path },
+): void => {
+    const resolved = torrents.filter((torrent) => torrent.resolution);
+    if (!resolved.length) return;
+    console.log(`📝 ${resolved.length} torrent(s) without data found:`);
+    for (const { name, key, resolution } of resolved) {
+        if (resolution.action === 'manual') {
+            console.log(`   ${name}: location set to ${resolution.linuxPath}`);
+        } else if (resolution.action === 'skip') {
+            console.log(`   ${name}: skipped`);
+        } else {
+            console.log(
+                `   ${name}: stopped at ${pathMap[key].windowsPath}, set its location in qBittorrent`,
+            );
+        }
+    }
+};
+
+// The Windows BT_backup from --source, or one found on the mounted NTFS partitions
+export const resolveSourceDir = async (
+    options: CommandOptions,
+): Promise<string | null> => {
+    const found = options.source
+        ? await findWindowsBTBackups([options.source], true)
+        : await findWindowsBTBackups(
+              (await findWindowsVolumes()).map((volume) => volume.mountPoint),
+          );
+
+    if (options.source && found.length <= 1) {
+        // Left as given when nothing is found, it is reported missing later
+        const sourceDir = found[0]?.path ?? options.source;
+        if (sourceDir !== path.resolve(options.source)) {
+            console.log(`🔍 Found Windows BT_backup: ${sourceDir}`);
+        }
+        return sourceDir;
+    }
+    if (isInteractive()) {
+        if (!found.length) {
+            console.log(
+                '🤷 No Windows BT_backup found on the mounted partitions.',
+            );
+        }
+        return chooseBTBackup('Windows', found);
+    }
+
+    if (!options.source && found.length === 1) {
+        console.log(`🔍 Found Windows BT_backup: ${found[0].path}`);
+        return found[0].path;
+    }
+    console.error(
+        '❌ No TTY available, pass the Windows directory with --source',
+    );
+    found.forEach((candidate) => console.error(`   ${candidate.path}`));
+    return null;
+};
+
+const buildMigrationPlan = (
+    dirs: { source: string; target: string },
+    options: CommandOptions,
+    torrents: MigratingTorrent[],
+    pathMap: { [key: string]: Path },
+    unresolved: string[],
+    conflicts: TorrentConflict[],
+    magnets: TorrentPlan[],
+): MigrationPlan => {
+    const plans = torrents.map((entry) => {
+        const group = pathMap[entry.key];
+        return buildTorrentPlan(
+            {
+                infohash: entry.infohash,
+                name: entry.name,
+                oldSavePath: group.windowsPath,
+                outlier: !!entry.linuxPath && !entry.resolution,
+                incomplete: entry.downloadKey === entry.key,
+                metadata: true,
+                resolution: entry.resolution?.action ?? null,
+                fuzzySavePath: !!group.fuzzyPaths?.includes(
+                    entry.linuxPath ?? group.linuxPath,
+                ),
+            },
+            entry.linuxPath ?? group.linuxPath ?? null,
+            entry.candidates ?? [],
+            conflicts.find((c) => c.infohash === entry.infohash) ?? null,
+            entry.relocation?.savePath ?? null,
+        );
+    });
+
+    return {
+        createdAt: new Date().toISOString(),
+        ...dirs,
+        dryRun: options.dryRun,
+        torrents: [...plans, ...magnets].sort((a, b) =>
+            a.name.localeCompare(b.name),
+        ),
+        unresolved: [...unresolved].sort(),
+    };
+};
+
+/**
+ * Migrates the Windows BT_backup into the Linux one, translating save paths on the way
+ */
+export const runMigration = async (
+    options: CommandOptions,
+): Promise<ExitCode> => {
+    const WINDOWS_QBIT_DIR = await resolveSourceDir(options);
+    if (!WINDOWS_QBIT_DIR) return ExitCode.Error;
+
+    // With the Web API, qBittorrent keeps running and writes BT_backup itself
+    const LINUX_QBIT_DIR = options.webUi
+        ? null
+        : await resolveLinuxBTBackup(options.target, '--target');
+    if (options.webUi) {
+        console.log(`\nAdding torrents through: ${options.webUi}\n\n`);
+    } else if (!LINUX_QBIT_DIR) {
+        return ExitCode.Error;
+    } else if (!fs.existsSync(LINUX_QBIT_DIR)) {
+        console.error(`❌ Directory not found: ${LINUX_QBIT_DIR}`);
+        return ExitCode.Error;
+    } else {
+        console.log(`\nFound Linux BT_backup: ${LINUX_QBIT_DIR}\n\n`);
+    }
+
+    if (
+        !options.webUi &&
+        !options.dryRun &&
+        (await isQBitRunning(LINUX_QBIT_DIR))
+    ) {
+        console.error(
+            `❌ Qbittorrent is running. Close it before running the migration.`,
+        );
+        return ExitCode.Error;
+    }
+
+    if (!fs.existsSync(WINDOWS_QBIT_DIR)) {
+        console.error(`❌ Directory not found: ${WINDOWS_QBIT_DIR}`);
+        return ExitCode.Error;
+    }
+
+    // qBittorrent.ini tells whether Windows used a torrents.db instead of BT_backup files
+    const windowsConfigDir = findWindowsConfigDir(WINDOWS_QBIT_DIR);
+    let sourceStore: ResumeStore;
+    let targetStore: ResumeStore;
+    let entries: ResumeEntry[];
+    try {
+        sourceStore = await openResumeStore(
+            WINDOWS_QBIT_DIR,
+            windowsConfigDir && path.join(windowsConfigDir, 'qBittorrent.ini'),
+        );
+        targetStore = options.webUi
+            ? await openWebApiStore(options)
+            : await openResumeStore(LINUX_QBIT_DIR);
+        entries = await sourceStore.read();
+    } catch (error) {
+        console.error('❌ Error opening resume data:', error);
+        return ExitCode.Error;
+    }
+    console.log(
+        `📄 Reading ${STORE_NAMES[sourceStore.kind]}: ${sourceStore.location}`,
+    );
+    console.log(
+        `📄 Writing ${STORE_NAMES[targetStore.kind]}: ${targetStore.location}`,
+    );
+
+    if (entries.length < 1) {
+        console.log('🤷 No torrents found.');
+        return ExitCode.NothingToDo;
+    }
+
+    const pathMap: { [key: string]: Path } = {};
+    const torrents: MigratingTorrent[] = [];
+    // Added by magnet link and never received their metadata, so there are no files to look for
+    const magnets: (ResumeEntry & { name: string })[] = [];
+    let extracted = 0;
+
+    // get all unique paths
+    for (const entry of entries) {
+        try {
+            // Metadata fetched for a magnet link may only be in the resume data
+            if (!entry.torrent) {
+                entry.torrent = extractTorrent(entry.fastResume);
+                if (!entry.torrent) {
+                    magnets.push({
+                        ...entry,
+                        name: getResumeName(entry.fastResume) ?? entry.infohash,
+                    });
+                    continue;
+                }
+                extracted++;
+            }
+            // qBittorrent loads resume data by the v1 or truncated v2 infohash
+            const hashes = getInfoHashes(entry.torrent);
+            const torrentId = getTorrentId(hashes);
+            if (torrentId === null) {
+                console.warn(
+                    `⚠️ No infohash in the metadata of ${entry.infohash}, skipped`,
+                );
+                continue;
+            }
+            if (!matchesTorrentId(entry.infohash, hashes)) {
+                console.warn(
+                    `⚠️ ${entry.infohash} does not match its torrent's infohash, migrating it as ${torrentId}`,
+                );
+                entry.infohash = torrentId;
+            }
+            // Read through the same codec the rewrite uses, so both see the same path
+            const resume = decodeFastResume(entry.fastResume);
+            const windowsPath = getText(resume, 'save_path');
+            const decodedTorrent = decodeTorrent(entry.torrent);
+            // normalize Windows path
+            const savePath = stripPathRoot(windowsPath);
+            const key = sanitizePath(windowsPath);
+            const downloadPath = getText(resume, 'qBt-downloadPath');
+            const downloadKey = downloadPath
+                ? sanitizePath(downloadPath)
+                : undefined;
+            torrents.push({
+                infohash: entry.infohash,
+                name: decodedTorrent.info.name,
+                key,
+                category:
+                    options.category ?? getText(resume, 'qBt-category') ?? '',
+                torrent: decodedTorrent,
+                mappedFiles: getTextList(resume, 'mapped_files'),
+                downloadKey,
+            });
+            pathMap[key] = {
+                normalizedPath: savePath,
+                windowsPath,
+            };
+            if (downloadKey && !pathMap[downloadKey]) {
+                pathMap[downloadKey] = {
+                    normalizedPath: stripPathRoot(downloadPath),
+                    windowsPath: downloadPath,
+                    downloadOnly: true,
+                };
+            }
+        } catch (error) {
+            console.error('❌ Error decoding fastresume file:', error);
+        }
+    }
+
+    // Map Windows paths to Linux paths, configured mappings take precedence over searching
+    const mappedPath = createPathTranslator(
+        Object.entries(options.pathMappings).map(
+            ([windowsPath, linuxPath]) => ({
+                windowsPath,
+                linuxPath,
+            }),
+        ),
+    );
+
+    // Search each save path on the partition its drive letter is mounted at
+    const volumes = await findWindowsVolumes();
+    const driveMappings = mapDrives(
+        volumes,
+        Object.values(pathMap).map((entry) => entry.windowsPath),
+        { rules: options.driveMappings, sourceDir: WINDOWS_QBIT_DIR },
+    );
+    for (const mapping of driveMappings) {
+        console.log(
+            `💽 ${mapping.letter}:\\ => ${mapping.mountPoint} (${mapping.reason})`,
+        );
+    }
+    const drives = new Map(
+        driveMappings.map((mapping) => [mapping.letter, mapping.mountPoint]),
+    );
+
+    // Network shares are served by the CIFS and NFS mounts of the same share
+    const shareMappings = mapShares(await readMounts(), options.shareMappings);
+    const uncPaths = Object.values(pathMap)
+        .map((entry) => entry.windowsPath)
+        .filter(isUncPath);
+    for (const mapping of shareMappings) {
+        if (
+            uncPaths.some(
+                (windowsPath) =>
+                    findShare(shareMappings, windowsPath)?.mapping === mapping,
+            )
+        ) {
+            console.log(
+                `🌐 ${mapping.share} => ${mapping.mountPoint} (${mapping.reason})`,
+            );
+        }
+    }
+
+    // Renamed files moved outside their save path are looked up through the mappings known so far
+    const translateMovedFile = createPathTranslator([
+        ...Object.entries(options.pathMappings).map(
+            ([windowsPath, linuxPath]) => ({ windowsPath, linuxPath }),
+        ),
+        ...driveMappings.map((mapping) => ({
+            windowsPath: `${mapping.letter}:\\`,
+            linuxPath: mapping.mountPoint,
+        })),
+        ...shareMappings.map((mapping) => ({
+            windowsPath: mapping.share,
+            linuxPath: mapping.mountPoint,
+        })),
+    ]);
+    // Matches on the drive's partition or the share's mount are preferred, then on any of them
+    const preferredRoots = (windowsPath: string): string[] => {
+        if (isUncPath(windowsPath)) {
+            const share = findShare(shareMappings, windowsPath);
+            return share
+                ? [share.mapping.mountPoint]
+                : shareMappings.map((mapping) => mapping.mountPoint);
+        }
+        const mountPoint = drives.get(getDriveLetter(windowsPath));
+        return mountPoint
+            ? [mountPoint]
+            : volumes.map((volume) => volume.mountPoint);
+    };
+    // One walk of the mapped partitions and shares answers every save path
+    const mountRoots = options.searchRoots.length
+        ? options.searchRoots
+        : [
+              ...driveMappings.map((mapping) => mapping.mountPoint),
+              ...volumes.map((volume) => volume.mountPoint),
+              ...shareMappings.map((mapping) => mapping.mountPoint),
+          ];
+    const directoryIndex = mountRoots.length
+        ? createDirectoryIndex(mountRoots)
+        : null;
+    // The whole filesystem is only walked for save paths not found there, unless --search-root limits it
+    const globalIndex = options.searchRoots.length
+        ? null
+        : createDirectoryIndex(['/'], null);
+    const findDirectories = async (
+        normalizedPath: string,
+        preferred: string[],
+    ): Promise<string[]> => {
+        const found =
+            (await directoryIndex?.find(normalizedPath, preferred)) ?? [];
+        return found.length || !globalIndex
+            ? found
+            : globalIndex.find(normalizedPath, preferred);
+    };
+
+    const unresolved: string[] = [];
+    await Promise.all(
+        Object.keys(pathMap).map(async (savePath) => {
+            const override = mappedPath(pathMap[savePath].windowsPath);
+            if (override) {
+                pathMap[savePath].linuxPath = override;
+                pathMap[savePath].candidatePaths = [override];
+                return;
+            }
+
+            const { windowsPath, normalizedPath } = pathMap[savePath];
+            // A share is mounted at its own root, a drive letter at the partition's
+            const share = findShare(shareMappings, windowsPath);
+            const mountPoint = share
+                ? share.mapping.mountPoint
+                : drives.get(getDriveLetter(windowsPath));
+            const relativePath = share ? share.relativePath : normalizedPath;
+            const directPath =
+                mountPoint && resolveFuzzyPath(mountPoint, relativePath);
+            const linuxPaths = directPath
+                ? [directPath]
+                : await findDirectories(
+                      normalizedPath,
+                      preferredRoots(windowsPath),
+                  );
+            pathMap[savePath].candidatePaths = linuxPaths;
+            pathMap[savePath].fuzzyPaths = linuxPaths.filter((linuxPath) =>
+                isFuzzyMatch(
+                    linuxPath,
+                    directPath ? relativePath : normalizedPath,
+                ),
+            );
+            if (!linuxPaths.length && !pathMap[savePath].downloadOnly) {
+                unresolved.push(pathMap[savePath].windowsPath);
+            }
+        }),
+    );
+
+    // Every torrent ranks the candidates with its own files, the save path goes where most of them are
+    for (const key in pathMap) {
+        const group = pathMap[key];
+        const candidatePaths = group.candidatePaths ?? [];
+        if (!candidatePaths.length) continue;
+
+        // No torrent to vote with, an empty download folder is only taken when unambiguous
+        if (group.downloadOnly) {
+            if (candidatePaths.length === 1)
+                group.linuxPath = candidatePaths[0];
+            continue;
+        }
+
+        const groupTorrents = torrents.filter((t) => t.key === key);
+        for (const torrent of groupTorrents) {
+            torrent.candidates = await rankTorrentPaths(
+                torrent.torrent,
+                candidatePaths,
+                {
+                    samplePieces:
+                        candidatePaths.length > 1 ? options.verifyPieces : 0,
+                    mappedFiles: torrent.mappedFiles,
+                    translatePath: translateMovedFile,
+                },
+            );
+        }
+
+        // A single location is kept even when no data was found, it may not be downloaded yet
+        group.linuxPath =
+            candidatePaths.length > 1
+                ? voteBasePath(groupTorrents.map((t) => t.candidates))
+                : candidatePaths[0];
+        if (!group.linuxPath) {
+            unresolved.push(group.windowsPath);
+            continue;
+        }
+        for (const torrent of groupTorrents) {
+            if (isOutlier(torrent.candidates, group.linuxPath)) {
+                torrent.linuxPath = torrent.candidates[0].basePath;
+            }
+        }
+    }
+
+    // Ask about torrents of save paths no location was found for, unless --unresolved decides
+    const unresolvedAction =
+        options.unresolved === 'ask' &&
+        (options.yes || options.dryRun || !isInteractive())
+            ? 'fail'
+            : options.unresolved;
+    if (unresolvedAction !== 'fail' && unresolved.length) {
+        for (const torrent of torrents) {
+            const group = pathMap[torrent.key];
+            if (!unresolved.includes(group.windowsPath)) continue;
+            if (unresolvedAction !== 'ask') {
+                torrent.resolution = { action: unresolvedAction };
+                continue;
+            }
+
+            const unresolvedTorrent = {
+                name: torrent.name,
+                windowsPath: group.windowsPath,
+                torrent: torrent.torrent,
+                mappedFiles: torrent.mappedFiles,
+            };
+            // A location entered for another torrent of the save path is tried before asking again
+            const match =
+                group.linuxPath &&
+                (await validateManualPath(unresolvedTorrent, group.linuxPath));
+            torrent.resolution = match
+                ? { action: 'manual', linuxPath: group.linuxPath, match }
+                : await promptResolution(unresolvedTorrent);
+            if (torrent.resolution.action !== 'manual') continue;
+
+            const { linuxPath } = torrent.resolution;
+            torrent.candidates = torrent.resolution.match
+                ? [torrent.resolution.match]
+                : [];
+            if (!group.linuxPath) {
+                group.linuxPath = linuxPath;
+            } else if (linuxPath !== group.linuxPath) {
+                torrent.linuxPath = linuxPath;
+            }
+        }
+        unresolved.splice(0);
+    }
+
+    for (const key in pathMap) {
+        const { windowsPath, linuxPath, downloadOnly, fuzzyPaths } =
+            pathMap[key];
+        console.log(
+            `Windows path: ${windowsPath}${downloadOnly ? ' (incomplete downloads)' : ''}`,
+        );
+        console.log(
+            `Updated Linux path: ${linuxPath ?? '❓ not found'}${fuzzyPaths?.includes(linuxPath) ? ' (spelled differently)' : ''}\n--------------\n`,
+        );
+    }
+    for (const torrent of torrents) {
+        const group = pathMap[torrent.key];
+        if (torrent.resolution) continue;
+        if (torrent.linuxPath) {
+            console.warn(
+                `⚠️ ${torrent.name}: data found at ${torrent.linuxPath}, mapped apart from ${group.windowsPath}`,
+            );
+        } else if (group.linuxPath && !torrent.candidates?.length) {
+            console.warn(
+                `⚠️ ${torrent.name}: no data found in ${group.linuxPath}`,
+            );
+        }
+    }
+    if (extracted) {
+        console.log(
+            `🧲 ${extracted} torrent(s) without a .torrent file, extracted from their resume data`,
+        );
+    }
+    if (magnets.length) {
+        console.log(
+            `🧲 ${magnets.length} torrent(s) without metadata, migrated as magnet links:`,
+        );
+        magnets.forEach((magnet) => console.log(`   ${magnet.name}`));
+    }
+    const incomplete = torrents.filter((t) => t.downloadKey === t.key);
+    if (incomplete.length) {
+        console.log(
+            `📥 ${incomplete.length} torrent(s) in the incomplete-downloads folder:`,
+        );
+        incomplete.forEach((torrent) => console.log(`   ${torrent.name}`));
+    }
+
+    // New save paths below --relocate, data is only transferred after confirmation
+    if (options.relocate) {
+        const root = path.resolve(options.relocate);
+        for (const torrent of torrents) {
+            const currentPath =
+                torrent.linuxPath ?? pathMap[torrent.key].linuxPath;
+            if (!currentPath || torrent.resolution?.action === 'paused') {
+                continue;
+            }
+            const chosen = torrent.candidates?.find(
+                (candidate) => candidate.basePath === currentPath,
+            );
+            torrent.relocation = planRelocation(
+                currentPath,
+                path.join(
+                    root,
+                    renderLayout(options.layout, {
+                        category: torrent.category,
+                        name: torrent.name,
+                        infohash: torrent.infohash,
+                    }),
+                ),
+                chosen?.matches ?? [],
+            );
+            console.log(
+                `🚚 ${torrent.name} => ${torrent.relocation.savePath} (${torrent.relocation.files.length} files, ${options.relocateMode})`,
+            );
+        }
+    }
+
+    // Resolved save paths first, then whole drives for paths no torrent uses (e.g. the default save path)
+    const pathMappings: PathMapping[] = [
+        ...Object.entries(options.pathMappings).map(
+            ([windowsPath, linuxPath]) => ({ windowsPath, linuxPath }),
+        ),
+        ...Object.values(pathMap)
+            .filter((entry) => entry.linuxPath)
+            .map((entry) => ({
+                windowsPath: entry.windowsPath,
+                linuxPath: entry.linuxPath,
+            })),
+        ...driveMappings.map((mapping) => ({
+            windowsPath: `${mapping.letter}:\\`,
+            linuxPath: mapping.mountPoint,
+        })),
+        ...shareMappings.map((mapping) => ({
+            windowsPath: mapping.share,
+            linuxPath: mapping.mountPoint,
+        })),
+    ];
+    const translatePath = createPathTranslator(pathMappings);
+    // Outliers override their save path, the other mappings still cover their remaining paths
+    const translateTorrentPath = (torrent: MigratingTorrent): PathTranslator =>
+        torrent.linuxPath
+            ? createPathTranslator([
+                  {
+                      windowsPath: pathMap[torrent.key].windowsPath,
+                      linuxPath: torrent.linuxPath,
+                  },
+                  ...pathMappings,
+              ])
+            : translatePath;
+
+    // rewrite save paths, nothing is written until confirmation
+    let rewriteErrors = 0;
+    const untranslatedPaths: string[] = [];
+    const rewriteTracker = createTrackerRewriter(options.trackerRules);
+    let trackerChanges = 0;
+    let trackerTorrents = 0;
+    // Tags, category and tracker URLs, changed the same way for every torrent
+    const relabel = (
+        fastResume: Buffer,
+        torrentFile: Buffer | null,
+    ): { fastResume: Buffer; torrent: Buffer | null } => {
+        if (options.tags.length || options.category !== undefined) {
+            fastResume = labelFastResume(
+                fastResume,
+                options.tags,
+                options.category,
+            );
+        }
+        if (!options.trackerRules.length) {
+            return { fastResume, torrent: torrentFile };
+        }
+
+        // The info dictionary stays as it is, so the infohash does not change
+        const resumeTrackers = rewriteResumeTrackers(
+            fastResume,
+            rewriteTracker,
+        );
+        const torrentTrackers = torrentFile
+            ? rewriteTorrentTrackers(torrentFile, rewriteTracker)
+            : { content: null, changed: 0 };
+        const changed = resumeTrackers.changed + torrentTrackers.changed;
+        trackerChanges += changed;
+        if (changed) trackerTorrents++;
+        return {
+            fastResume: resumeTrackers.content,
+            torrent: torrentTrackers.content,
+        };
+    };
+    const migrated = torrents.flatMap((torrent) => {
+        const { infohash, name } = torrent;
+        const entry = entries.find((e) => e.infohash === infohash);
+        if (torrent.resolution?.action === 'skip') return [];
+        // Stopped torrents keep their Windows paths until their location is set in qBittorrent
+        const paused = torrent.resolution?.action === 'paused';
+        try {
+            const { content, untranslated } = rewriteFastResume(
+                entry.fastResume,
+                paused
+                    ? (windowsPath): string => windowsPath
+                    : translateTorrentPath(torrent),
+            );
+            untranslated.forEach((windowsPath) =>
+                untranslatedPaths.push(`${windowsPath} in ${infohash}`),
+            );
+            let fastResume = paused ? stopFastResume(content) : content;
+            const renames = getFuzzyRenames(
+                torrent,
+                torrent.linuxPath ?? pathMap[torrent.key].linuxPath,
+            );
+            if (renames.size) {
+                console.log(
+                    `📝 ${name}: ${renames.size} file(s) spelled differently on Linux, renamed to match`,
+                );
+                fastResume = renameFiles(fastResume, renames);
+            }
+            return [{ ...entry, name, ...relabel(fastResume, entry.torrent) }];
+        } catch (error) {
+            rewriteErrors++;
+            console.error('❌ Error rewriting fastresume file:', error);
+            return [];
+        }
+    });
+    // Torrents without metadata go through the same mappings as the save paths found
+    const magnetPlans: TorrentPlan[] = [];
+    for (const magnet of magnets) {
+        try {
+            const { content, untranslated } = rewriteFastResume(
+                magnet.fastResume,
+                translatePath,
+            );
+            untranslated.forEach((windowsPath) =>
+                untranslatedPaths.push(`${windowsPath} in ${magnet.infohash}`),
+            );
+            migrated.push({ ...magnet, ...relabel(content, null) });
+            magnetPlans.push(
+                buildTorrentPlan(
+                    {
+                        infohash: magnet.infohash,
+                        name: magnet.name,
+                        oldSavePath:
+                            getText(
+                                decodeFastResume(magnet.fastResume),
+                                'save_path',
+                            ) ?? '',
+                        outlier: false,
+                        incomplete: false,
+                        metadata: false,
+                        resolution: null,
+                        fuzzySavePath: false,
+                    },
+                    untranslated.length
+                        ? null
+                        : (getText(decodeFastResume(content), 'save_path') ??
+                              null),
+                    [],
+                ),
+            );
+        } catch (error) {
+            rewriteErrors++;
+            console.error('❌ Error rewriting fastresume file:', error);
+        }
+    }
+
+    if (options.trackerRules.length) {
+        console.log(
+            `📝 ${trackerChanges} tracker URL(s) rewritten in ${trackerTorrents} torrent(s)`,
+        );
+    }
+
+    // Torrents the Linux client already has
+    let linuxEntries: ResumeEntry[];
+    try {
+        linuxEntries = await targetStore.read();
+    } catch (error) {
+        console.error(`❌ Error reading ${targetStore.location}:`, error);
+        return ExitCode.Error;
+    }
+    // The Web API cannot change a torrent's stats, so torrents it already has stay as they are
+    const conflicts = findConflicts(
+        migrated,
+        linuxEntries,
+        options.webUi ? 'linux' : options.onConflict,
+    );
+    for (const conflict of conflicts) {
+        const changes = conflict.differences.length
+            ? conflict.differences.join(', ')
+            : 'identical';
+        console.log(
+            `🔀 ${conflict.name} is already on Linux (${changes}): ${conflict.action}`,
+        );
+    }
+
+    if (options.plan || options.report) {
+        const plan = buildMigrationPlan(
+            { source: WINDOWS_QBIT_DIR, target: targetStore.location },
+            options,
+            torrents,
+            pathMap,
+            unresolved,
+            conflicts,
+            magnetPlans,
+        );
+        try {
+            await writePlan(plan, { json: options.plan, html: options.report });
+        } catch (error) {
+            console.error('❌ Error writing migration plan:', error);
+            return ExitCode.WriteErrors;
+        }
+    }
+
+    if (unresolved.length) {
+        console.error(
+            `❌ No Linux location found for ${unresolved.length} save path(s):`,
+        );
+        unresolved.forEach((windowsPath) => console.error(`   ${windowsPath}`));
+        console.error(
+            '   Add them to "pathMappings" in a config file, or pass --unresolved skip or paused.',
+        );
+        return ExitCode.UnresolvedPaths;
+    }
+
+    for (const windowsPath of untranslatedPaths) {
+        console.warn(`⚠️ No Linux path for ${windowsPath}`);
+    }
+
+    let settingsFiles: SettingsFile[] = [];
+    if (!options.skipSettings) {
+        if (options.webUi) {
+            console.log(
+                '🤷 Settings are not migrated through the Web API, only torrents.',
+            );
+        } else if (windowsConfigDir) {
+            settingsFiles = await planSettingsMigration(
+                windowsConfigDir,
+                getLinuxConfigDir(LINUX_QBIT_DIR),
+                translatePath,
+            );
+        } else {
+            console.log(
+                '🤷 No Windows qBittorrent.ini found, settings will not be migrated.',
+            );
+        }
+    }
+    for (const file of settingsFiles) {
+        console.log(
+            `⚙️ ${path.basename(file.source)} => ${file.destination} (${file.translated.length} paths translated)`,
+        );
+        for (const windowsPath of file.untranslated) {
+            console.warn(
+                `⚠️ No Linux path for ${windowsPath}, left out of the settings`,
+            );
+        }
+    }
+
+    console.log(`📄 ${migrated.length} torrents will be migrated.`);
+
+    if (options.dryRun) {
+        printResolutions(torrents, pathMap);
+        console.log('🔍 Dry run, nothing was written.');
+        return ExitCode.Success;
+    }
+
+    if (!options.yes) {
+        if (!isInteractive()) {
+            console.error(
+                '❌ No TTY available, pass --yes to migrate without confirmation',
+            );
+            return ExitCode.Error;
+        }
+        const confirm = await promptUserInput('Begin migration? (y/n)');
+        if (!['y', 'yes'].includes(confirm.trim().toLowerCase())) {
+            console.error('❗ Migration cancelled.');
+            return ExitCode.Success;
+        }
+    }
+
+    // Torrents added through the Web API are not files that could be backed up
+    let backup: Backup | null = null;
+    if (LINUX_QBIT_DIR) {
+        try {
+            backup = await createBackup(LINUX_QBIT_DIR);
+            console.log(`🗂️ Backed up Linux BT_backup to: ${backup.dir}`);
+        } catch (error) {
+            console.error('❌ Error backing up Linux BT_backup:', error);
+            return ExitCode.WriteErrors;
+        }
+    }
+
+    // write to the Linux resume data, resolving conflicts with the Linux torrents
+    let writeErrors = rewriteErrors;
+    const linuxResume = new Map(
+        linuxEntries.map((entry) => [
+            entry.infohash.toLowerCase(),
+            entry.fastResume,
+        ]),
+    );
+    const toWrite = migrated.flatMap(({ name, ...entry }) => {
+        const conflict = conflicts.find((c) => c.infohash === entry.infohash);
+        if (conflict?.action === 'keep-linux') return [];
+        if (conflict?.action === 'merge') {
+            try {
+                const merged = mergeFastResume(
+                    entry.fastResume,
+                    linuxResume.get(entry.infohash.toLowerCase()),
+                );
+                return [{ ...entry, fastResume: merged }];
+            } catch (error) {
+                writeErrors++;
+                console.error(`❌ Error merging ${name}:`, error);
+                return [];
+            }
+        }
+        return [entry];
+    });
+    // Torrents whose data could not be relocated keep the location it was found at
+    for (const entry of toWrite) {
+        const torrent = torrents.find((t) => t.infohash === entry.infohash);
+        if (!torrent?.relocation) continue;
+        try {
+            await relocateFiles(
+                torrent.name,
+                torrent.relocation,
+                options.relocateMode,
+                backup,
+            );
+            entry.fastResume = setSavePath(
+                entry.fastResume,
+                torrent.relocation.savePath,
+            );
+        } catch (error) {
+            writeErrors++;
+            console.error(`❌ Error relocating ${torrent.name}:`, error);
+        }
+    }
+    try {
+        const result = await targetStore.write(toWrite, backup);
+        writeErrors += result.errors;
+    } catch (error) {
+        writeErrors += toWrite.length;
+        console.error(`❌ Error writing to ${targetStore.location}:`, error);
+    }
+
+    // merge settings into the Linux config
+    for (const file of settingsFiles) {
+        try {
+            await fs.promises.mkdir(path.dirname(file.destination), {
+                recursive: true,
+            });
+            backup.recordWrite(file.destination);
+            console.log(`⚙️ Writing settings to: ${file.destination}`);
+            await fs.promises.writeFile(file.destination, file.content);
+        } catch (error) {
+            writeErrors++;
+            console.error('❌ Error writing settings file:', error);
+        }
+    }
+
+    if (backup) {
+        console.log(
+            `🗂️ Undo this migration with: npm start -- rollback --backup "${backup.dir}"`,
+        );
+    }
+
+    // Read back what was written the way qBittorrent will load it
+    let verifyFailed = false;
+    if (targetStore.kind !== 'webapi' && toWrite.length) {
+        console.log(`\n🔍 Verifying ${toWrite.length} written torrent(s)`);
+        try {
+            const result = await verifyResumeData(
+                targetStore,
+                toWrite.map((entry) => entry.infohash),
+            );
+            printVerifyResult(result);
+            verifyFailed = result.failed > 0;
+        } catch (error) {
+            verifyFailed = true;
+            console.error('❌ Error verifying resume data:', error);
+        }
+    }
+
+    printResolutions(torrents, pathMap);
+    if (writeErrors) {
+        console.error(
+            `❌ Migration finished with ${writeErrors} write error(s).`,
+        );
+        return ExitCode.WriteErrors;
+    }
+    if (verifyFailed) {
+        console.error(
+            `❌ Migration finished, but the written resume data did not verify.`,
+        );
+        return ExitCode.VerifyFailed;
+    }
+    console.log('✅ Migration complete.');
+    return ExitCode.Success;
+};
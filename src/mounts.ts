@@ -0,0 +1,318 @@
+import fs from 'fs';
+import path from 'path';
+import { resolveFuzzyPath } from './fuzzyPath.js';
+import {
+    isUncPath,
+    normalizeWindowsPath,
+    stripLongPathPrefix,
+} from './paths.js';
+
+const PROC_MOUNTS = '/proc/mounts';
+const DISK_BY_LABEL = '/dev/disk/by-label';
+const DISK_BY_UUID = '/dev/disk/by-uuid';
+
+// ntfs-3g mounts show up as fuseblk
+const WINDOWS_FS_TYPES = ['ntfs', 'ntfs3', 'fuseblk', 'exfat'];
+
+const NETWORK_FS_TYPES = ['cifs', 'smb3', 'nfs', 'nfs4'];
+
+export interface Mount {
+    device: string;
+    mountPoint: string;
+    fsType: string;
+}
+
+export interface WindowsVolume extends Mount {
+    label?: string;
+    uuid?: string;
+}
+
+export interface DriveMapping {
+    // Upper case, without colon
+    letter: string;
+    mountPoint: string;
+    // How the mapping was decided, shown to the user
+    reason: string;
+}
+
+export interface ShareMapping {
+    // \\server\share, possibly with a directory below the share
+    share: string;
+    mountPoint: string;
+    // How the mapping was decided, shown to the user
+    reason: string;
+}
+
+// /proc/mounts escapes spaces, tabs, newlines and backslashes as octal
+const unescapeMountField = (field: string): string =>
+    field.replace(/\\([0-7]{3})/g, (_, octal) =>
+        String.fromCharCode(parseInt(octal, 8)),
+    );
+
+// udev escapes unsafe label characters as \xHH
+const unescapeUdevName = (name: string): string =>
+    name.replace(/\\x([0-9a-f]{2})/gi, (_, hex) =>
+        String.fromCharCode(parseInt(hex, 16)),
+    );
+
+export const readMounts = async (file = PROC_MOUNTS): Promise<Mount[]> => {
+    try {
+        const content = await fs.promises.readFile(file, 'utf-8');
+        return content
+            .split('\n')
+            .filter(Boolean)
+            .map((line) => {
+                const [device, mountPoint, fsType] = line.split(' ');
+                return {
+                    device: unescapeMountField(device),
+                    mountPoint: unescapeMountField(mountPoint),
+                    fsType,
+                };
+            });
+    } catch {
+        return [];
+    }
+};
+
+// Resolved device path => udev name, for /dev/disk/by-label and by-uuid
+const readDiskLinks = async (dir: string): Promise<Map<string, string>> => {
+    const links = new Map<string, string>();
+    try {
+        for (const entry of await fs.promises.readdir(dir)) {
+            try {
+                const device = await fs.promises.realpath(
+                    path.join(dir, entry),
+                );
+                links.set(device, unescapeUdevName(entry));
+            } catch {
+                continue;
+            }
+        }
+    } catch {
+        // no udev, e.g. inside a container
+    }
+    return links;
+};
+
+/**
+ * Lists mounted NTFS and exFAT partitions with their volume labels
+ */
+export const findWindowsVolumes = async (): Promise<WindowsVolume[]> => {
+    const [mounts, labels, uuids] = await Promise.all([
+        readMounts(),
+        readDiskLinks(DISK_BY_LABEL),
+        readDiskLinks(DISK_BY_UUID),
+    ]);
+
+    const volumes: WindowsVolume[] = [];
+    for (const mount of mounts) {
+        if (!WINDOWS_FS_TYPES.includes(mount.fsType)) continue;
+
+        let device = mount.device;
+        try {
+            device = await fs.promises.realpath(mount.device);
+        } catch {
+            // keep the device as listed
+        }
+        volumes.push({
+            ...mount,
+            label: labels.get(device),
+            uuid: uuids.get(device),
+        });
+    }
+    return volumes;
+};
+
+// Drive letter in a volume label or mount point name: "D", "Data (D:)", "D_Drive", "/mnt/d"
+const letterFromName = (name: string | undefined): string | null => {
+    if (!name) return null;
+    const match =
+        name.match(/^([A-Z]):?$/i) ??
+        name.match(/\(([A-Z]):?\)/i) ??
+        name.match(/^([A-Z])[ _-]?drive$/i) ??
+        name.match(/^(?:local )?disk \(?([A-Z]):?\)?$/i);
+    return match ? match[1].toUpperCase() : null;
+};
+
+export const parseDriveLetter = (str: string): string | null => {
+    const match = str.trim().match(/^([A-Z])(?::[\\/]?)?$/i);
+    return match ? match[1].toUpperCase() : null;
+};
+
+export const getDriveLetter = (windowsPath: string): string | null => {
+    const match = stripLongPathPrefix(windowsPath).match(/^([A-Z]):/i);
+    return match ? match[1].toUpperCase() : null;
+};
+
+// Windows path without drive letter, in forward-slash form
+export const stripDriveLetter = (windowsPath: string): string =>
+    stripLongPathPrefix(windowsPath)
+        .replace(/^[A-Z]:[\\/]*/i, '')
+        .replace(/[\\/]+$/, '')
+        .replace(/\\/g, '/');
+
+// C:\Users\<name>\..., relative to the volume's mount point
+const USER_PROFILE = /^(?:Users|Documents and Settings)\/[^/]+\//i;
+
+const isInside = (dir: string, mountPoint: string): boolean => {
+    const relative = path.relative(mountPoint, dir);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+};
+
+/**
+ * Maps Windows drive letters to mount points. In order of precedence:
+ * user rules, the volume label or mount point name, the volume holding a
+ * user profile with the Windows qBittorrent directory (C:), and finally the
+ * one volume that contains the save paths of that drive.
+ */
+export const mapDrives = (
+    volumes: WindowsVolume[],
+    savePaths: string[],
+    hints: { rules?: Record<string, string>; sourceDir?: string } = {},
+): DriveMapping[] => {
+    const mappings = new Map<string, DriveMapping>();
+    const assign = (
+        letter: string,
+        mountPoint: string,
+        reason: string,
+    ): void => {
+        if (!mappings.has(letter)) {
+            mappings.set(letter, { letter, mountPoint, reason });
+        }
+    };
+
+    for (const [drive, mountPoint] of Object.entries(hints.rules ?? {})) {
+        const letter = parseDriveLetter(drive);
+        if (letter) assign(letter, mountPoint, 'rule');
+    }
+
+    for (const volume of volumes) {
+        const letter = letterFromName(volume.label);
+        if (letter) {
+            assign(letter, volume.mountPoint, `label "${volume.label}"`);
+        }
+    }
+    for (const volume of volumes) {
+        const letter = letterFromName(path.basename(volume.mountPoint));
+        if (letter) assign(letter, volume.mountPoint, 'mount point name');
+    }
+
+    // A qBittorrent directory inside a user profile is on the system drive, a portable one could be anywhere
+    const taken = new Set([...mappings.values()].map((m) => m.mountPoint));
+    const sourceDir = hints.sourceDir && path.resolve(hints.sourceDir);
+    const systemVolume =
+        sourceDir &&
+        volumes
+            .filter((volume) => isInside(sourceDir, volume.mountPoint))
+            .sort((a, b) => b.mountPoint.length - a.mountPoint.length)[0];
+    if (
+        systemVolume &&
+        !taken.has(systemVolume.mountPoint) &&
+        USER_PROFILE.test(path.relative(systemVolume.mountPoint, sourceDir))
+    ) {
+        assign('C', systemVolume.mountPoint, 'holds the qBittorrent profile');
+        taken.add(systemVolume.mountPoint);
+    }
+
+    // Letters still unmapped: pick the volume if it is the only one holding their save paths
+    const byLetter = new Map<string, string[]>();
+    for (const savePath of savePaths) {
+        const letter = getDriveLetter(savePath);
+        if (!letter || mappings.has(letter)) continue;
+        byLetter.set(letter, [
+            ...(byLetter.get(letter) ?? []),
+            stripDriveLetter(savePath),
+        ]);
+    }
+    for (const [letter, relativePaths] of byLetter) {
+        const holders = volumes.filter(
+            (volume) =>
+                !taken.has(volume.mountPoint) &&
+                relativePaths.some((relativePath) =>
+                    resolveFuzzyPath(volume.mountPoint, relativePath),
+                ),
+        );
+        if (holders.length === 1) {
+            assign(letter, holders[0].mountPoint, 'contains its save paths');
+            taken.add(holders[0].mountPoint);
+        }
+    }
+
+    return [...mappings.values()].sort((a, b) =>
+        a.letter.localeCompare(b.letter),
+    );
+};
+
+// Share a network mount serves as seen from Windows: //nas/media for CIFS, nas:/volume1/media for NFS
+const shareFromDevice = (mount: Mount): string | null => {
+    const match = mount.fsType.startsWith('nfs')
+        ? mount.device.match(/^([^:/]+):\/*(.+)$/)
+        : mount.device.match(/^\/\/([^/]+)\/+(.+)$/);
+    if (!match) return null;
+    const share = match[2].replace(/\/+$/, '');
+    return share ? `\\\\${match[1]}\\${share.replace(/\//g, '\\')}` : null;
+};
+
+/**
+ * Maps UNC shares to the CIFS and NFS mounts serving them, user rules first.
+ * Each share may appear once; the first mount of it wins.
+ */
+export const mapShares = (
+    mounts: Mount[],
+    rules: Record<string, string> = {},
+): ShareMapping[] => {
+    const mappings = new Map<string, ShareMapping>();
+    const assign = (
+        share: string,
+        mountPoint: string,
+        reason: string,
+    ): void => {
+        const key = normalizeWindowsPath(share);
+        if (!mappings.has(key)) {
+            mappings.set(key, { share, mountPoint, reason });
+        }
+    };
+
+    for (const [share, mountPoint] of Object.entries(rules)) {
+        assign(stripLongPathPrefix(share), mountPoint, 'rule');
+    }
+    for (const mount of mounts) {
+        if (!NETWORK_FS_TYPES.includes(mount.fsType)) continue;
+        const share = shareFromDevice(mount);
+        if (share) assign(share, mount.mountPoint, `${mount.fsType} mount`);
+    }
+    return [...mappings.values()];
+};
+
+/**
+ * The mount serving a UNC path through the longest matching share, and the path below it
+ */
+export const findShare = (
+    shares: ShareMapping[],
+    windowsPath: string,
+): { mapping: ShareMapping; relativePath: string } | null => {
+    if (!isUncPath(windowsPath)) return null;
+    const normalized = normalizeWindowsPath(windowsPath);
+    const mapping = shares
+        .filter((share) => {
+            const prefix = normalizeWindowsPath(share.share);
+            return normalized === prefix || normalized.startsWith(`${prefix}/`);
+        })
+        .sort((a, b) => b.share.length - a.share.length)[0];
+    if (!mapping) return null;
+    return {
+        mapping,
+        relativePath: stripLongPathPrefix(windowsPath)
+            .replace(/\\/g, '/')
+            .replace(/\/+$/, '')
+            .slice(normalizeWindowsPath(mapping.share).length)
+            .replace(/^\/+/, ''),
+    };
+};
+
+// UNC path without its server, e.g. media/tv for \\nas\media\tv, to search for the share's mount
+export const stripServer = (windowsPath: string): string =>
+    stripLongPathPrefix(windowsPath)
+        .replace(/^[\\/]{2}[^\\/]+[\\/]+/, '')
+        .replace(/[\\/]+$/, '')
+        .replace(/\\/g, '/');
@@ -0,0 +1,495 @@
+import fs from 'fs';
+import path from 'path';
+import {
+    ExpectedFile,
+    TorrentData,
+    getContentFiles,
+    getExpectedFiles,
+    getMappedFiles,
+    isSingleFileTorrent,
+} from './torrent.js';
+import { DEFAULT_SAMPLE_PIECES, verifyPieces } from './pieceVerifier.js';
+import { PathTranslator, isWindowsAbsolutePath } from './paths.js';
+import { isFuzzyMatch, resolveFuzzyPath } from './fuzzyPath.js';
+
+export interface FileMatch {
+    expectedPath: string;
+    actualPath: string;
+    exists: boolean;
+    expectedSize: number;
+    actualSize: number;
+    sizeMatch: boolean;
+    // Found under a name that differs in case, reserved characters or Unicode form
+    fuzzy: boolean;
+}
+
+export interface PathMatchResult {
+    basePath: string;
+    confidence: number;
+    matches: FileMatch[];
+    totalFiles: number;
+    existingFiles: number;
+    verifiedPieceRatio?: number;
+    debug: string[];
+}
+
+export interface MatchOptions {
+    // Number of pieces to hash per candidate, 0 disables piece verification
+    samplePieces?: number;
+    // mapped_files of the fastresume, for torrents with renamed files
+    mappedFiles?: string[];
+    // Translates mapped_files entries that were moved outside the save path
+    translatePath?: PathTranslator;
+}
+
+/**
+ * Finds the correct file path for a torrent by validating file structure
+ */
+export async function findCorrectTorrentPath(
+    torrentData: TorrentData,
+    filePaths: string[],
+    options: MatchOptions = {},
+): Promise<PathMatchResult | null> {
+    const [best] = await rankTorrentPaths(torrentData, filePaths, options);
+    return best ?? null;
+}
+
+/**
+ * Validates every possible path for a torrent and returns the candidates, best first.
+ * Duplicate locations with identical sizes are told apart by hashing sampled pieces.
+ */
+export async function rankTorrentPaths(
+    torrentData: TorrentData,
+    filePaths: string[],
+    options: MatchOptions = {},
+): Promise<PathMatchResult[]> {
+    const { samplePieces = DEFAULT_SAMPLE_PIECES, mappedFiles } = options;
+    const debug: string[] = [];
+    debug.push(`Starting analysis with ${filePaths.length} possible paths`);
+
+    const torrentName = torrentData.info.name;
+    const isSingleFile = isSingleFileTorrent(torrentData);
+
+    debug.push(`Torrent name: "${torrentName}"`);
+    debug.push(`Is single file: ${isSingleFile}`);
+
+    // Get expected files structure from torrent
+    const expectedFiles = getExpectedFiles(torrentData);
+    debug.push(`Expected files count: ${expectedFiles.length}`);
+    expectedFiles.slice(0, 3).forEach((file, i) => {
+        debug.push(`Expected file ${i}: ${file.path} (${file.size} bytes)`);
+    });
+
+    // Renamed files pin the layout below the save path, so there is only one structure to test
+    // Files moved outside the save path are checked at their translated location, whatever the base path
+    const renamedFiles = mappedFiles?.some(Boolean)
+        ? getMappedFiles(torrentData, mappedFiles).flatMap((file) => {
+              if (!isWindowsAbsolutePath(file.path)) return [file];
+              const linuxPath = options.translatePath?.(file.path);
+              if (!linuxPath) {
+                  debug.push(`No Linux path for moved file ${file.path}`);
+                  return [];
+              }
+              return [{ ...file, path: linuxPath }];
+          })
+        : null;
+    if (renamedFiles) {
+        debug.push(`Using ${renamedFiles.length} files from mapped_files`);
+    }
+
+    const candidates: PathMatchResult[] = [];
+
+    // Test each possible base path
+    for (let i = 0; i < filePaths.length; i++) {
+        const basePath = filePaths[i];
+        debug.push(`\n--- Testing path ${i + 1}: "${basePath}" ---`);
+
+        if (!fs.existsSync(basePath)) {
+            debug.push(`Path does not exist, skipping`);
+            continue;
+        }
+
+        const stat = fs.statSync(basePath);
+        debug.push(
+            `Path exists, is directory: ${stat.isDirectory()}, is file: ${stat.isFile()}`,
+        );
+
+        if (renamedFiles) {
+            const result = validateMultiFileStructure(
+                basePath,
+                renamedFiles,
+                debug,
+            );
+            if (result && result.confidence > 0) {
+                candidates.push({ ...result, basePath, debug: [...debug] });
+            }
+            continue;
+        }
+
+        // For single-file torrents
+        if (isSingleFile) {
+            debug.push(`Checking as single-file torrent`);
+
+            // Check if basePath is the file directly
+            if (stat.isFile()) {
+                const result = validateSingleFile(
+                    basePath,
+                    expectedFiles[0],
+                    debug,
+                );
+                if (result) {
+                    candidates.push({
+                        basePath: basePath,
+                        confidence: result.confidence,
+                        matches: [result.match],
+                        totalFiles: 1,
+                        existingFiles: result.match.exists ? 1 : 0,
+                        debug: [...debug],
+                    });
+                }
+            }
+
+            // Check if basePath contains the file
+            if (stat.isDirectory()) {
+                const filePath =
+                    resolveFuzzyPath(basePath, torrentName) ??
+                    path.join(basePath, torrentName);
+                debug.push(`Checking for file at: "${filePath}"`);
+                if (fs.existsSync(filePath)) {
+                    const result = validateSingleFile(
+                        filePath,
+                        expectedFiles[0],
+                        debug,
+                    );
+                    if (result) {
+                        candidates.push({
+                            basePath: basePath,
+                            confidence: result.confidence,
+                            matches: [result.match],
+                            totalFiles: 1,
+                            existingFiles: result.match.exists ? 1 : 0,
+                            debug: [...debug],
+                        });
+                    }
+                } else {
+                    debug.push(`File not found at expected location`);
+                }
+            }
+            continue;
+        }
+
+        // For multi-file torrents, basePath should be a directory
+        if (!stat.isDirectory()) {
+            debug.push(`Not a directory, skipping for multi-file torrent`);
+            continue;
+        }
+
+        // Test different possible structures:
+        // 1. basePath/torrentName/ (torrent name as root folder)
+        // 2. basePath/ (files directly in basePath)
+        const rootPath = path.join(basePath, torrentName);
+        const pathsToTest = [
+            {
+                testPath: resolveFuzzyPath(basePath, torrentName) ?? rootPath,
+                description: 'with torrent name folder',
+            },
+            { testPath: basePath, description: 'direct in base path' },
+        ];
+
+        for (const { testPath, description } of pathsToTest) {
+            debug.push(
+                `Testing multi-file structure: ${description} at "${testPath}"`,
+            );
+            const result = validateMultiFileStructure(
+                testPath,
+                expectedFiles,
+                debug,
+            );
+            if (result && result.confidence > 0) {
+                debug.push(
+                    `Found candidate with confidence: ${result.confidence}`,
+                );
+                // The root folder itself was found under a different spelling
+                if (testPath !== rootPath && testPath !== basePath) {
+                    result.matches.forEach((match) => {
+                        match.fuzzy ||= match.exists;
+                    });
+                }
+                candidates.push({
+                    ...result,
+                    basePath: basePath,
+                    debug: [...debug],
+                });
+            }
+        }
+    }
+
+    // v2-only torrents have no v1 piece hashes to sample
+    if (samplePieces > 0 && torrentData.info.pieces) {
+        const contentFiles = getContentFiles(torrentData);
+        for (const candidate of candidates) {
+            // Pad files are not on disk, they sit between the matched files in piece order
+            const matches = [...candidate.matches];
+            const verification = await verifyPieces(
+                torrentData,
+                contentFiles.map((file) => {
+                    if (file.padding) {
+                        return {
+                            actualPath: null,
+                            size: file.size,
+                            padding: true,
+                        };
+                    }
+                    const match = matches.shift();
+                    return {
+                        actualPath: match?.exists ? match.actualPath : null,
+                        size: file.size,
+                    };
+                }),
+                samplePieces,
+            );
+            // A candidate whose pieces all fail keeps half of its size-based confidence
+            candidate.verifiedPieceRatio = verification.ratio;
+            candidate.confidence *= 0.5 + 0.5 * verification.ratio;
+            debug.push(
+                `Verified ${verification.verifiedPieces}/${verification.checkedPieces} pieces at ${candidate.basePath}`,
+            );
+        }
+    }
+
+    debug.push(`\nFound ${candidates.length} candidates`);
+    candidates.forEach((candidate, i) => {
+        debug.push(
+            `Candidate ${i + 1}: ${candidate.basePath} (confidence: ${candidate.confidence})`,
+        );
+    });
+
+    // Stable sort, so the first of equally good candidates wins
+    candidates.sort((a, b) => b.confidence - a.confidence);
+    if (candidates.length) {
+        debug.push(
+            `\nSelected best match: ${candidates[0].basePath} with confidence ${candidates[0].confidence}`,
+        );
+    }
+
+    return candidates;
+}
+
+/**
+ * Picks the location most torrents of a save path were found at, given each torrent's
+ * ranking from `rankTorrentPaths`. Ties go to the higher total confidence.
+ */
+export function voteBasePath(rankings: PathMatchResult[][]): string | null {
+    const votes = new Map<string, { count: number; confidence: number }>();
+    for (const [best] of rankings) {
+        if (!best) continue;
+        const vote = votes.get(best.basePath) ?? { count: 0, confidence: 0 };
+        vote.count++;
+        vote.confidence += best.confidence;
+        votes.set(best.basePath, vote);
+    }
+
+    let winner: string | null = null;
+    let winnerVote = { count: 0, confidence: 0 };
+    for (const [basePath, vote] of votes) {
+        if (
+            vote.count > winnerVote.count ||
+            (vote.count === winnerVote.count &&
+                vote.confidence > winnerVote.confidence)
+        ) {
+            winner = basePath;
+            winnerVote = vote;
+        }
+    }
+    return winner;
+}
+
+// Whether a torrent's data was found somewhere else than the location chosen for its save path
+export function isOutlier(
+    candidates: PathMatchResult[],
+    groupPath: string,
+): boolean {
+    const [best] = candidates;
+    if (!best || best.basePath === groupPath) return false;
+    const atGroupPath = candidates.find(
+        (candidate) => candidate.basePath === groupPath,
+    );
+    return !atGroupPath || atGroupPath.confidence < best.confidence;
+}
+
+export function validateSingleFile(
+    filePath: string,
+    expectedFile: ExpectedFile,
+    debug: string[],
+): { confidence: number; match: FileMatch } | null {
+    try {
+        debug.push(`Validating single file: "${filePath}"`);
+        const stat = fs.statSync(filePath);
+        const actualSize = stat.size;
+        const expectedSize = expectedFile.size;
+
+        debug.push(
+            `File exists - Expected size: ${expectedSize}, Actual size: ${actualSize}`,
+        );
+
+        const match: FileMatch = {
+            expectedPath: expectedFile.path,
+            actualPath: filePath,
+            exists: true,
+            expectedSize,
+            actualSize,
+            sizeMatch: actualSize === expectedSize,
+            fuzzy: isFuzzyMatch(filePath, expectedFile.path),
+        };
+
+        // Calculate confidence
+        let confidence = 0.7; // Base confidence for existing file
+
+        if (match.sizeMatch) {
+            confidence = 1.0; // Perfect match
+            debug.push(`Perfect size match - confidence: ${confidence}`);
+        } else if (actualSize < expectedSize && actualSize > 0) {
+            // Incomplete file - still likely correct
+            const completionRatio = actualSize / expectedSize;
+            confidence = 0.5 + completionRatio * 0.3; // 0.5-0.8 range
+            debug.push(
+                `Incomplete file (${(completionRatio * 100).toFixed(1)}% complete) - confidence: ${confidence}`,
+            );
+        } else {
+            confidence = 0.2; // File exists but size is wrong
+            debug.push(`Size mismatch - confidence: ${confidence}`);
+        }
+
+        return { confidence, match };
+    } catch (error) {
+        debug.push(`Error validating single file: ${error}`);
+        return null;
+    }
+}
+
+export function validateMultiFileStructure(
+    basePath: string,
+    expectedFiles: ExpectedFile[],
+    debug: string[],
+): PathMatchResult | null {
+    debug.push(`Validating multi-file structure at: "${basePath}"`);
+
+    if (!fs.existsSync(basePath)) {
+        debug.push(`Base path does not exist`);
+        return null;
+    }
+
+    if (!fs.statSync(basePath).isDirectory()) {
+        debug.push(`Base path is not a directory`);
+        return null;
+    }
+
+    const matches: FileMatch[] = [];
+    let existingFiles = 0;
+    let perfectMatches = 0;
+
+    // Check first few files to avoid too much logging
+    const filesToCheck = Math.min(expectedFiles.length, 10);
+    debug.push(
+        `Checking first ${filesToCheck} files out of ${expectedFiles.length} total`,
+    );
+
+    for (let i = 0; i < expectedFiles.length; i++) {
+        const expectedFile = expectedFiles[i];
+        // Absolute paths are files moved outside the base path
+        const fullPath = path.resolve(basePath, expectedFile.path);
+        // Windows names are case-insensitive, and the Linux NTFS drivers remap some characters
+        const actualPath = fs.existsSync(fullPath)
+            ? fullPath
+            : (resolveFuzzyPath(
+                  path.isAbsolute(expectedFile.path) ? '/' : basePath,
+                  expectedFile.path,
+              ) ?? fullPath);
+
+        if (i < 5) {
+            // Only log first 5 files to avoid spam
+            debug.push(
+                `Checking file: "${expectedFile.path}" at "${fullPath}"`,
+            );
+        }
+
+        try {
+            const stat = fs.statSync(actualPath);
+            const actualSize = stat.size;
+            const sizeMatch = actualSize === expectedFile.size;
+
+            matches.push({
+                expectedPath: expectedFile.path,
+                actualPath,
+                exists: true,
+                expectedSize: expectedFile.size,
+                actualSize,
+                sizeMatch,
+                fuzzy: actualPath !== fullPath,
+            });
+
+            existingFiles++;
+            if (sizeMatch) perfectMatches++;
+
+            if (i < 5) {
+                debug.push(
+                    `File exists - Expected: ${expectedFile.size}, Actual: ${actualSize}, Match: ${sizeMatch}`,
+                );
+            }
+        } catch {
+            matches.push({
+                expectedPath: expectedFile.path,
+                actualPath: fullPath,
+                exists: false,
+                expectedSize: expectedFile.size,
+                actualSize: 0,
+                sizeMatch: false,
+                fuzzy: false,
+            });
+
+            if (i < 5) {
+                debug.push(`File does not exist`);
+            }
+        }
+    }
+
+    debug.push(
+        `Results: ${existingFiles}/${expectedFiles.length} files exist, ${perfectMatches} perfect matches`,
+    );
+
+    // Calculate confidence score
+    const totalFiles = expectedFiles.length;
+    const existenceRatio = existingFiles / totalFiles;
+    const perfectMatchRatio =
+        existingFiles > 0 ? perfectMatches / existingFiles : 0;
+
+    // More lenient confidence calculation
+    let confidence = 0;
+
+    if (existingFiles > 0) {
+        confidence = existenceRatio * 0.7 + perfectMatchRatio * 0.3;
+
+        // Bonus for having most files
+        if (existenceRatio > 0.8) {
+            confidence += 0.1;
+        }
+
+        // Even if files don't match perfectly, if most exist, give reasonable confidence
+        if (existenceRatio > 0.5) {
+            confidence = Math.max(confidence, 0.6);
+        }
+    }
+
+    debug.push(
+        `Calculated confidence: ${confidence} (existence: ${existenceRatio}, perfect: ${perfectMatchRatio})`,
+    );
+
+    return {
+        basePath,
+        confidence,
+        matches,
+        totalFiles,
+        existingFiles,
+        debug: [],
+    };
+}
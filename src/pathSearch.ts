@@ -0,0 +1,256 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { foldName, foldPath } from './fuzzyPath.js';
+
+const INDEX_TIMEOUT_MS = 150000;
+// Directories read at the same time while indexing
+const INDEX_CONCURRENCY = 16;
+const CACHE_VERSION = 1;
+
+// Only skipped when indexing the whole filesystem, mounted drives often live below /run or /tmp
+const SYSTEM_IGNORE = [
+    'proc',
+    'sys',
+    'dev',
+    'run',
+    'var/lib',
+    'snap',
+
+    // Temporary and cache
+    'tmp',
+    'var/tmp',
+    'var/cache',
+    'var/log',
+];
+
+const CONTENT_IGNORE = [
+    '.cache',
+
+    // Development
+    'node_modules',
+    '.git',
+    'build',
+    'dist',
+    '__pycache__',
+    'venv',
+    'vendor',
+
+    // Recovery/system
+    'lost+found',
+    'var/crash',
+    '$RECYCLE.BIN',
+    'System Volume Information',
+];
+
+// Directory => its mtime and the names of its subdirectories
+type IndexCache = Record<string, [mtimeMs: number, subdirs: string[]]>;
+
+export interface DirectoryIndex {
+    /**
+     * Directories whose path ends with `relativePath`, e.g. `Games/Steam`, or ends with it
+     * spelled differently (see `foldName`) when no path matches exactly.
+     * Matches below `preferredRoots` are returned when there are any, otherwise all of them.
+     */
+    find: (
+        relativePath: string,
+        preferredRoots?: string[],
+    ) => Promise<string[]>;
+}
+
+export const DEFAULT_INDEX_CACHE = path.join(
+    process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache'),
+    'qbittorrent-migrator',
+    'directory-index.json',
+);
+
+const isInside = (dir: string, root: string): boolean =>
+    root === '/' || dir === root || dir.startsWith(`${root}/`);
+
+// Ignore entries name one directory, or the last segments of its path
+const isIgnored = (dir: string, ignore: string[]): boolean =>
+    ignore.some(
+        (pattern) =>
+            path.basename(dir) === pattern || dir.endsWith(`/${pattern}`),
+    );
+
+const loadCache = async (cacheFile: string | null): Promise<IndexCache> => {
+    if (!cacheFile) return {};
+    try {
+        const content = JSON.parse(
+            await fs.promises.readFile(cacheFile, 'utf-8'),
+        );
+        return content.version === CACHE_VERSION ? content.dirs : {};
+    } catch {
+        return {};
+    }
+};
+
+const saveCache = async (
+    cacheFile: string | null,
+    dirs: IndexCache,
+): Promise<void> => {
+    if (!cacheFile) return;
+    try {
+        await fs.promises.mkdir(path.dirname(cacheFile), { recursive: true });
+        await fs.promises.writeFile(
+            cacheFile,
+            JSON.stringify({ version: CACHE_VERSION, dirs }),
+        );
+    } catch (error) {
+        console.warn(`⚠️ Could not save the directory index: ${error}`);
+    }
+};
+
+/**
+ * Walks every directory below `roots` once, reusing the cached subdirectories of
+ * directories whose mtime has not changed, and returns folded basename => full paths.
+ */
+const buildIndex = async (
+    roots: string[],
+    cacheFile: string | null,
+): Promise<Map<string, string[]>> => {
+    const started = Date.now();
+    const cache = await loadCache(cacheFile);
+    const visited: IndexCache = {};
+    const byName = new Map<string, string[]>();
+    let fromCache = 0;
+    let timedOut = false;
+
+    const add = (dir: string): void => {
+        const name = foldName(path.basename(dir));
+        const paths = byName.get(name);
+        if (paths) paths.push(dir);
+        else byName.set(name, [dir]);
+    };
+
+    const readSubdirs = async (dir: string): Promise<string[]> => {
+        const { mtimeMs } = await fs.promises.stat(dir);
+        const cached = cache[dir];
+        if (cached && cached[0] === mtimeMs) {
+            fromCache++;
+            visited[dir] = cached;
+            return cached[1];
+        }
+        const subdirs = (
+            await fs.promises.readdir(dir, { withFileTypes: true })
+        )
+            .filter((entry) => entry.isDirectory())
+            .map((entry) => entry.name);
+        visited[dir] = [mtimeMs, subdirs];
+        return subdirs;
+    };
+
+    // Level by level, a batch of directories at a time. Nested roots are walked
+    // on their own, with their own ignore list
+    let level = roots.map((root) => ({ dir: root, root }));
+    while (level.length) {
+        if (Date.now() - started > INDEX_TIMEOUT_MS) {
+            timedOut = true;
+            break;
+        }
+        const next: typeof level = [];
+        for (let i = 0; i < level.length; i += INDEX_CONCURRENCY) {
+            await Promise.all(
+                level
+                    .slice(i, i + INDEX_CONCURRENCY)
+                    .map(async ({ dir, root }) => {
+                        let subdirs: string[];
+                        try {
+                            subdirs = await readSubdirs(dir);
+                        } catch {
+                            // Unreadable or vanished directories are left out
+                            return;
+                        }
+                        const ignore =
+                            root === '/'
+                                ? [...SYSTEM_IGNORE, ...CONTENT_IGNORE]
+                                : CONTENT_IGNORE;
+                        for (const name of subdirs) {
+                            const subdir = path.join(dir, name);
+                            if (roots.includes(subdir)) continue;
+                            add(subdir);
+                            if (!isIgnored(subdir, ignore)) {
+                                next.push({ dir: subdir, root });
+                            }
+                        }
+                    }),
+            );
+        }
+        level = next;
+    }
+    roots.forEach(add);
+
+    if (timedOut) {
+        console.warn(
+            `⚠️ Indexing stopped after ${INDEX_TIMEOUT_MS / 1000}s, some directories were not searched`,
+        );
+    }
+    const count = Object.keys(visited).length;
+    console.log(
+        `🔍 Indexed ${count} directories in ${((Date.now() - started) / 1000).toFixed(1)}s (${fromCache} unchanged since the last run)`,
+    );
+
+    // Entries below other roots stay cached for runs that search them
+    await saveCache(cacheFile, {
+        ...Object.fromEntries(
+            Object.entries(cache).filter(
+                ([dir]) => !roots.some((root) => isInside(dir, root)),
+            ),
+        ),
+        ...visited,
+    });
+    return byName;
+};
+
+/**
+ * One index of the directories below `roots`, built on the first lookup and shared by all of them.
+ * Pass a null `cacheFile` to always walk the filesystem.
+ */
+export const createDirectoryIndex = (
+    roots: string[],
+    cacheFile: string | null = DEFAULT_INDEX_CACHE,
+): DirectoryIndex => {
+    const resolvedRoots = [...new Set(roots.map((root) => path.resolve(root)))];
+    let index: Promise<Map<string, string[]>> | null = null;
+
+    return {
+        find: async (
+            relativePath: string,
+            preferredRoots: string[] = [],
+        ): Promise<string[]> => {
+            const segments = relativePath.split('/').filter(Boolean);
+            if (!segments.length) return [];
+
+            if (!index) {
+                console.log(
+                    `🔍 Indexing directories below: ${resolvedRoots.join(', ')}`,
+                );
+                index = buildIndex(resolvedRoots, cacheFile);
+            }
+            const suffix = `/${segments.join('/')}`;
+            const sameName = (await index).get(foldName(segments.at(-1))) ?? [];
+            let matches = sameName.filter((dir) => dir.endsWith(suffix));
+            if (!matches.length) {
+                const foldedSuffix = foldPath(suffix);
+                matches = sameName.filter((dir) =>
+                    foldPath(dir).endsWith(foldedSuffix),
+                );
+            }
+            // A match inside another match is the same folder name repeated further down
+            const outermost = matches.filter(
+                (dir) =>
+                    !matches.some(
+                        (other) => other !== dir && dir.startsWith(`${other}/`),
+                    ),
+            );
+
+            const preferred = outermost.filter((dir) =>
+                preferredRoots.some((root) =>
+                    isInside(dir, path.resolve(root)),
+                ),
+            );
+            return preferred.length ? preferred : outermost;
+        },
+    };
+};
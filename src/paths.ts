@@ -0,0 +1,107 @@
+export interface PathMapping {
+    windowsPath: string;
+    linuxPath: string;
+}
+
+export type PathTranslator = (windowsPath: string) => string | null;
+
+const WINDOWS_ABSOLUTE_PATH = /^[A-Z]:[\\/]/i;
+
+// \\server\share, qBittorrent also writes it as //server/share
+const UNC_PATH = /^[\\/]{2}[^\\/?.][^\\/]*[\\/][^\\/]+/;
+
+const LONG_PATH_PREFIX = /^[\\/]{2}\?[\\/]/;
+
+/**
+ * Drops the `\\?\` prefix Windows uses for paths longer than MAX_PATH:
+ * `\\?\D:\Movies` is `D:\Movies` and `\\?\UNC\nas\media` is `\\nas\media`.
+ */
+export const stripLongPathPrefix = (str: string): string => {
+    if (!LONG_PATH_PREFIX.test(str)) return str;
+    const rest = str.slice(4);
+    return /^UNC[\\/]/i.test(rest) ? `\\\\${rest.slice(4)}` : rest;
+};
+
+export const isUncPath = (str: string): boolean =>
+    UNC_PATH.test(stripLongPathPrefix(str));
+
+export const isWindowsAbsolutePath = (str: string): boolean =>
+    WINDOWS_ABSOLUTE_PATH.test(stripLongPathPrefix(str)) || isUncPath(str);
+
+// Absolute Linux path, as opposed to a //server/share UNC path
+export const isLinuxAbsolutePath = (str: string): boolean =>
+    str.startsWith('/') && !isUncPath(str);
+
+// Compare form of a Windows path: no long path prefix, forward slashes, no trailing separator, case-folded
+export const normalizeWindowsPath = (str: string): string =>
+    stripLongPathPrefix(str)
+        .replace(/\\/g, '/')
+        .replace(/\/+$/, '')
+        .toLowerCase();
+
+/**
+ * Translates Windows paths through the longest matching mapped prefix.
+ * qBittorrent writes the same directory as `D:\Movies` or `D:/Movies` depending on the field,
+ * so prefixes are compared in normalized form. Returns null for paths outside every mapping.
+ */
+export const createPathTranslator = (
+    mappings: PathMapping[],
+): PathTranslator => {
+    const prefixes = mappings
+        .filter((mapping) => mapping.windowsPath && mapping.linuxPath)
+        .map((mapping) => ({
+            prefix: normalizeWindowsPath(mapping.windowsPath),
+            linuxPath: mapping.linuxPath.replace(/\/+$/, ''),
+        }))
+        .sort((a, b) => b.prefix.length - a.prefix.length);
+
+    return (windowsPath: string): string | null => {
+        const normalized = normalizeWindowsPath(windowsPath);
+        for (const { prefix, linuxPath } of prefixes) {
+            if (normalized === prefix) return linuxPath;
+            if (normalized.startsWith(`${prefix}/`)) {
+                const rest = stripLongPathPrefix(windowsPath)
+                    .replace(/\\/g, '/')
+                    .replace(/\/+$/, '')
+                    .slice(prefix.length);
+                return `${linuxPath}${rest}`;
+            }
+        }
+        return null;
+    };
+};
+
+/**
+ * Translates Linux paths back to Windows paths through the longest matching Linux prefix,
+ * e.g. `/mnt/data/Movies` to `D:\Movies` for the mapping of `D:\` to `/mnt/data`.
+ * Returns null for paths outside every mapping.
+ */
+export const createWindowsPathTranslator = (
+    mappings: PathMapping[],
+): PathTranslator => {
+    const prefixes = mappings
+        .filter((mapping) => mapping.windowsPath && mapping.linuxPath)
+        .map((mapping) => ({
+            prefix: mapping.linuxPath.replace(/\/+$/, ''),
+            windowsPath: stripLongPathPrefix(mapping.windowsPath)
+                .replace(/\//g, '\\')
+                .replace(/\\+$/, ''),
+        }))
+        .filter(({ prefix }) => prefix)
+        .sort((a, b) => b.prefix.length - a.prefix.length);
+
+    return (linuxPath: string): string | null => {
+        const normalized = linuxPath.replace(/\/+$/, '');
+        for (const { prefix, windowsPath } of prefixes) {
+            if (normalized !== prefix && !normalized.startsWith(`${prefix}/`)) {
+                continue;
+            }
+            const rest = normalized.slice(prefix.length).replace(/\//g, '\\');
+            // A drive's root keeps its separator, D: alone is the current directory on D
+            return rest || !/^[A-Z]:$/i.test(windowsPath)
+                ? `${windowsPath}${rest}`
+                : `${windowsPath}\\`;
+        }
+        return null;
+    };
+};
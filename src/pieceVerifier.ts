@@ -0,0 +1,128 @@
+import fs from 'fs';
+import crypto from 'crypto';
+import { TorrentData } from './torrent.js';
+
+const PIECE_HASH_LENGTH = 20;
+
+export const DEFAULT_SAMPLE_PIECES = 8;
+
+// A file of the torrent in info order, with the location it was found at (if any)
+export interface PieceFile {
+    actualPath: string | null;
+    size: number;
+    // BEP 47 pad file, hashed as zeros
+    padding?: boolean;
+}
+
+export interface PieceVerification {
+    checkedPieces: number;
+    verifiedPieces: number;
+    ratio: number;
+}
+
+// Pick `samples` piece indices spread evenly over the torrent
+const samplePieceIndices = (pieceCount: number, samples: number): number[] => {
+    if (pieceCount <= samples) {
+        return Array.from({ length: pieceCount }, (_, i) => i);
+    }
+    const indices = new Set<number>();
+    for (let i = 0; i < samples; i++) {
+        indices.add(Math.floor(((i + 0.5) * pieceCount) / samples));
+    }
+    return [...indices];
+};
+
+// Read `length` bytes at `position`, returns null on a short read
+const readRange = async (
+    filePath: string,
+    position: number,
+    length: number,
+): Promise<Buffer | null> => {
+    const handle = await fs.promises.open(filePath, 'r');
+    try {
+        const buffer = Buffer.alloc(length);
+        const { bytesRead } = await handle.read(buffer, 0, length, position);
+        return bytesRead === length ? buffer : null;
+    } finally {
+        await handle.close();
+    }
+};
+
+// Read one piece across the file boundaries it spans, returns null if any part is missing
+const readPiece = async (
+    files: PieceFile[],
+    pieceStart: number,
+    pieceEnd: number,
+): Promise<Buffer | null> => {
+    const chunks: Buffer[] = [];
+    let fileStart = 0;
+
+    for (const file of files) {
+        const fileEnd = fileStart + file.size;
+        if (fileEnd > pieceStart && fileStart < pieceEnd) {
+            const from = Math.max(pieceStart, fileStart);
+            const to = Math.min(pieceEnd, fileEnd);
+            if (file.padding) {
+                chunks.push(Buffer.alloc(to - from));
+            } else {
+                if (!file.actualPath) return null;
+                try {
+                    const chunk = await readRange(
+                        file.actualPath,
+                        from - fileStart,
+                        to - from,
+                    );
+                    if (!chunk) return null;
+                    chunks.push(chunk);
+                } catch {
+                    return null;
+                }
+            }
+        }
+        if (fileEnd >= pieceEnd) break;
+        fileStart = fileEnd;
+    }
+
+    return Buffer.concat(chunks);
+};
+
+/**
+ * Verifies a sample of pieces against the SHA-1 hashes in `info.pieces`
+ */
+export const verifyPieces = async (
+    torrentData: TorrentData,
+    files: PieceFile[],
+    samples: number = DEFAULT_SAMPLE_PIECES,
+): Promise<PieceVerification> => {
+    const pieceLength = torrentData.info['piece length'];
+    const pieces = torrentData.info.pieces;
+    const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+
+    if (!pieceLength || !pieces || totalSize === 0) {
+        return { checkedPieces: 0, verifiedPieces: 0, ratio: 0 };
+    }
+
+    const pieceCount = Math.floor(pieces.length / PIECE_HASH_LENGTH);
+    const indices = samplePieceIndices(pieceCount, samples);
+    let verifiedPieces = 0;
+
+    for (const index of indices) {
+        const pieceStart = index * pieceLength;
+        const pieceEnd = Math.min(pieceStart + pieceLength, totalSize);
+        const data = await readPiece(files, pieceStart, pieceEnd);
+        if (!data) continue;
+
+        const expected = pieces.subarray(
+            index * PIECE_HASH_LENGTH,
+            (index + 1) * PIECE_HASH_LENGTH,
+        );
+        const actual = crypto.createHash('sha1').update(data).digest();
+        if (actual.equals(expected)) verifiedPieces++;
+    }
+
+    return {
+        checkedPieces: indices.length,
+        verifiedPieces,
+        ratio: indices.length ? verifiedPieces / indices.length : 0,
+    };
+};
@@ -0,0 +1,25 @@
+import readline from 'readline';
+
+export const isInteractive = (): boolean => Boolean(process.stdin.isTTY);
+
+// Prompt user for input with a default value
+export const promptUserInput = async (
+    question: string,
+    defaultValue?: string,
+): Promise<string> => {
+    return new Promise((resolve) => {
+        const rl = readline.createInterface({
+            input: process.stdin,
+            output: process.stdout,
+        });
+
+        const promptText = defaultValue
+            ? `${question} (${defaultValue}): `
+            : `${question}: `;
+
+        rl.question(promptText, (answer) => {
+            rl.close();
+            resolve(answer || defaultValue || '');
+        });
+    });
+};
@@ -0,0 +1,180 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+
+const PROCESS_NAMES = ['qbittorrent', 'qbittorrent-nox'];
+const FLATPAK_APP_DIR = path.join('.var', 'app', 'org.qbittorrent.qBittorrent');
+
+export type Sandbox = 'flatpak' | 'snap' | 'container';
+
+// How a qBittorrent instance is started: where it runs, and its --profile and --configuration
+export interface QBitProfile {
+    sandbox: Sandbox | null;
+    profileDir: string | null;
+    configuration: string | null;
+}
+
+const readProcFile = (pid: string, file: string): string | null => {
+    try {
+        return fs.readFileSync(path.join('/proc', pid, file), 'utf-8');
+    } catch {
+        return null;
+    }
+};
+
+// A --name=value or --name value argument
+const findArg = (args: string[], name: string): string | null => {
+    for (const [i, arg] of args.entries()) {
+        if (arg.startsWith(`${name}=`)) return arg.slice(name.length + 1);
+        if (arg === name && i + 1 < args.length) return args[i + 1];
+    }
+    return null;
+};
+
+const findSandbox = (pid: string, args: string[]): Sandbox | null => {
+    if (fs.existsSync(path.join('/proc', pid, 'root', '.flatpak-info'))) {
+        return 'flatpak';
+    }
+    let exe = args[0] ?? '';
+    try {
+        exe = fs.readlinkSync(path.join('/proc', pid, 'exe'));
+    } catch {
+        // keep the name it was started with
+    }
+    if (exe.startsWith('/snap/')) return 'snap';
+    const cgroup = readProcFile(pid, 'cgroup') ?? '';
+    return /docker|containerd|libpod|kubepods/.test(cgroup)
+        ? 'container'
+        : null;
+};
+
+// Running qBittorrent processes, read from /proc
+const findQBitProcesses = async (): Promise<QBitProfile[]> => {
+    let pids: string[];
+    try {
+        pids = (await fs.promises.readdir('/proc')).filter((entry) =>
+            /^\d+$/.test(entry),
+        );
+    } catch {
+        return [];
+    }
+
+    const processes: QBitProfile[] = [];
+    for (const pid of pids) {
+        const name = readProcFile(pid, 'comm')?.trim();
+        if (!name || !PROCESS_NAMES.includes(name)) continue;
+
+        const args = (readProcFile(pid, 'cmdline') ?? '')
+            .split('\0')
+            .filter(Boolean);
+        // A relative --profile is relative to where it was started
+        let profileDir = findArg(args, '--profile');
+        if (profileDir) {
+            try {
+                profileDir = path.resolve(
+                    fs.readlinkSync(path.join('/proc', pid, 'cwd')),
+                    profileDir,
+                );
+            } catch {
+                profileDir = path.resolve(profileDir);
+            }
+        }
+        processes.push({
+            sandbox: findSandbox(pid, args),
+            profileDir,
+            configuration: findArg(args, '--configuration'),
+        });
+    }
+    return processes;
+};
+
+/**
+ * The instance a BT_backup directory belongs to, from where it is:
+ * ~/.local/share/qBittorrent_<configuration>/BT_backup, <profile>/qBittorrent/data/BT_backup,
+ * the Flatpak and Snap home directories. Null for other places, like a container volume.
+ */
+export const getProfile = (btBackupPath: string): QBitProfile | null => {
+    const dataDir = path.dirname(path.resolve(btBackupPath));
+    const parseName = (name: string): string | null | undefined => {
+        const match = name.match(/^qBittorrent(?:_(.+))?$/);
+        return match ? (match[1] ?? null) : undefined;
+    };
+
+    // --profile keeps data and config in one directory
+    const profileName = parseName(path.basename(path.dirname(dataDir)));
+    if (path.basename(dataDir) === 'data' && profileName !== undefined) {
+        return {
+            sandbox: null,
+            profileDir: path.dirname(path.dirname(dataDir)),
+            configuration: profileName,
+        };
+    }
+
+    const configuration = parseName(path.basename(dataDir));
+    if (configuration === undefined) return null;
+    const dataHome = path.dirname(dataDir);
+    const home = os.homedir();
+    if (dataHome === path.join(home, FLATPAK_APP_DIR, 'data')) {
+        return { sandbox: 'flatpak', profileDir: null, configuration };
+    }
+    if (
+        path.dirname(dataHome).startsWith(path.join(home, 'snap')) &&
+        dataHome.endsWith(path.join('.local', 'share'))
+    ) {
+        return { sandbox: 'snap', profileDir: null, configuration };
+    }
+    const xdgDataHome =
+        process.env.XDG_DATA_HOME || path.join(home, '.local', 'share');
+    if (
+        dataHome === path.resolve(xdgDataHome) ||
+        dataHome === path.join(home, '.local', 'share', 'data')
+    ) {
+        return { sandbox: null, profileDir: null, configuration };
+    }
+    return null;
+};
+
+/**
+ * Checks if qBittorrent is running with the profile of `btBackupPath`, or at all when
+ * no path is given or its profile is not known, e.g. for a container volume
+ */
+export const isQBitRunning = async (
+    btBackupPath?: string,
+): Promise<boolean> => {
+    const processes = await findQBitProcesses();
+    const profile = btBackupPath ? getProfile(btBackupPath) : null;
+    if (!profile) return processes.length > 0;
+    return processes.some(
+        (running) =>
+            running.sandbox === profile.sandbox &&
+            running.profileDir === profile.profileDir &&
+            running.configuration === profile.configuration,
+    );
+};
+
+// find qBittorrent.conf for a BT_backup directory, either next to it or in the config dir of its profile
+export const findConfigFile = (btBackupPath: string): string | null => {
+    const parentDir = path.dirname(path.resolve(btBackupPath));
+    const candidates = [
+        path.join(parentDir, 'qBittorrent.conf'),
+        // ~/.local/share/qBittorrent/BT_backup => ~/.config/qBittorrent/qBittorrent.conf, also in Snap homes
+        path.join(
+            parentDir.replace(
+                `${path.sep}.local${path.sep}share${path.sep}`,
+                `${path.sep}.config${path.sep}`,
+            ),
+            'qBittorrent.conf',
+        ),
+        // ~/.var/app/<id>/data/qBittorrent => ~/.var/app/<id>/config/qBittorrent for Flatpak
+        path.join(
+            parentDir.replace(
+                `${path.sep}${FLATPAK_APP_DIR}${path.sep}data${path.sep}`,
+                `${path.sep}${FLATPAK_APP_DIR}${path.sep}config${path.sep}`,
+            ),
+            'qBittorrent.conf',
+        ),
+        // <profile>/qBittorrent/data/BT_backup => <profile>/qBittorrent/config/qBittorrent.conf
+        path.join(path.dirname(parentDir), 'config', 'qBittorrent.conf'),
+    ];
+    return candidates.find((candidate) => fs.existsSync(candidate)) ?? null;
+};
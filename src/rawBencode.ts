@@ -0,0 +1,194 @@
+// Lossless bencode codec. The `bencode` package decodes byte strings either as text (mangling
+// binary values) or as raw arrays with hex-mangled binary keys, so neither survives a round trip.
+// Here every byte string stays a Buffer and dictionary keys are kept as 'binary' (latin1) strings.
+
+export type BencodeValue =
+    | number
+    | bigint
+    | Buffer
+    | BencodeValue[]
+    | BencodeDict;
+
+export type BencodeDict = Map<string, BencodeValue>;
+
+export class BencodeError extends Error {
+    constructor(message: string, position: number) {
+        super(`${message} at byte ${position}`);
+        this.name = 'BencodeError';
+    }
+}
+
+const COLON = 0x3a;
+const DICT = 0x64;
+const END = 0x65;
+const INT = 0x69;
+const LIST = 0x6c;
+
+interface Reader {
+    next: () => BencodeValue;
+    nextBytes: () => Buffer;
+    position: () => number;
+}
+
+const createReader = (data: Buffer, start = 0): Reader => {
+    let position = start;
+
+    const find = (byte: number): number => {
+        const index = data.indexOf(byte, position);
+        if (index === -1) {
+            throw new BencodeError(
+                `Missing delimiter "${String.fromCharCode(byte)}"`,
+                position,
+            );
+        }
+        return index;
+    };
+
+    const parseInteger = (start: number, end: number): number | bigint => {
+        const text = data.toString('latin1', start, end);
+        if (!/^-?\d+$/.test(text)) {
+            throw new BencodeError(`Invalid integer "${text}"`, start);
+        }
+        const value = BigInt(text);
+        return value <= BigInt(Number.MAX_SAFE_INTEGER) &&
+            value >= BigInt(Number.MIN_SAFE_INTEGER)
+            ? Number(value)
+            : value;
+    };
+
+    const nextBytes = (): Buffer => {
+        const colon = find(COLON);
+        const length = Number(parseInteger(position, colon));
+        const start = colon + 1;
+        if (start + length > data.length) {
+            throw new BencodeError('String runs past end of data', position);
+        }
+        position = start + length;
+        return data.subarray(start, start + length);
+    };
+
+    const next = (): BencodeValue => {
+        switch (data[position]) {
+            case DICT: {
+                position++;
+                const dict: BencodeDict = new Map();
+                while (data[position] !== END) {
+                    if (position >= data.length) {
+                        throw new BencodeError('Unterminated dict', position);
+                    }
+                    const key = nextBytes().toString('latin1');
+                    dict.set(key, next());
+                }
+                position++;
+                return dict;
+            }
+            case LIST: {
+                position++;
+                const list: BencodeValue[] = [];
+                while (data[position] !== END) {
+                    if (position >= data.length) {
+                        throw new BencodeError('Unterminated list', position);
+                    }
+                    list.push(next());
+                }
+                position++;
+                return list;
+            }
+            case INT: {
+                const end = find(END);
+                const value = parseInteger(position + 1, end);
+                position = end + 1;
+                return value;
+            }
+            default:
+                return nextBytes();
+        }
+    };
+
+    return { next, nextBytes, position: () => position };
+};
+
+export const decodeRaw = (data: Buffer): BencodeValue => {
+    const reader = createReader(data);
+    const value = reader.next();
+    if (reader.position() !== data.length) {
+        throw new BencodeError('Trailing data', reader.position());
+    }
+    return value;
+};
+
+/**
+ * The encoded bytes of a value in the top-level dictionary, exactly as they appear in `data`.
+ * Compare or hash these bytes rather than a re-encoding, which could reorder unsorted keys.
+ */
+export const getRawValue = (data: Buffer, key: string): Buffer | undefined => {
+    if (data[0] !== DICT) return undefined;
+    const reader = createReader(data, 1);
+    while (reader.position() < data.length && data[reader.position()] !== END) {
+        const currentKey = reader.nextBytes().toString('latin1');
+        const start = reader.position();
+        reader.next();
+        if (currentKey === key) return data.subarray(start, reader.position());
+    }
+    return undefined;
+};
+
+export const encodeRaw = (value: BencodeValue): Buffer => {
+    const chunks: Buffer[] = [];
+
+    const write = (item: BencodeValue): void => {
+        if (typeof item === 'number' || typeof item === 'bigint') {
+            chunks.push(Buffer.from(`i${BigInt(item)}e`, 'latin1'));
+        } else if (Buffer.isBuffer(item)) {
+            chunks.push(Buffer.from(`${item.length}:`, 'latin1'), item);
+        } else if (Array.isArray(item)) {
+            chunks.push(Buffer.from('l'));
+            item.forEach(write);
+            chunks.push(Buffer.from('e'));
+        } else {
+            chunks.push(Buffer.from('d'));
+            // latin1 keys compare char by char in raw byte order, as bencode requires
+            for (const key of [...item.keys()].sort()) {
+                write(Buffer.from(key, 'latin1'));
+                write(item.get(key));
+            }
+            chunks.push(Buffer.from('e'));
+        }
+    };
+
+    write(value);
+    return Buffer.concat(chunks);
+};
+
+export const isDict = (value: BencodeValue): value is BencodeDict =>
+    value instanceof Map;
+
+// Read a byte string as UTF-8 text, undefined for anything else
+export const getText = (dict: BencodeDict, key: string): string | undefined => {
+    const value = dict.get(key);
+    return Buffer.isBuffer(value) ? value.toString('utf8') : undefined;
+};
+
+// Read a list of byte strings as UTF-8 text, other items become empty strings
+export const getTextList = (
+    dict: BencodeDict,
+    key: string,
+): string[] | undefined => {
+    const value = dict.get(key);
+    if (!Array.isArray(value)) return undefined;
+    return value.map((item) =>
+        Buffer.isBuffer(item) ? item.toString('utf8') : '',
+    );
+};
+
+// Read an integer as a number, 0 when it is missing
+export const getNumber = (dict: BencodeDict, key: string): number => {
+    const value = dict.get(key);
+    return typeof value === 'number' || typeof value === 'bigint'
+        ? Number(value)
+        : 0;
+};
+
+export const setText = (dict: BencodeDict, key: string, text: string): void => {
+    dict.set(key, Buffer.from(text, 'utf8'));
+};
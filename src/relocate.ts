@@ -0,0 +1,197 @@
+import fs from 'fs';
+import path from 'path';
+import { FileMatch } from './pathMatcher.js';
+import { Backup } from './backup.js';
+
+export const RELOCATE_MODES = ['copy', 'move', 'hardlink', 'symlink'] as const;
+
+export type RelocateMode = (typeof RELOCATE_MODES)[number];
+
+export const LAYOUT_FIELDS = ['category', 'name', 'infohash'] as const;
+
+export type LayoutField = (typeof LAYOUT_FIELDS)[number];
+
+export const DEFAULT_LAYOUT = '{category}';
+
+export interface FileTransfer {
+    source: string;
+    destination: string;
+    size: number;
+}
+
+export interface Relocation {
+    // New save path, below the relocation root
+    savePath: string;
+    files: FileTransfer[];
+}
+
+const PRESENT: Record<RelocateMode, string> = {
+    copy: 'Copying',
+    move: 'Moving',
+    hardlink: 'Hardlinking',
+    symlink: 'Symlinking',
+};
+
+// Placeholders in a layout that are not known fields, e.g. `label` for `{label}`
+export const findUnknownLayoutFields = (layout: string): string[] =>
+    [...layout.matchAll(/\{([^}]*)\}/g)]
+        .map((match) => match[1])
+        .filter((field) => !LAYOUT_FIELDS.includes(field as LayoutField));
+
+/**
+ * Fills in a layout such as `{category}/{name}`. Categories keep their `/`
+ * subcategories, empty fields drop out, and no segment can leave the root.
+ */
+export const renderLayout = (
+    layout: string,
+    values: Record<LayoutField, string>,
+): string =>
+    layout
+        .replace(/\{(\w+)\}/g, (_, field: LayoutField) =>
+            field === 'category'
+                ? values.category
+                : values[field].replace(/\//g, '_'),
+        )
+        .split('/')
+        .filter((segment) => segment && segment !== '.' && segment !== '..')
+        .join('/');
+
+/**
+ * Where each found file of a torrent goes when its save path becomes `savePath`.
+ * Files keep their place relative to the save path, so renamed files stay valid.
+ * Files outside the current save path, such as ones moved elsewhere on Windows, stay put.
+ */
+export const planRelocation = (
+    currentSavePath: string,
+    savePath: string,
+    matches: FileMatch[],
+): Relocation => ({
+    savePath,
+    files: matches.flatMap((match) => {
+        const relativePath = path.relative(currentSavePath, match.actualPath);
+        if (
+            !match.exists ||
+            !relativePath ||
+            relativePath.startsWith('..') ||
+            path.isAbsolute(relativePath)
+        ) {
+            return [];
+        }
+        const destination = path.join(savePath, relativePath);
+        if (destination === match.actualPath) return [];
+        return [
+            {
+                source: match.actualPath,
+                destination,
+                size: match.actualSize,
+            },
+        ];
+    }),
+});
+
+const checkSize = async (file: FileTransfer): Promise<void> => {
+    const { size } = await fs.promises.stat(file.destination);
+    if (size !== file.size) {
+        throw new Error(
+            `${file.destination} has ${size} bytes, expected ${file.size}`,
+        );
+    }
+};
+
+const transferFile = async (
+    file: FileTransfer,
+    mode: RelocateMode,
+): Promise<void> => {
+    await fs.promises.mkdir(path.dirname(file.destination), {
+        recursive: true,
+    });
+    switch (mode) {
+        case 'copy':
+            await fs.promises.copyFile(
+                file.source,
+                file.destination,
+                fs.constants.COPYFILE_EXCL,
+            );
+            break;
+        case 'move':
+            try {
+                await fs.promises.rename(file.source, file.destination);
+            } catch (error) {
+                // Across filesystems a move is a copy, the source goes once the copy is checked
+                if (error.code !== 'EXDEV') throw error;
+                await fs.promises.copyFile(
+                    file.source,
+                    file.destination,
+                    fs.constants.COPYFILE_EXCL,
+                );
+                await checkSize(file);
+                await fs.promises.unlink(file.source);
+            }
+            break;
+        case 'hardlink':
+            await fs.promises.link(file.source, file.destination);
+            break;
+        case 'symlink':
+            await fs.promises.symlink(file.source, file.destination);
+            break;
+    }
+};
+
+// Puts a file back the way it was before `transferFile`
+export const undoTransfer = async (
+    file: FileTransfer,
+    mode: RelocateMode,
+): Promise<void> => {
+    if (mode === 'move' && !fs.existsSync(file.source)) {
+        await fs.promises
+            .rename(file.destination, file.source)
+            .catch(() =>
+                fs.promises
+                    .copyFile(file.destination, file.source)
+                    .then(() => fs.promises.unlink(file.destination)),
+            );
+    } else {
+        await fs.promises.rm(file.destination, { force: true });
+    }
+};
+
+/**
+ * Copies, moves or links a torrent's files into its new save path and checks their sizes.
+ * Files already at the destination with the right size are left alone, so an interrupted
+ * run can be repeated. When a file fails, the files transferred so far are put back.
+ * Each transfer is recorded in `backup` first, so rollback can undo it too.
+ */
+export const relocateFiles = async (
+    name: string,
+    relocation: Relocation,
+    mode: RelocateMode,
+    backup?: Backup,
+): Promise<void> => {
+    console.log(`🚚 ${PRESENT[mode]} ${name} to: ${relocation.savePath}`);
+    const done: FileTransfer[] = [];
+    try {
+        for (const file of relocation.files) {
+            if (fs.existsSync(file.destination)) {
+                await checkSize(file);
+                continue;
+            }
+            // Listed first, a failed copy can leave part of the file behind
+            done.push(file);
+            backup?.recordRelocation(file, mode);
+            await transferFile(file, mode);
+            await checkSize(file);
+        }
+    } catch (error) {
+        for (const file of done.reverse()) {
+            try {
+                await undoTransfer(file, mode);
+            } catch (undoError) {
+                console.error(
+                    `❌ Error putting back ${file.source}:`,
+                    undoError,
+                );
+            }
+        }
+        throw error;
+    }
+};
@@ -0,0 +1,244 @@
+import fs from 'fs';
+import { PathMatchResult } from './pathMatcher.js';
+import { TorrentConflict } from './conflicts.js';
+import { Resolution } from './unresolved.js';
+
+export interface CandidateReport {
+    basePath: string;
+    confidence: number;
+    existingFiles: number;
+    totalFiles: number;
+    verifiedPieceRatio?: number;
+}
+
+export interface FileIssue {
+    path: string;
+    expectedSize: number;
+    actualSize: number;
+}
+
+// A folder or file found under a different spelling than the torrent or Windows uses
+export interface FuzzyMatch {
+    expected: string;
+    actual: string;
+}
+
+export interface TorrentPlan {
+    infohash: string;
+    name: string;
+    oldSavePath: string;
+    newSavePath: string | null;
+    // Data found apart from the other torrents of its Windows save path
+    outlier: boolean;
+    // Still in the incomplete-downloads folder
+    incomplete: boolean;
+    // False for a magnet link whose metadata was never received, so no files were looked for
+    metadata: boolean;
+    // The Linux client already has this torrent, and what the migration does about it
+    conflict: TorrentConflict | null;
+    // Save path the data is copied, moved or linked to
+    relocatedTo: string | null;
+    // How a torrent whose data was not found was handled
+    resolution: Resolution['action'] | null;
+    chosen: CandidateReport | null;
+    rejected: CandidateReport[];
+    missingFiles: string[];
+    sizeMismatches: FileIssue[];
+    fuzzyMatches: FuzzyMatch[];
+}
+
+export interface MigrationPlan {
+    createdAt: string;
+    source: string;
+    target: string;
+    dryRun: boolean;
+    torrents: TorrentPlan[];
+    // Windows save paths no Linux location was found for
+    unresolved: string[];
+}
+
+const toCandidateReport = (candidate: PathMatchResult): CandidateReport => ({
+    basePath: candidate.basePath,
+    confidence: Number(candidate.confidence.toFixed(3)),
+    existingFiles: candidate.existingFiles,
+    totalFiles: candidate.totalFiles,
+    ...(candidate.verifiedPieceRatio !== undefined && {
+        verifiedPieceRatio: candidate.verifiedPieceRatio,
+    }),
+});
+
+/**
+ * Builds the plan entry of one torrent from its ranked candidates.
+ * `candidates` is best first, as returned by `rankTorrentPaths`.
+ */
+export const buildTorrentPlan = (
+    torrent: {
+        infohash: string;
+        name: string;
+        oldSavePath: string;
+        outlier: boolean;
+        incomplete: boolean;
+        metadata: boolean;
+        resolution: Resolution['action'] | null;
+        // The save path was found under a different spelling
+        fuzzySavePath: boolean;
+    },
+    newSavePath: string | null,
+    candidates: PathMatchResult[],
+    conflict: TorrentConflict | null = null,
+    relocatedTo: string | null = null,
+): TorrentPlan => {
+    // A base path can appear twice, once per tested folder layout; the first is the better one
+    const chosen =
+        candidates.find((candidate) => candidate.basePath === newSavePath) ??
+        null;
+    const seen = new Set([newSavePath]);
+    const rejected = candidates.filter((candidate) => {
+        if (seen.has(candidate.basePath)) return false;
+        seen.add(candidate.basePath);
+        return true;
+    });
+
+    const matches = chosen?.matches ?? [];
+    const { fuzzySavePath, ...details } = torrent;
+    return {
+        ...details,
+        newSavePath,
+        conflict,
+        relocatedTo,
+        chosen: chosen && toCandidateReport(chosen),
+        rejected: rejected.map(toCandidateReport),
+        missingFiles: matches
+            .filter((match) => !match.exists)
+            .map((match) => match.expectedPath),
+        sizeMismatches: matches
+            .filter((match) => match.exists && !match.sizeMatch)
+            .map((match) => ({
+                path: match.expectedPath,
+                expectedSize: match.expectedSize,
+                actualSize: match.actualSize,
+            })),
+        fuzzyMatches: [
+            ...(fuzzySavePath
+                ? [{ expected: torrent.oldSavePath, actual: newSavePath }]
+                : []),
+            ...matches
+                .filter((match) => match.fuzzy)
+                .map((match) => ({
+                    expected: match.expectedPath,
+                    actual: match.actualPath,
+                })),
+        ],
+    };
+};
+
+const escapeHtml = (str: string): string =>
+    str.replace(
+        /[&<>"']/g,
+        (char) =>
+            ({
+                '&': '&amp;',
+                '<': '&lt;',
+                '>': '&gt;',
+                '"': '&quot;',
+                "'": '&#39;',
+            })[char],
+    );
+
+const formatConfidence = (candidate: CandidateReport | null): string =>
+    candidate ? `${(candidate.confidence * 100).toFixed(0)}%` : '–';
+
+const RESOLUTION_ISSUES: Record<Resolution['action'], string> = {
+    manual: 'location entered by hand',
+    skip: 'skipped, not migrated',
+    paused: 'migrated stopped with its Windows path',
+};
+
+const renderTorrentRow = (torrent: TorrentPlan): string => {
+    const issues = [
+        ...(torrent.metadata ? [] : ['no metadata, fetched from peers']),
+        ...(torrent.outlier
+            ? ['data found apart from the rest of its save path']
+            : []),
+        ...(torrent.relocatedTo ? [`relocated to ${torrent.relocatedTo}`] : []),
+        ...(torrent.resolution ? [RESOLUTION_ISSUES[torrent.resolution]] : []),
+        ...(torrent.conflict
+            ? [
+                  `already on Linux, ${torrent.conflict.action}` +
+                      (torrent.conflict.differences.length
+                          ? ` (differs: ${torrent.conflict.differences.join(', ')})`
+                          : ''),
+              ]
+            : []),
+        ...torrent.fuzzyMatches.map(
+            (match) =>
+                `spelled differently: ${match.expected} → ${match.actual}`,
+        ),
+        ...torrent.missingFiles.map((file) => `missing: ${file}`),
+        ...torrent.sizeMismatches.map(
+            (file) =>
+                `size ${file.actualSize} ≠ ${file.expectedSize}: ${file.path}`,
+        ),
+    ];
+    const status = !torrent.newSavePath
+        ? 'unresolved'
+        : issues.length
+          ? 'warning'
+          : 'ok';
+
+    return `<tr class="${status}">
+<td><strong>${escapeHtml(torrent.name)}</strong>${torrent.incomplete ? ' (incomplete)' : ''}<br><code>${torrent.infohash}</code></td>
+<td><code>${escapeHtml(torrent.oldSavePath)}</code></td>
+<td><code>${escapeHtml(torrent.newSavePath ?? 'not found')}</code></td>
+<td>${formatConfidence(torrent.chosen)}</td>
+<td>${torrent.rejected.map((c) => `<code>${escapeHtml(c.basePath)}</code> (${formatConfidence(c)})`).join('<br>')}</td>
+<td>${issues.map(escapeHtml).join('<br>')}</td>
+</tr>`;
+};
+
+// Standalone HTML page, no external assets so it can be opened straight from disk
+export const renderHtmlReport = (
+    plan: MigrationPlan,
+): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>qBittorrent migration plan</title>
+<style>
+body { font-family: sans-serif; margin: 2em; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border: 1px solid #ccc; padding: 0.4em; text-align: left; vertical-align: top; }
+code { font-size: 0.9em; word-break: break-all; }
+tr.warning { background: #fff6d5; }
+tr.unresolved { background: #fde0e0; }
+</style>
+</head>
+<body>
+<h1>qBittorrent migration plan</h1>
+<p>Created ${escapeHtml(plan.createdAt)}${plan.dryRun ? ' (dry run)' : ''}<br>
+Source: <code>${escapeHtml(plan.source)}</code><br>
+Target: <code>${escapeHtml(plan.target)}</code><br>
+${plan.torrents.length} torrents, ${plan.unresolved.length} unresolved save paths</p>
+<table>
+<thead><tr><th>Torrent</th><th>Old save path</th><th>New save path</th><th>Confidence</th><th>Rejected candidates</th><th>File issues</th></tr></thead>
+<tbody>
+${plan.torrents.map(renderTorrentRow).join('\n')}
+</tbody>
+</table>
+</body>
+</html>
+`;
+
+export const writePlan = async (
+    plan: MigrationPlan,
+    files: { json?: string; html?: string },
+): Promise<void> => {
+    if (files.json) {
+        await fs.promises.writeFile(files.json, JSON.stringify(plan, null, 2));
+        console.log(`📝 Migration plan written to: ${files.json}`);
+    }
+    if (files.html) {
+        await fs.promises.writeFile(files.html, renderHtmlReport(plan));
+        console.log(`📝 Migration report written to: ${files.html}`);
+    }
+};
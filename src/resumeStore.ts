@@ -0,0 +1,132 @@
+import fs from 'fs';
+import path from 'path';
+import { Backup } from './backup.js';
+import { findConfigFile } from './qbittorrent.js';
+import { createSqliteStore } from './sqliteStore.js';
+
+export const TORRENTS_DB = 'torrents.db';
+
+export interface ResumeEntry {
+    infohash: string;
+    // Bencoded fastresume, including qBittorrent's own qBt-* fields
+    fastResume: Buffer;
+    // Bencoded .torrent file, null when the metadata is not known
+    torrent: Buffer | null;
+}
+
+export interface WriteResult {
+    written: number;
+    errors: number;
+}
+
+/**
+ * Where qBittorrent keeps its resume data: a BT_backup folder of
+ * .torrent/.fastresume pairs, or a torrents.db SQLite database.
+ * Both read and write the same fastresume representation.
+ */
+export interface ResumeStore {
+    kind: 'folder' | 'sqlite' | 'webapi';
+    location: string;
+    read: () => Promise<ResumeEntry[]>;
+    write: (entries: ResumeEntry[], backup?: Backup) => Promise<WriteResult>;
+}
+
+const createFolderStore = (dir: string): ResumeStore => ({
+    kind: 'folder',
+    location: dir,
+    read: async (): Promise<ResumeEntry[]> => {
+        const files = await fs.promises.readdir(dir);
+        const entries: ResumeEntry[] = [];
+        for (const file of files.filter((f) => f.endsWith('.fastresume'))) {
+            const infohash = file.replace(/\.fastresume$/, '');
+            try {
+                const fastResume = await fs.promises.readFile(
+                    path.join(dir, file),
+                );
+                const torrentPath = path.join(dir, `${infohash}.torrent`);
+                const torrent = fs.existsSync(torrentPath)
+                    ? await fs.promises.readFile(torrentPath)
+                    : null;
+                entries.push({ infohash, fastResume, torrent });
+            } catch (error) {
+                console.error(`❌ Error reading ${file}:`, error);
+            }
+        }
+        return entries;
+    },
+    write: async (
+        entries: ResumeEntry[],
+        backup?: Backup,
+    ): Promise<WriteResult> => {
+        let written = 0;
+        let errors = 0;
+        await Promise.all(
+            entries.map(async (entry) => {
+                const fastResumePath = path.join(
+                    dir,
+                    `${entry.infohash}.fastresume`,
+                );
+                const torrentPath = path.join(dir, `${entry.infohash}.torrent`);
+                try {
+                    if (entry.torrent) {
+                        backup?.recordWrite(torrentPath);
+                        await fs.promises.writeFile(torrentPath, entry.torrent);
+                    }
+                    backup?.recordWrite(fastResumePath);
+                    console.log(
+                        `📄 Writing fastresume file to: ${fastResumePath}`,
+                    );
+                    await fs.promises.writeFile(
+                        fastResumePath,
+                        entry.fastResume,
+                    );
+                    written++;
+                } catch (error) {
+                    errors++;
+                    console.error('❌ Error writing fastresume file:', error);
+                }
+            }),
+        );
+        return { written, errors };
+    },
+});
+
+// BitTorrent\Session\ResumeDataStorageType=SQLite in qBittorrent.conf / qBittorrent.ini
+const configUsesSqlite = async (configFile: string): Promise<boolean> => {
+    try {
+        const content = await fs.promises.readFile(configFile, 'utf-8');
+        return /^\s*(BitTorrent\\)?Session\\ResumeDataStorageType\s*=\s*SQLite\s*$/im.test(
+            content,
+        );
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Opens the resume data at `location`, which is a BT_backup folder or a torrents.db file.
+ * A BT_backup folder is swapped for the torrents.db next to it when qBittorrent is
+ * configured for SQLite storage, or when the folder holds no resume data at all.
+ */
+export const openResumeStore = async (
+    location: string,
+    configFile: string | null = findConfigFile(location),
+): Promise<ResumeStore> => {
+    const stat = await fs.promises.stat(location);
+    if (stat.isFile()) return createSqliteStore(location);
+
+    const dbPath = path.join(path.dirname(path.resolve(location)), TORRENTS_DB);
+    if (fs.existsSync(dbPath)) {
+        const hasResumeFiles = (await fs.promises.readdir(location)).some(
+            (file) => file.endsWith('.fastresume'),
+        );
+        if (
+            (configFile && (await configUsesSqlite(configFile))) ||
+            !hasResumeFiles
+        ) {
+            return createSqliteStore(dbPath);
+        }
+    }
+
+    return createFolderStore(location);
+};
@@ -0,0 +1,431 @@
+import fs from 'fs';
+import path from 'path';
+import { CommandOptions, ExitCode } from './cli.js';
+import {
+    decodeFastResume,
+    extractTorrent,
+    getResumeName,
+    labelFastResume,
+    rewriteFastResume,
+    stopFastResume,
+} from './fastresume.js';
+import {
+    PathMapping,
+    createPathTranslator,
+    createWindowsPathTranslator,
+    isWindowsAbsolutePath,
+} from './paths.js';
+import {
+    findWindowsVolumes,
+    mapDrives,
+    mapShares,
+    readMounts,
+} from './mounts.js';
+import { isQBitRunning } from './qbittorrent.js';
+import { resolveLinuxBTBackup } from './btBackupSearch.js';
+import { Backup, createBackup } from './backup.js';
+import { findWindowsConfigDir } from './settings.js';
+import { isInteractive, promptUserInput } from './prompt.js';
+import {
+    ConflictAction,
+    ConflictPolicy,
+    TorrentConflict,
+    findConflicts,
+    mergeFastResume,
+} from './conflicts.js';
+import { ResumeEntry, ResumeStore, openResumeStore } from './resumeStore.js';
+import { getText } from './rawBencode.js';
+import { decodeTorrent } from './torrent.js';
+import { promptReverseResolution } from './unresolved.js';
+import {
+    createTrackerRewriter,
+    rewriteResumeTrackers,
+    rewriteTorrentTrackers,
+} from './trackers.js';
+import {
+    createWindowsTarget,
+    printVerifyResult,
+    verifyResumeData,
+} from './verify.js';
+
+// findConflicts compares migrated torrents with the target's, which are the Windows ones here
+const REVERSED_POLICY: Record<ConflictPolicy, ConflictPolicy> = {
+    linux: 'windows',
+    windows: 'linux',
+    newest: 'newest',
+    merge: 'merge',
+};
+
+const REVERSED_ACTION: Record<ConflictAction, ConflictAction> = {
+    'keep-linux': 'keep-windows',
+    'keep-windows': 'keep-linux',
+    merge: 'merge',
+};
+
+const findReverseConflicts = (
+    migrated: Array<ResumeEntry & { name: string }>,
+    windowsEntries: ResumeEntry[],
+    policy: ConflictPolicy,
+): TorrentConflict[] =>
+    findConflicts(migrated, windowsEntries, REVERSED_POLICY[policy]).map(
+        (conflict) => ({
+            ...conflict,
+            action: REVERSED_ACTION[conflict.action],
+            windows: conflict.linux,
+            linux: conflict.windows,
+        }),
+    );
+
+// Name of a torrent, from qBittorrent, its metadata or its magnet link
+export const getTorrentName = (entry: ResumeEntry): string => {
+    const name = getText(decodeFastResume(entry.fastResume), 'qBt-name');
+    if (name) return name;
+    if (entry.torrent) return decodeTorrent(entry.torrent).info.name;
+    return getResumeName(entry.fastResume) ?? entry.infohash;
+};
+
+/**
+ * Windows paths and where they are mounted: the configured path mappings, the drive letters
+ * of the mounted partitions, told apart by the save paths Windows already uses, and the network shares
+ */
+export const mapWindowsPaths = async (
+    options: CommandOptions,
+    windowsDir: string,
+    windowsEntries: ResumeEntry[],
+): Promise<PathMapping[]> => {
+    const volumes = await findWindowsVolumes();
+    const windowsSavePaths = windowsEntries.flatMap((entry) => {
+        try {
+            const savePath = getText(
+                decodeFastResume(entry.fastResume),
+                'save_path',
+            );
+            return savePath ? [savePath] : [];
+        } catch {
+            return [];
+        }
+    });
+    const driveMappings = mapDrives(volumes, windowsSavePaths, {
+        rules: options.driveMappings,
+        sourceDir: windowsDir,
+    });
+    for (const mapping of driveMappings) {
+        console.log(
+            `💽 ${mapping.mountPoint} => ${mapping.letter}:\\ (${mapping.reason})`,
+        );
+    }
+    const shareMappings = mapShares(await readMounts(), options.shareMappings);
+    return [
+        ...Object.entries(options.pathMappings).map(
+            ([windowsPath, linuxPath]) => ({ windowsPath, linuxPath }),
+        ),
+        ...driveMappings.map((mapping) => ({
+            windowsPath: `${mapping.letter}:\\`,
+            linuxPath: mapping.mountPoint,
+        })),
+        ...shareMappings.map((mapping) => ({
+            windowsPath: mapping.share,
+            linuxPath: mapping.mountPoint,
+        })),
+    ];
+};
+
+/**
+ * Migrates the Linux BT_backup back into a Windows BT_backup on a mounted partition,
+ * translating save paths to the drive letters of the partitions they are on
+ */
+export const runReverseMigration = async (
+    options: CommandOptions,
+): Promise<ExitCode> => {
+    if (options.webUi || options.relocate) {
+        console.error(
+            '❌ --webui and --relocate only work when migrating to Linux.',
+        );
+        return ExitCode.Error;
+    }
+
+    const LINUX_QBIT_DIR = await resolveLinuxBTBackup(
+        options.source,
+        '--source',
+    );
+    if (!LINUX_QBIT_DIR) return ExitCode.Error;
+    const WINDOWS_QBIT_DIR = options.target;
+    if (!WINDOWS_QBIT_DIR) {
+        console.error(
+            '❌ Pass the Windows BT_backup directory on the mounted partition with --target.',
+        );
+        return ExitCode.Error;
+    }
+    for (const dir of [LINUX_QBIT_DIR, WINDOWS_QBIT_DIR]) {
+        if (!fs.existsSync(dir)) {
+            console.error(`❌ Directory not found: ${dir}`);
+            return ExitCode.Error;
+        }
+    }
+
+    // The Linux client rewrites its resume data while it runs
+    if (!options.dryRun && (await isQBitRunning(LINUX_QBIT_DIR))) {
+        console.error(
+            `❌ Qbittorrent is running. Close it before migrating back to Windows.`,
+        );
+        return ExitCode.Error;
+    }
+
+    const windowsConfigDir = findWindowsConfigDir(WINDOWS_QBIT_DIR);
+    let sourceStore: ResumeStore;
+    let targetStore: ResumeStore;
+    let entries: ResumeEntry[];
+    let windowsEntries: ResumeEntry[];
+    try {
+        sourceStore = await openResumeStore(LINUX_QBIT_DIR);
+        targetStore = await openResumeStore(
+            WINDOWS_QBIT_DIR,
+            windowsConfigDir && path.join(windowsConfigDir, 'qBittorrent.ini'),
+        );
+        entries = await sourceStore.read();
+        windowsEntries = await targetStore.read();
+    } catch (error) {
+        console.error('❌ Error opening resume data:', error);
+        return ExitCode.Error;
+    }
+    console.log(`📄 Reading Linux resume data: ${sourceStore.location}`);
+    console.log(`📄 Writing Windows resume data: ${targetStore.location}`);
+
+    if (entries.length < 1) {
+        console.log('🤷 No torrents found.');
+        return ExitCode.NothingToDo;
+    }
+
+    const pathMappings = await mapWindowsPaths(
+        options,
+        WINDOWS_QBIT_DIR,
+        windowsEntries,
+    );
+    const translatePath = createWindowsPathTranslator(pathMappings);
+
+    // Save paths off the Windows drives, e.g. on an ext4 home partition, can't be reached from Windows
+    // Asked about each torrent like migrate does, which needs a terminal and a confirmed run
+    const canAsk = isInteractive() && !options.yes && !options.dryRun;
+    const unresolvedAction = options.unresolved;
+    const savePaths = new Map<string, string | null>();
+    const unresolved: string[] = [];
+    const stopped: string[] = [];
+    const untranslatedPaths: string[] = [];
+    const rewriteTracker = createTrackerRewriter(options.trackerRules);
+    let rewriteErrors = 0;
+    const migrated: Array<ResumeEntry & { name: string }> = [];
+    for (const entry of entries) {
+        try {
+            entry.torrent ??= extractTorrent(entry.fastResume);
+            const name = getTorrentName(entry);
+            const savePath =
+                getText(decodeFastResume(entry.fastResume), 'save_path') ?? '';
+            // Torrents migrated stopped from Windows may still have their Windows path
+            const windowsPath = isWindowsAbsolutePath(savePath)
+                ? savePath
+                : translatePath(savePath);
+            savePaths.set(savePath, windowsPath);
+            if (!windowsPath) {
+                if (!unresolved.includes(savePath)) unresolved.push(savePath);
+                const action =
+                    unresolvedAction === 'ask' && canAsk
+                        ? await promptReverseResolution(name, savePath)
+                        : unresolvedAction;
+                if (action !== 'paused') continue;
+            }
+
+            const { content, untranslated } = rewriteFastResume(
+                entry.fastResume,
+                translatePath,
+                true,
+            );
+            untranslated
+                .filter((linuxPath) => linuxPath !== savePath || windowsPath)
+                .forEach((linuxPath) =>
+                    untranslatedPaths.push(`${linuxPath} in ${entry.infohash}`),
+                );
+            // Stopped torrents keep their Linux paths until their location is set in qBittorrent
+            let fastResume = windowsPath ? content : stopFastResume(content);
+            if (!windowsPath) stopped.push(name);
+            if (options.tags.length || options.category !== undefined) {
+                fastResume = labelFastResume(
+                    fastResume,
+                    options.tags,
+                    options.category,
+                );
+            }
+            let torrent = entry.torrent;
+            if (options.trackerRules.length) {
+                fastResume = rewriteResumeTrackers(
+                    fastResume,
+                    rewriteTracker,
+                ).content;
+                torrent =
+                    torrent &&
+                    rewriteTorrentTrackers(torrent, rewriteTracker).content;
+            }
+            migrated.push({ ...entry, name, fastResume, torrent });
+        } catch (error) {
+            rewriteErrors++;
+            console.error('❌ Error rewriting fastresume file:', error);
+        }
+    }
+
+    for (const [linuxPath, windowsPath] of savePaths) {
+        console.log(`Linux path: ${linuxPath}`);
+        console.log(
+            `Updated Windows path: ${windowsPath ?? '❓ not on a Windows drive'}\n--------------\n`,
+        );
+    }
+    if (stopped.length) {
+        console.log(
+            `📝 ${stopped.length} torrent(s) migrated stopped, set their location in qBittorrent:`,
+        );
+        stopped.forEach((name) => console.log(`   ${name}`));
+    }
+
+    const conflicts = findReverseConflicts(
+        migrated,
+        windowsEntries,
+        options.onConflict,
+    );
+    for (const conflict of conflicts) {
+        const changes = conflict.differences.length
+            ? conflict.differences.join(', ')
+            : 'identical';
+        console.log(
+            `🔀 ${conflict.name} is already on Windows (${changes}): ${conflict.action}`,
+        );
+    }
+
+    if (unresolved.length && unresolvedAction === 'ask' && !canAsk) {
+        console.error(
+            `❌ --unresolved ask needs a terminal and no --yes or --dry-run, ${unresolved.length} save path(s) are not on a Windows drive:`,
+        );
+        unresolved.forEach((linuxPath) => console.error(`   ${linuxPath}`));
+        console.error(
+            '   Map their partitions with --drive, or pass --unresolved skip, paused or fail.',
+        );
+        return ExitCode.UnresolvedPaths;
+    }
+    if (unresolved.length && unresolvedAction === 'fail') {
+        console.error(
+            `❌ No Windows drive holds ${unresolved.length} save path(s):`,
+        );
+        unresolved.forEach((linuxPath) => console.error(`   ${linuxPath}`));
+        console.error(
+            '   Map their partitions with --drive, or pass --unresolved skip or paused.',
+        );
+        return ExitCode.UnresolvedPaths;
+    }
+
+    for (const linuxPath of untranslatedPaths) {
+        console.warn(`⚠️ No Windows path for ${linuxPath}`);
+    }
+    if (!options.skipSettings) {
+        console.log(
+            '🤷 Settings are not migrated back to Windows, only torrents.',
+        );
+    }
+
+    console.log(`📄 ${migrated.length} torrents will be migrated.`);
+
+    if (options.dryRun) {
+        console.log('🔍 Dry run, nothing was written.');
+        return ExitCode.Success;
+    }
+
+    if (!options.yes) {
+        if (!isInteractive()) {
+            console.error(
+                '❌ No TTY available, pass --yes to migrate without confirmation',
+            );
+            return ExitCode.Error;
+        }
+        const confirm = await promptUserInput('Begin migration? (y/n)');
+        if (!['y', 'yes'].includes(confirm.trim().toLowerCase())) {
+            console.error('❗ Migration cancelled.');
+            return ExitCode.Success;
+        }
+    }
+
+    let backup: Backup;
+    try {
+        backup = await createBackup(WINDOWS_QBIT_DIR);
+        console.log(`🗂️ Backed up Windows BT_backup to: ${backup.dir}`);
+    } catch (error) {
+        console.error('❌ Error backing up Windows BT_backup:', error);
+        return ExitCode.WriteErrors;
+    }
+
+    // write to the Windows resume data, resolving conflicts with the Windows torrents
+    let writeErrors = rewriteErrors;
+    const windowsResume = new Map(
+        windowsEntries.map((entry) => [
+            entry.infohash.toLowerCase(),
+            entry.fastResume,
+        ]),
+    );
+    const toWrite = migrated.flatMap(({ name, ...entry }) => {
+        const conflict = conflicts.find((c) => c.infohash === entry.infohash);
+        if (conflict?.action === 'keep-windows') return [];
+        if (conflict?.action === 'merge') {
+            try {
+                const merged = mergeFastResume(
+                    entry.fastResume,
+                    windowsResume.get(entry.infohash.toLowerCase()),
+                );
+                return [{ ...entry, fastResume: merged }];
+            } catch (error) {
+                writeErrors++;
+                console.error(`❌ Error merging ${name}:`, error);
+                return [];
+            }
+        }
+        return [entry];
+    });
+    try {
+        const result = await targetStore.write(toWrite, backup);
+        writeErrors += result.errors;
+    } catch (error) {
+        writeErrors += toWrite.length;
+        console.error(`❌ Error writing to ${targetStore.location}:`, error);
+    }
+
+    console.log(
+        `🗂️ Undo this migration with: npm start -- rollback --backup "${backup.dir}"`,
+    );
+
+    // Read back what was written, reaching the Windows save paths through their mount points
+    let verifyFailed = false;
+    if (toWrite.length) {
+        console.log(`\n🔍 Verifying ${toWrite.length} written torrent(s)`);
+        try {
+            const result = await verifyResumeData(
+                targetStore,
+                toWrite.map((entry) => entry.infohash),
+                createWindowsTarget(createPathTranslator(pathMappings)),
+            );
+            printVerifyResult(result);
+            verifyFailed = result.failed > 0;
+        } catch (error) {
+            verifyFailed = true;
+            console.error('❌ Error verifying resume data:', error);
+        }
+    }
+
+    if (writeErrors) {
+        console.error(
+            `❌ Migration finished with ${writeErrors} write error(s).`,
+        );
+        return ExitCode.WriteErrors;
+    }
+    if (verifyFailed) {
+        console.error(
+            `❌ Migration finished, but the written resume data did not verify.`,
+        );
+        return ExitCode.VerifyFailed;
+    }
+    console.log('✅ Migration complete.');
+    return ExitCode.Success;
+};
@@ -0,0 +1,88 @@
+import fs from 'fs';
+import { CommandOptions, ExitCode } from './cli.js';
+import { listBackups, readManifest, restoreBackup } from './backup.js';
+import { isQBitRunning } from './qbittorrent.js';
+import { resolveLinuxBTBackup } from './btBackupSearch.js';
+import { isInteractive, promptUserInput } from './prompt.js';
+
+// The newest backup of the given or discovered BT_backup, unless one was picked with --backup
+const resolveBackupDir = async (
+    options: CommandOptions,
+): Promise<string | null> => {
+    if (options.backup) return options.backup;
+
+    const LINUX_QBIT_DIR = await resolveLinuxBTBackup(
+        options.target,
+        '--target',
+    );
+    if (!LINUX_QBIT_DIR) return null;
+
+    const [newest] = await listBackups(LINUX_QBIT_DIR);
+    if (!newest) {
+        console.log(`🤷 No backups found for ${LINUX_QBIT_DIR}.`);
+    }
+    return newest ?? null;
+};
+
+/**
+ * Restores the Linux BT_backup to its state before a migration
+ */
+export const runRollback = async (
+    options: CommandOptions,
+): Promise<ExitCode> => {
+    const backupDir = await resolveBackupDir(options);
+    if (!backupDir) return ExitCode.NothingToDo;
+    if (!fs.existsSync(backupDir)) {
+        console.error(`❌ Directory not found: ${backupDir}`);
+        return ExitCode.Error;
+    }
+
+    const manifest = await readManifest(backupDir);
+    if (await isQBitRunning(manifest.targetDir)) {
+        console.error(
+            `❌ Qbittorrent is running. Close it before rolling back.`,
+        );
+        return ExitCode.Error;
+    }
+
+    const created = manifest.files.filter((f) => f.action === 'created');
+    console.log(`\n🗂️ Backup from ${manifest.createdAt}: ${backupDir}`);
+    console.log(
+        `   ${created.length} file(s) will be deleted, ${manifest.files.length - created.length} restored.`,
+    );
+    if (manifest.relocations?.length) {
+        console.log(
+            `   ${manifest.relocations.length} relocated data file(s) will be put back.`,
+        );
+    }
+
+    if (options.dryRun) {
+        console.log('🔍 Dry run, nothing was written.');
+        return ExitCode.Success;
+    }
+
+    if (!options.yes) {
+        if (!isInteractive()) {
+            console.error(
+                '❌ No TTY available, pass --yes to roll back without confirmation',
+            );
+            return ExitCode.Error;
+        }
+        const confirm = await promptUserInput('Begin rollback? (y/n)');
+        if (!['y', 'yes'].includes(confirm.trim().toLowerCase())) {
+            console.error('❗ Rollback cancelled.');
+            return ExitCode.Success;
+        }
+    }
+
+    try {
+        const { restored, deleted, relocated } = await restoreBackup(backupDir);
+        console.log(
+            `✅ Rollback complete: ${restored} file(s) restored, ${deleted} deleted, ${relocated} relocated file(s) put back.`,
+        );
+        return ExitCode.Success;
+    } catch (error) {
+        console.error('❌ Error restoring backup:', error);
+        return ExitCode.WriteErrors;
+    }
+};
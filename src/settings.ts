@@ -0,0 +1,301 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { PathTranslator, isWindowsAbsolutePath } from './paths.js';
+import { findConfigFile } from './qbittorrent.js';
+
+const WINDOWS_CONFIG_FILE = 'qBittorrent.ini';
+const LINUX_CONFIG_FILE = 'qBittorrent.conf';
+
+// JSON settings stored next to the main config file, relative to the config directory
+const JSON_SETTINGS_FILES = [
+    'categories.json',
+    'watched_folders.json',
+    path.join('rss', 'feeds.json'),
+    path.join('rss', 'download_rules.json'),
+];
+
+// Window layout and other per-machine UI state, never carried over
+const SKIPPED_INI_KEYS =
+    /(geometry|state|(dialog|window)\\(size|pos|position))$/i;
+
+// Settings that describe this machine rather than the user's choices, matched on section\key.
+// The Linux values stay: a torrents.db from Windows would hide the .fastresume files just
+// written, and network interfaces and log folders have other names here
+const LINUX_INI_KEYS =
+    /\\(ResumeDataStorageType|Interface|InterfaceName|InterfaceAddress|FileLogger\\Path)$/i;
+
+export interface SettingsFile {
+    source: string;
+    destination: string;
+    content: string;
+    // Windows paths that were translated, and those no mapping covered
+    translated: string[];
+    untranslated: string[];
+}
+
+/**
+ * Finds the Windows config directory holding qBittorrent.ini, based on the BT_backup location:
+ * AppData/Local/qBittorrent/BT_backup => AppData/Roaming/qBittorrent,
+ * profile/qBittorrent/data/BT_backup => profile/qBittorrent/config (portable install)
+ */
+export const findWindowsConfigDir = (sourceDir: string): string | null => {
+    const dataDir = path.dirname(path.resolve(sourceDir));
+    const candidates = [
+        dataDir.replace(
+            /([\\/])AppData[\\/]Local([\\/])/i,
+            '$1AppData$1Roaming$2',
+        ),
+        path.join(path.dirname(dataDir), 'config'),
+        dataDir,
+    ];
+    return (
+        candidates.find((candidate) =>
+            fs.existsSync(path.join(candidate, WINDOWS_CONFIG_FILE)),
+        ) ?? null
+    );
+};
+
+// Config directory of the Linux install, ~/.config/qBittorrent for a default setup
+export const getLinuxConfigDir = (targetDir: string): string => {
+    const configFile = findConfigFile(targetDir);
+    if (configFile) return path.dirname(configFile);
+
+    const dataDir = path.dirname(path.resolve(targetDir));
+    const xdgDataDir = path.join(os.homedir(), '.local', 'share');
+    if (path.dirname(dataDir) === xdgDataDir) {
+        return path.join(os.homedir(), '.config', path.basename(dataDir));
+    }
+    return dataDir;
+};
+
+const createCollector = (
+    translatePath: PathTranslator,
+): {
+    translate: (value: string) => string | null;
+    translated: string[];
+    untranslated: string[];
+} => {
+    const translated: string[] = [];
+    const untranslated: string[] = [];
+    return {
+        translated,
+        untranslated,
+        // Windows paths no mapping covers are left out of the Linux settings
+        translate: (value: string): string | null => {
+            if (!isWindowsAbsolutePath(value)) return value;
+            const result = translatePath(value);
+            if (result === null) {
+                untranslated.push(value);
+                return null;
+            }
+            translated.push(value);
+            return result;
+        },
+    };
+};
+
+// QSettings INI files, kept as lines so comments and ordering survive a merge
+
+interface IniSection {
+    name: string;
+    lines: string[];
+}
+
+const parseIni = (content: string): IniSection[] => {
+    const sections: IniSection[] = [{ name: '', lines: [] }];
+    for (const line of content.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+        const header = line.match(/^\s*\[(.+)\]\s*$/);
+        if (header) {
+            sections.push({ name: header[1], lines: [] });
+        } else {
+            sections[sections.length - 1].lines.push(line);
+        }
+    }
+    // Drop the trailing blank lines of each section, they are added back on write
+    for (const section of sections) {
+        while (section.lines.length && !section.lines.at(-1).trim()) {
+            section.lines.pop();
+        }
+    }
+    return sections.filter((s) => s.name || s.lines.length);
+};
+
+const serializeIni = (sections: IniSection[]): string =>
+    sections
+        .map((section) =>
+            [
+                ...(section.name ? [`[${section.name}]`] : []),
+                ...section.lines,
+            ].join('\n'),
+        )
+        .join('\n\n') + '\n';
+
+const splitIniLine = (line: string): { key: string; value: string } | null => {
+    if (/^\s*[;#]/.test(line)) return null;
+    const separator = line.indexOf('=');
+    if (separator < 1) return null;
+    return {
+        key: line.slice(0, separator).trim(),
+        value: line.slice(separator + 1).trim(),
+    };
+};
+
+// QSettings quotes values with special characters and escapes backslashes
+const decodeIniValue = (value: string): string => {
+    const unquoted = value.match(/^"(.*)"$/)?.[1] ?? value;
+    return unquoted.replace(/\\(.)/g, '$1');
+};
+
+const encodeIniValue = (value: string): string => {
+    const escaped = value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+    return /[,;"=]|^\s|\s$/.test(value) ? `"${escaped}"` : escaped;
+};
+
+const findIniKey = (section: IniSection, key: string): number =>
+    section.lines.findIndex((line) => splitIniLine(line)?.key === key);
+
+/**
+ * Merges qBittorrent.ini into qBittorrent.conf. Windows values win, except for
+ * per-machine keys and Windows paths that could not be translated, and keys only
+ * the Linux config has are kept.
+ */
+const mergeIni = (
+    windowsContent: string,
+    linuxContent: string,
+    translate: (value: string) => string | null,
+): string => {
+    const merged = parseIni(linuxContent);
+
+    for (const windowsSection of parseIni(windowsContent)) {
+        let section = merged.find((s) => s.name === windowsSection.name);
+        if (!section) {
+            section = { name: windowsSection.name, lines: [] };
+            merged.push(section);
+        }
+
+        for (const line of windowsSection.lines) {
+            const entry = splitIniLine(line);
+            if (
+                !entry ||
+                SKIPPED_INI_KEYS.test(entry.key) ||
+                LINUX_INI_KEYS.test(`${windowsSection.name}\\${entry.key}`)
+            ) {
+                continue;
+            }
+
+            const value = decodeIniValue(entry.value);
+            const translated = translate(value);
+            if (translated === null) continue;
+            const newLine =
+                translated === value
+                    ? `${entry.key}=${entry.value}`
+                    : `${entry.key}=${encodeIniValue(translated)}`;
+
+            const index = findIniKey(section, entry.key);
+            if (index === -1) {
+                section.lines.push(newLine);
+            } else {
+                section.lines[index] = newLine;
+            }
+        }
+    }
+
+    return serializeIni(merged);
+};
+
+// Translates Windows paths in both keys and values, watched_folders.json is keyed by path.
+// Entries with a path that could not be translated are left out
+const translateJson = (
+    value: unknown,
+    translate: (value: string) => string | null,
+): unknown => {
+    if (typeof value === 'string') return translate(value);
+    if (Array.isArray(value)) {
+        return value.flatMap((item) => {
+            const newItem = translateJson(item, translate);
+            return newItem === null && item !== null ? [] : [newItem];
+        });
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(
+            Object.entries(value).flatMap(([key, item]) => {
+                const newKey = translate(key);
+                const newItem = translateJson(item, translate);
+                return newKey === null || (newItem === null && item !== null)
+                    ? []
+                    : [[newKey, newItem]];
+            }),
+        );
+    }
+    return value;
+};
+
+const readIfExists = async (file: string): Promise<string | null> => {
+    try {
+        return await fs.promises.readFile(file, 'utf-8');
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Prepares the merged Linux settings files. Nothing is written here, so the
+ * result can be shown in the plan before confirmation.
+ */
+export const planSettingsMigration = async (
+    windowsConfigDir: string,
+    linuxConfigDir: string,
+    translatePath: PathTranslator,
+): Promise<SettingsFile[]> => {
+    const settingsFiles: SettingsFile[] = [];
+
+    const iniSource = path.join(windowsConfigDir, WINDOWS_CONFIG_FILE);
+    const windowsIni = await readIfExists(iniSource);
+    if (windowsIni !== null) {
+        const destination = path.join(linuxConfigDir, LINUX_CONFIG_FILE);
+        const collector = createCollector(translatePath);
+        settingsFiles.push({
+            source: iniSource,
+            destination,
+            content: mergeIni(
+                windowsIni,
+                (await readIfExists(destination)) ?? '',
+                collector.translate,
+            ),
+            translated: collector.translated,
+            untranslated: collector.untranslated,
+        });
+    }
+
+    for (const file of JSON_SETTINGS_FILES) {
+        const source = path.join(windowsConfigDir, file);
+        const windowsJson = await readIfExists(source);
+        if (windowsJson === null) continue;
+
+        const destination = path.join(linuxConfigDir, file);
+        const linuxJson = await readIfExists(destination);
+        const collector = createCollector(translatePath);
+        try {
+            const translated = translateJson(
+                JSON.parse(windowsJson),
+                collector.translate,
+            );
+            const merged = {
+                ...(linuxJson ? JSON.parse(linuxJson) : {}),
+                ...(translated as object),
+            };
+            settingsFiles.push({
+                source,
+                destination,
+                content: JSON.stringify(merged, null, 4) + '\n',
+                translated: collector.translated,
+                untranslated: collector.untranslated,
+            });
+        } catch (error) {
+            console.error(`❌ Error reading ${source}:`, error);
+        }
+    }
+
+    return settingsFiles;
+};
@@ -0,0 +1,240 @@
+import fs from 'fs';
+import initSqlJs from 'sql.js';
+import { Backup } from './backup.js';
+import {
+    BencodeDict,
+    decodeRaw,
+    encodeRaw,
+    getText,
+    isDict,
+    setText,
+} from './rawBencode.js';
+import { ResumeEntry, ResumeStore, WriteResult } from './resumeStore.js';
+
+type SqlValue = number | string | Uint8Array | null;
+
+// qBittorrent keeps its own settings in columns rather than in libtorrent's resume data
+const TEXT_COLUMNS: Array<[column: string, field: string]> = [
+    ['name', 'qBt-name'],
+    ['category', 'qBt-category'],
+    ['target_save_path', 'qBt-savePath'],
+    ['download_path', 'qBt-downloadPath'],
+    ['content_layout', 'qBt-contentLayout'],
+    ['share_limit_action', 'qBt-shareLimitAction'],
+    ['stop_condition', 'qBt-stopCondition'],
+];
+
+const INTEGER_COLUMNS: Array<[column: string, field: string]> = [
+    ['ratio_limit', 'qBt-ratioLimit'],
+    ['seeding_time_limit', 'qBt-seedingTimeLimit'],
+    ['inactive_seeding_time_limit', 'qBt-inactiveSeedingTimeLimit'],
+    ['has_outer_pieces_priority', 'qBt-firstLastPiecePriority'],
+    ['has_seed_status', 'qBt-seedStatus'],
+    ['stopped', 'qBt-stopped'],
+];
+
+// Values for NOT NULL columns when the fastresume does not have them
+const COLUMN_DEFAULTS: Record<string, SqlValue> = {
+    queue_position: -1,
+    content_layout: 'Original',
+    ratio_limit: -2000,
+    seeding_time_limit: -2,
+    inactive_seeding_time_limit: -2,
+    share_limit_action: 'Default',
+    has_outer_pieces_priority: 0,
+    has_seed_status: 0,
+    operating_mode: 'AutoManaged',
+    stopped: 0,
+    stop_condition: 'None',
+};
+
+const loadDatabase = async (dbPath: string): Promise<initSqlJs.Database> => {
+    const SQL = await initSqlJs();
+    return new SQL.Database(await fs.promises.readFile(dbPath));
+};
+
+const decodeDict = (data: Uint8Array): BencodeDict => {
+    const decoded = decodeRaw(Buffer.from(data));
+    if (!isDict(decoded)) throw new Error('Resume data is not a dictionary');
+    return decoded;
+};
+
+// A torrents row as a fastresume with qBt-* fields, the way BT_backup stores it
+const rowToEntry = (row: Record<string, SqlValue>): ResumeEntry => {
+    const resume = decodeDict(row.libtorrent_resume_data as Uint8Array);
+
+    for (const [column, field] of TEXT_COLUMNS) {
+        if (typeof row[column] === 'string') {
+            setText(resume, field, row[column] as string);
+        }
+    }
+    for (const [column, field] of INTEGER_COLUMNS) {
+        if (typeof row[column] === 'number') {
+            resume.set(field, row[column] as number);
+        }
+    }
+    if (typeof row.tags === 'string') {
+        resume.set(
+            'qBt-tags',
+            row.tags
+                .split(',')
+                .filter(Boolean)
+                .map((tag) => Buffer.from(tag, 'utf8')),
+        );
+    }
+
+    // Some versions store only the info dictionary, BT_backup needs a full .torrent
+    let torrent: Buffer | null = null;
+    if (row.metadata instanceof Uint8Array && row.metadata.length) {
+        const metadata = decodeDict(row.metadata);
+        torrent = metadata.has('info')
+            ? Buffer.from(row.metadata)
+            : encodeRaw(new Map([['info', metadata]]));
+    }
+
+    return {
+        infohash:
+            row.torrent_id instanceof Uint8Array
+                ? Buffer.from(row.torrent_id).toString()
+                : String(row.torrent_id),
+        fastResume: encodeRaw(resume),
+        torrent,
+    };
+};
+
+const entryToRow = (
+    entry: ResumeEntry,
+    queuePosition: number,
+): Record<string, SqlValue> => {
+    const resume = decodeDict(entry.fastResume);
+    const row: Record<string, SqlValue> = {
+        ...COLUMN_DEFAULTS,
+        torrent_id: entry.infohash,
+        queue_position: queuePosition,
+    };
+
+    for (const [column, field] of TEXT_COLUMNS) {
+        const value = getText(resume, field);
+        if (value !== undefined) row[column] = value;
+    }
+    for (const [column, field] of INTEGER_COLUMNS) {
+        const value = resume.get(field);
+        if (typeof value === 'number') row[column] = value;
+    }
+    // Older qBittorrent versions only have libtorrent's paused flag
+    if (
+        !resume.has('qBt-stopped') &&
+        typeof resume.get('paused') === 'number'
+    ) {
+        row.stopped = resume.get('paused') as number;
+    }
+    const tags = resume.get('qBt-tags');
+    if (Array.isArray(tags)) {
+        row.tags = tags
+            .filter((tag): tag is Buffer => Buffer.isBuffer(tag))
+            .map((tag) => tag.toString('utf8'))
+            .join(',');
+    }
+
+    const libtorrentData: BencodeDict = new Map(
+        [...resume].filter(([key]) => !key.startsWith('qBt-')),
+    );
+    row.libtorrent_resume_data = encodeRaw(libtorrentData);
+    row.metadata = entry.torrent;
+    return row;
+};
+
+const queryRows = (
+    db: initSqlJs.Database,
+    sql: string,
+): Record<string, SqlValue>[] => {
+    const statement = db.prepare(sql);
+    const rows: Record<string, SqlValue>[] = [];
+    try {
+        while (statement.step()) rows.push(statement.getAsObject());
+    } finally {
+        statement.free();
+    }
+    return rows;
+};
+
+export const createSqliteStore = (dbPath: string): ResumeStore => ({
+    kind: 'sqlite',
+    location: dbPath,
+    read: async (): Promise<ResumeEntry[]> => {
+        const db = await loadDatabase(dbPath);
+        try {
+            const entries: ResumeEntry[] = [];
+            for (const row of queryRows(
+                db,
+                'SELECT * FROM torrents ORDER BY queue_position',
+            )) {
+                try {
+                    entries.push(rowToEntry(row));
+                } catch (error) {
+                    console.error(
+                        `❌ Error reading ${row.torrent_id} from ${dbPath}:`,
+                        error,
+                    );
+                }
+            }
+            return entries;
+        } finally {
+            db.close();
+        }
+    },
+    write: async (
+        entries: ResumeEntry[],
+        backup?: Backup,
+    ): Promise<WriteResult> => {
+        const db = await loadDatabase(dbPath);
+        const result: WriteResult = { written: 0, errors: 0 };
+        try {
+            // Only fill the columns this qBittorrent version has
+            const columns = new Set(
+                queryRows(db, 'PRAGMA table_info(torrents)').map(
+                    (column) => column.name as string,
+                ),
+            );
+            const [{ next }] = queryRows(
+                db,
+                'SELECT COALESCE(MAX(queue_position), -1) + 1 AS next FROM torrents',
+            );
+            let queuePosition = next as number;
+
+            db.run('BEGIN');
+            for (const entry of entries) {
+                try {
+                    const row = Object.fromEntries(
+                        Object.entries(
+                            entryToRow(entry, queuePosition++),
+                        ).filter(([column]) => columns.has(column)),
+                    );
+                    const names = Object.keys(row);
+                    db.run('DELETE FROM torrents WHERE torrent_id = ?', [
+                        entry.infohash,
+                    ]);
+                    db.run(
+                        `INSERT INTO torrents (${names.join(', ')}) VALUES (${names.map(() => '?').join(', ')})`,
+                        Object.values(row),
+                    );
+                    console.log(`📄 Writing ${entry.infohash} to: ${dbPath}`);
+                    result.written++;
+                } catch (error) {
+                    result.errors++;
+                    console.error(
+                        `❌ Error writing ${entry.infohash} to ${dbPath}:`,
+                        error,
+                    );
+                }
+            }
+            db.run('COMMIT');
+
+            backup?.recordWrite(dbPath);
+            await fs.promises.writeFile(dbPath, db.export());
+        } finally {
+            db.close();
+        }
+        return result;
+    },
+});
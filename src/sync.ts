@@ -0,0 +1,487 @@
+import fs from 'fs';
+import path from 'path';
+import { CommandOptions, ExitCode } from './cli.js';
+import {
+    decodeFastResume,
+    extractTorrent,
+    rewriteFastResume,
+} from './fastresume.js';
+import {
+    PathTranslator,
+    createPathTranslator,
+    createWindowsPathTranslator,
+    isWindowsAbsolutePath,
+} from './paths.js';
+import { isQBitRunning } from './qbittorrent.js';
+import { resolveLinuxBTBackup } from './btBackupSearch.js';
+import { Backup, createBackup } from './backup.js';
+import { findWindowsConfigDir } from './settings.js';
+import { isInteractive, promptUserInput } from './prompt.js';
+import { resolveSourceDir } from './migrate.js';
+import { getTorrentName, mapWindowsPaths } from './reverse.js';
+import { ResumeEntry, ResumeStore, openResumeStore } from './resumeStore.js';
+import { encodeRaw, getNumber, getText } from './rawBencode.js';
+import {
+    LINUX_TARGET,
+    VerifyTarget,
+    createWindowsTarget,
+    printVerifyResult,
+    verifyResumeData,
+} from './verify.js';
+
+const JOURNAL_FILE = 'migrator-sync.json';
+
+// Counters both clients keep adding to while they seed the same torrent
+const SYNC_FIELDS = [
+    'total_uploaded',
+    'total_downloaded',
+    'seeding_time',
+    'active_time',
+] as const;
+
+type SyncCounters = Record<(typeof SYNC_FIELDS)[number], number>;
+
+export interface SyncJournal {
+    syncedAt: string;
+    windowsDir: string;
+    linuxDir: string;
+    // Counters both sides were left with, by lowercase infohash
+    torrents: Record<string, SyncCounters>;
+}
+
+// One side of the sync: its resume data and the torrents that are written to it
+interface SyncSide {
+    name: 'Windows' | 'Linux';
+    dir: string;
+    store: ResumeStore;
+    entries: ResumeEntry[];
+    updated: ResumeEntry[];
+    added: ResumeEntry[];
+    // Set when writing to this side failed, so its counters stayed as they were
+    failed?: boolean;
+}
+
+// Kept next to the Linux BT_backup, like the migration backups
+export const getJournalFile = (linuxDir: string): string =>
+    path.join(path.dirname(path.resolve(linuxDir)), JOURNAL_FILE);
+
+// The journal of the last sync between these two directories, null before the first one
+export const readJournal = async (
+    file: string,
+    windowsDir: string,
+    linuxDir: string,
+): Promise<SyncJournal | null> => {
+    if (!fs.existsSync(file)) return null;
+    const journal: SyncJournal = JSON.parse(
+        await fs.promises.readFile(file, 'utf-8'),
+    );
+    // A BT_backup and a torrents.db next to each other share the journal file
+    if (
+        journal.windowsDir !== path.resolve(windowsDir) ||
+        journal.linuxDir !== path.resolve(linuxDir)
+    ) {
+        console.warn(
+            `⚠️ The sync journal is for ${journal.windowsDir} and ${journal.linuxDir}, counters are compared without it.`,
+        );
+        return null;
+    }
+    return journal;
+};
+
+const getCounters = (content: Buffer): SyncCounters => {
+    const resume = decodeFastResume(content);
+    return Object.fromEntries(
+        SYNC_FIELDS.map((field) => [field, getNumber(resume, field)]),
+    ) as SyncCounters;
+};
+
+const setCounters = (content: Buffer, counters: SyncCounters): Buffer => {
+    const resume = decodeFastResume(content);
+    for (const field of SYNC_FIELDS) resume.set(field, counters[field]);
+    return encodeRaw(resume);
+};
+
+/**
+ * What both sides added since the last sync on top of the synced value, so nothing is counted
+ * twice. Without a journal entry both sides share their history up to the migration,
+ * and the larger counter is carried forward.
+ */
+const mergeCounter = (
+    windows: number,
+    linux: number,
+    synced?: number,
+): number =>
+    synced === undefined
+        ? Math.max(windows, linux)
+        : synced + Math.max(windows - synced, 0) + Math.max(linux - synced, 0);
+
+const mergeCounters = (
+    windows: SyncCounters,
+    linux: SyncCounters,
+    synced?: SyncCounters,
+): SyncCounters =>
+    Object.fromEntries(
+        SYNC_FIELDS.map((field) => [
+            field,
+            mergeCounter(windows[field], linux[field], synced?.[field]),
+        ]),
+    ) as SyncCounters;
+
+const changedFields = (from: SyncCounters, to: SyncCounters): string[] =>
+    SYNC_FIELDS.filter((field) => from[field] !== to[field]);
+
+// A torrent only one side has, rewritten for the other; null when its save path has no mapping there
+const copyTorrent = (
+    entry: ResumeEntry,
+    translatePath: PathTranslator,
+    toWindows: boolean,
+): ResumeEntry | null => {
+    const savePath =
+        getText(decodeFastResume(entry.fastResume), 'save_path') ?? '';
+    // Torrents migrated stopped may still have the other system's path, which is kept
+    const needsMapping = isWindowsAbsolutePath(savePath) !== toWindows;
+    if (needsMapping && !translatePath(savePath)) return null;
+    const { content } = rewriteFastResume(
+        entry.fastResume,
+        translatePath,
+        toWindows,
+    );
+    return {
+        infohash: entry.infohash,
+        fastResume: content,
+        torrent: entry.torrent ?? extractTorrent(entry.fastResume),
+    };
+};
+
+/**
+ * Syncs two installs that both keep seeding after the migration: seeding statistics are merged
+ * into both BT_backups, and torrents added on one side are copied to the other
+ */
+export const runSync = async (options: CommandOptions): Promise<ExitCode> => {
+    if (options.webUi || options.relocate) {
+        console.error('❌ --webui and --relocate do not work with sync.');
+        return ExitCode.Error;
+    }
+
+    const WINDOWS_QBIT_DIR = await resolveSourceDir(options);
+    if (!WINDOWS_QBIT_DIR) return ExitCode.Error;
+    const LINUX_QBIT_DIR = await resolveLinuxBTBackup(
+        options.target,
+        '--target',
+    );
+    if (!LINUX_QBIT_DIR) return ExitCode.Error;
+    for (const dir of [WINDOWS_QBIT_DIR, LINUX_QBIT_DIR]) {
+        if (!fs.existsSync(dir)) {
+            console.error(`❌ Directory not found: ${dir}`);
+            return ExitCode.Error;
+        }
+    }
+
+    if (!options.dryRun && (await isQBitRunning(LINUX_QBIT_DIR))) {
+        console.error(`❌ Qbittorrent is running. Close it before syncing.`);
+        return ExitCode.Error;
+    }
+
+    const windowsConfigDir = findWindowsConfigDir(WINDOWS_QBIT_DIR);
+    const journalFile = getJournalFile(LINUX_QBIT_DIR);
+    let windows: SyncSide;
+    let linux: SyncSide;
+    let journal: SyncJournal | null;
+    try {
+        const windowsStore = await openResumeStore(
+            WINDOWS_QBIT_DIR,
+            windowsConfigDir && path.join(windowsConfigDir, 'qBittorrent.ini'),
+        );
+        const linuxStore = await openResumeStore(LINUX_QBIT_DIR);
+        windows = {
+            name: 'Windows',
+            dir: WINDOWS_QBIT_DIR,
+            store: windowsStore,
+            entries: await windowsStore.read(),
+            updated: [],
+            added: [],
+        };
+        linux = {
+            name: 'Linux',
+            dir: LINUX_QBIT_DIR,
+            store: linuxStore,
+            entries: await linuxStore.read(),
+            updated: [],
+            added: [],
+        };
+        journal = await readJournal(
+            journalFile,
+            WINDOWS_QBIT_DIR,
+            LINUX_QBIT_DIR,
+        );
+    } catch (error) {
+        console.error('❌ Error opening resume data:', error);
+        return ExitCode.Error;
+    }
+    console.log(`📄 Windows resume data: ${windows.store.location}`);
+    console.log(`📄 Linux resume data: ${linux.store.location}`);
+    if (journal) console.log(`📝 Last synced: ${journal.syncedAt}`);
+
+    if (!windows.entries.length && !linux.entries.length) {
+        console.log('🤷 No torrents found.');
+        return ExitCode.NothingToDo;
+    }
+
+    const pathMappings = await mapWindowsPaths(
+        options,
+        WINDOWS_QBIT_DIR,
+        windows.entries,
+    );
+    const toLinux = createPathTranslator(pathMappings);
+    const toWindows = createWindowsPathTranslator(pathMappings);
+
+    const synced: Record<string, SyncCounters> = {};
+    const skipped: string[] = [];
+    // Synced before and since removed on one side, they are not copied back
+    const removed: string[] = [];
+    let errors = 0;
+    const linuxById = new Map(
+        linux.entries.map((entry) => [entry.infohash.toLowerCase(), entry]),
+    );
+    const windowsIds = new Set(
+        windows.entries.map((entry) => entry.infohash.toLowerCase()),
+    );
+
+    for (const entry of windows.entries) {
+        const id = entry.infohash.toLowerCase();
+        const linuxEntry = linuxById.get(id);
+        try {
+            const name = getTorrentName(entry);
+            if (!linuxEntry && journal?.torrents[id]) {
+                removed.push(`${name} (Linux)`);
+                synced[id] = journal.torrents[id];
+                continue;
+            }
+            if (!linuxEntry) {
+                const copy = copyTorrent(entry, toLinux, false);
+                if (!copy) {
+                    skipped.push(`${name} (Windows)`);
+                    continue;
+                }
+                console.log(`📥 ${name}: new on Windows`);
+                linux.added.push(copy);
+                synced[id] = getCounters(entry.fastResume);
+                continue;
+            }
+
+            const windowsCounters = getCounters(entry.fastResume);
+            const linuxCounters = getCounters(linuxEntry.fastResume);
+            const merged = mergeCounters(
+                windowsCounters,
+                linuxCounters,
+                journal?.torrents[id],
+            );
+            synced[id] = merged;
+            const changes: string[] = [];
+            for (const [side, source, counters] of [
+                [windows, entry, windowsCounters],
+                [linux, linuxEntry, linuxCounters],
+            ] as const) {
+                const fields = changedFields(counters, merged);
+                if (!fields.length) continue;
+                side.updated.push({
+                    ...source,
+                    fastResume: setCounters(source.fastResume, merged),
+                });
+                changes.push(`${fields.join(', ')} on ${side.name}`);
+            }
+            if (changes.length) {
+                console.log(`🔀 ${name}: ${changes.join('; ')}`);
+            }
+        } catch (error) {
+            errors++;
+            console.error(`❌ Error syncing ${entry.infohash}:`, error);
+        }
+    }
+
+    for (const entry of linux.entries) {
+        const id = entry.infohash.toLowerCase();
+        if (windowsIds.has(id)) continue;
+        try {
+            const name = getTorrentName(entry);
+            if (journal?.torrents[id]) {
+                removed.push(`${name} (Windows)`);
+                synced[id] = journal.torrents[id];
+                continue;
+            }
+            const copy = copyTorrent(entry, toWindows, true);
+            if (!copy) {
+                skipped.push(`${name} (Linux)`);
+                continue;
+            }
+            console.log(`📥 ${name}: new on Linux`);
+            windows.added.push(copy);
+            synced[id] = getCounters(entry.fastResume);
+        } catch (error) {
+            errors++;
+            console.error(`❌ Error syncing ${entry.infohash}:`, error);
+        }
+    }
+
+    if (removed.length) {
+        console.log(
+            `🗑️ ${removed.length} torrent(s) removed since the last sync, not copied back:`,
+        );
+        removed.forEach((name) => console.log(`   ${name}`));
+    }
+    if (skipped.length) {
+        console.warn(
+            `⚠️ ${skipped.length} new torrent(s) skipped, their save path is not on a mapped drive:`,
+        );
+        skipped.forEach((name) => console.warn(`   ${name}`));
+        console.warn(
+            '   Map their drives with --drive, or add them with migrate or reverse.',
+        );
+    }
+
+    const sides = [windows, linux].filter(
+        (side) => side.updated.length || side.added.length,
+    );
+    for (const side of [windows, linux]) {
+        console.log(
+            `📄 ${side.name}: ${side.updated.length} torrent(s) updated, ${side.added.length} added.`,
+        );
+    }
+
+    if (options.dryRun) {
+        console.log('🔍 Dry run, nothing was written.');
+        return ExitCode.Success;
+    }
+
+    const saveJournal = async (): Promise<void> => {
+        const next: SyncJournal = {
+            syncedAt: new Date().toISOString(),
+            windowsDir: path.resolve(WINDOWS_QBIT_DIR),
+            linuxDir: path.resolve(LINUX_QBIT_DIR),
+            torrents: synced,
+        };
+        await fs.promises.writeFile(journalFile, JSON.stringify(next, null, 2));
+        console.log(`📝 Sync journal saved to: ${journalFile}`);
+    };
+
+    if (!sides.length) {
+        // Counters that already match are the baseline of the next sync
+        if (!errors) await saveJournal();
+        console.log('✅ Already in sync.');
+        return errors ? ExitCode.WriteErrors : ExitCode.NothingToDo;
+    }
+
+    if (!options.yes) {
+        if (!isInteractive()) {
+            console.error(
+                '❌ No TTY available, pass --yes to sync without confirmation',
+            );
+            return ExitCode.Error;
+        }
+        const confirm = await promptUserInput('Begin sync? (y/n)');
+        if (!['y', 'yes'].includes(confirm.trim().toLowerCase())) {
+            console.error('❗ Sync cancelled.');
+            return ExitCode.Success;
+        }
+    }
+
+    const backups: Backup[] = [];
+    for (const side of sides) {
+        try {
+            const backup = await createBackup(side.dir);
+            backups.push(backup);
+            console.log(
+                `🗂️ Backed up ${side.name} BT_backup to: ${backup.dir}`,
+            );
+        } catch (error) {
+            console.error(`❌ Error backing up ${side.name} BT_backup:`, error);
+            return ExitCode.WriteErrors;
+        }
+    }
+
+    let writeErrors = errors;
+    for (const [i, side] of sides.entries()) {
+        const toWrite = [...side.updated, ...side.added];
+        try {
+            const result = await side.store.write(toWrite, backups[i]);
+            writeErrors += result.errors;
+            side.failed = result.errors > 0;
+        } catch (error) {
+            writeErrors += toWrite.length;
+            side.failed = true;
+            console.error(`❌ Error writing to ${side.store.location}:`, error);
+        }
+        console.log(
+            `🗂️ Undo the ${side.name} changes with: npm start -- rollback --backup "${backups[i].dir}"`,
+        );
+    }
+
+    // A side that failed to write kept its counters, they are the baseline its later gains are
+    // counted from. Torrents it was not given are new to it again on the next sync
+    for (const side of sides.filter((s) => s.failed)) {
+        const other = side === windows ? linux : windows;
+        for (const entry of side.added) {
+            delete synced[entry.infohash.toLowerCase()];
+        }
+        for (const entry of side.updated) {
+            const id = entry.infohash.toLowerCase();
+            const current = side.entries.find(
+                (e) => e.infohash.toLowerCase() === id,
+            );
+            const otherUpdated = other.updated.some(
+                (e) => e.infohash.toLowerCase() === id,
+            );
+            if (!otherUpdated || !other.failed) {
+                synced[id] = getCounters(current.fastResume);
+            } else if (journal?.torrents[id]) {
+                synced[id] = journal.torrents[id];
+            } else {
+                delete synced[id];
+            }
+        }
+    }
+    try {
+        await saveJournal();
+    } catch (error) {
+        writeErrors++;
+        console.error('❌ Error saving the sync journal:', error);
+    }
+
+    // Counter updates keep the paths, only the copied torrents are checked
+    let verifyFailed = false;
+    const targets: Array<[SyncSide, VerifyTarget]> = [
+        [windows, createWindowsTarget(toLinux)],
+        [linux, LINUX_TARGET],
+    ];
+    for (const [side, target] of targets) {
+        if (!side.added.length) continue;
+        console.log(
+            `\n🔍 Verifying ${side.added.length} torrent(s) added on ${side.name}`,
+        );
+        try {
+            const result = await verifyResumeData(
+                side.store,
+                side.added.map((entry) => entry.infohash),
+                target,
+            );
+            printVerifyResult(result);
+            verifyFailed ||= result.failed > 0;
+        } catch (error) {
+            verifyFailed = true;
+            console.error('❌ Error verifying resume data:', error);
+        }
+    }
+
+    if (writeErrors) {
+        console.error(`❌ Sync finished with ${writeErrors} error(s).`);
+        return ExitCode.WriteErrors;
+    }
+    if (verifyFailed) {
+        console.error(
+            `❌ Sync finished, but the written resume data did not verify.`,
+        );
+        return ExitCode.VerifyFailed;
+    }
+    console.log('✅ Sync complete.');
+    return ExitCode.Success;
+};
@@ -0,0 +1,180 @@
+import crypto from 'crypto';
+import bencode from 'bencode';
+import { decodeRaw, getRawValue, isDict } from './rawBencode.js';
+
+export interface TorrentFile {
+    length: number;
+    path: string[];
+    // BEP 47 file attributes, 'p' marks a pad file
+    attr?: string;
+}
+
+export interface FileTreeEntry {
+    length: number;
+    attr?: string;
+}
+
+// BEP 52 file tree: directories map names to subtrees, a file holds its entry under the '' key
+export interface FileTree {
+    [name: string]: FileTree | FileTreeEntry;
+}
+
+export interface TorrentData {
+    info: {
+        name: string;
+        files?: TorrentFile[];
+        length?: number;
+        'piece length': number;
+        // v1 SHA-1 piece hashes, v2-only torrents have none
+        pieces?: Uint8Array;
+        'meta version'?: number;
+        'file tree'?: FileTree;
+    };
+}
+
+export interface ExpectedFile {
+    path: string;
+    size: number;
+}
+
+// A file in piece order, including pad files that only exist in the hashed data
+export interface ContentFile extends ExpectedFile {
+    padding: boolean;
+}
+
+export interface InfoHashes {
+    v1: string | null;
+    v2: string | null;
+}
+
+// Decode a .torrent file, keeping the raw piece hashes intact
+export const decodeTorrent = (content: Buffer): TorrentData => {
+    const decoded = bencode.decode(content, 'utf-8');
+    // utf-8 decoding mangles the binary SHA-1 hashes, take them from a raw decode instead
+    const { pieces } = bencode.decode(content).info;
+    if (pieces) decoded.info.pieces = pieces;
+    return decoded;
+};
+
+const isPadding = (attr: string | undefined): boolean =>
+    typeof attr === 'string' && attr.includes('p');
+
+const isFileTreeEntry = (
+    node: FileTree | FileTreeEntry | undefined,
+): node is FileTreeEntry =>
+    !!node && typeof (node as FileTreeEntry).length === 'number';
+
+const walkFileTree = (tree: FileTree, prefix: string[]): ContentFile[] =>
+    Object.keys(tree)
+        .sort()
+        .flatMap((name) => {
+            const node = tree[name] as FileTree;
+            const entry = node[''];
+            if (isFileTreeEntry(entry)) {
+                return [
+                    {
+                        path: [...prefix, name].join('/'),
+                        size: entry.length,
+                        padding: isPadding(entry.attr),
+                    },
+                ];
+            }
+            return walkFileTree(node, [...prefix, name]);
+        });
+
+export const isSingleFileTorrent = (torrentData: TorrentData): boolean => {
+    const { info } = torrentData;
+    if (info.files) return false;
+    if (typeof info.length === 'number') return true;
+
+    // v2: a single file sits directly at the root of the tree
+    const tree = info['file tree'];
+    if (!tree) return true;
+    const names = Object.keys(tree);
+    return (
+        names.length === 1 && isFileTreeEntry((tree[names[0]] as FileTree)[''])
+    );
+};
+
+/**
+ * Files of the torrent in piece order. Hybrid torrents use their v1 file list, which
+ * carries the pad files the v1 piece hashes cover; v2-only torrents read the file tree.
+ */
+export const getContentFiles = (torrentData: TorrentData): ContentFile[] => {
+    const { info } = torrentData;
+
+    if (info.files) {
+        // Multi-file torrent
+        return info.files.map((file) => ({
+            path: file.path.join('/'),
+            size: file.length,
+            padding: isPadding(file.attr),
+        }));
+    }
+    if (typeof info.length === 'number' || !info['file tree']) {
+        // Single-file torrent
+        return [
+            {
+                path: info.name,
+                size: info.length || 0,
+                padding: false,
+            },
+        ];
+    }
+    // The file tree of a multi-file torrent starts below the torrent name
+    return walkFileTree(info['file tree'], []);
+};
+
+export function getExpectedFiles(torrentData: TorrentData): ExpectedFile[] {
+    return getContentFiles(torrentData)
+        .filter((file) => !file.padding)
+        .map(({ path, size }) => ({ path, size }));
+}
+
+/**
+ * Files relative to the save path, with the renames from a fastresume's `mapped_files` applied.
+ * `mapped_files` is indexed like the torrent's files including pad files, empty entries are not renamed.
+ * Files moved outside the save path keep their absolute Windows path.
+ */
+export function getMappedFiles(
+    torrentData: TorrentData,
+    mappedFiles: string[],
+): ExpectedFile[] {
+    const root = isSingleFileTorrent(torrentData)
+        ? []
+        : [torrentData.info.name];
+    return getContentFiles(torrentData)
+        .map((file, index) => ({ file, mapped: mappedFiles[index] }))
+        .filter(({ file }) => !file.padding)
+        .map(({ file, mapped }) => ({
+            path: mapped
+                ? mapped.replace(/\\/g, '/')
+                : [...root, file.path].join('/'),
+            size: file.size,
+        }));
+}
+
+/**
+ * SHA-1 infohash of v1 and hybrid torrents, SHA-256 infohash of v2 and hybrid torrents
+ */
+export const getInfoHashes = (content: Buffer): InfoHashes => {
+    const info = getRawValue(content, 'info');
+    const dict = info && decodeRaw(info);
+    if (!dict || !isDict(dict)) return { v1: null, v2: null };
+
+    const hash = (algorithm: string): string =>
+        crypto.createHash(algorithm).update(info).digest('hex');
+    return {
+        v1: dict.has('pieces') ? hash('sha1') : null,
+        v2: dict.get('meta version') === 2 ? hash('sha256') : null,
+    };
+};
+
+// qBittorrent names a torrent by its v2 infohash truncated to 20 bytes, or its v1 infohash.
+// Null when the metadata has neither
+export const getTorrentId = (hashes: InfoHashes): string | null =>
+    hashes.v2 ? hashes.v2.slice(0, 40) : (hashes.v1 ?? null);
+
+// Older qBittorrent builds without v2 support name hybrid torrents by the v1 infohash
+export const matchesTorrentId = (id: string, hashes: InfoHashes): boolean =>
+    [hashes.v1, hashes.v2?.slice(0, 40)].includes(id.toLowerCase());
@@ -0,0 +1,136 @@
+import {
+    BencodeValue,
+    decodeRaw,
+    encodeRaw,
+    getRawValue,
+    isDict,
+} from './rawBencode.js';
+import { decodeFastResume } from './fastresume.js';
+
+export interface TrackerRule {
+    from: string;
+    to: string;
+    // `from` is a regular expression and `to` may use $1 etc.
+    regex?: boolean;
+}
+
+export type TrackerRewriter = (url: string) => string;
+
+export interface TrackerRewrite {
+    content: Buffer;
+    // Tracker URLs that changed
+    changed: number;
+}
+
+// Applies every rule in order, each one to the result of the previous
+export const createTrackerRewriter = (
+    rules: TrackerRule[],
+): TrackerRewriter => {
+    const compiled = rules.map((rule): TrackerRewriter => {
+        if (!rule.regex) return (url) => url.split(rule.from).join(rule.to);
+        const pattern = new RegExp(rule.from, 'g');
+        return (url) => url.replace(pattern, rule.to);
+    });
+    return (url) => compiled.reduce((result, apply) => apply(result), url);
+};
+
+// Rewrites URLs in a list of tiers, each a list of URLs, in place
+const rewriteTiers = (
+    tiers: BencodeValue,
+    rewrite: TrackerRewriter,
+): number => {
+    if (!Array.isArray(tiers)) return 0;
+    let changed = 0;
+    for (const tier of tiers) {
+        if (!Array.isArray(tier)) continue;
+        tier.forEach((url, i) => {
+            if (!Buffer.isBuffer(url)) return;
+            const updated = rewrite(url.toString('utf8'));
+            if (updated !== url.toString('utf8')) {
+                tier[i] = Buffer.from(updated, 'utf8');
+                changed++;
+            }
+        });
+    }
+    return changed;
+};
+
+// Rewrites the tr= parameters of a magnet link
+const rewriteMagnetUri = (
+    magnetUri: string,
+    rewrite: TrackerRewriter,
+): { magnetUri: string; changed: number } => {
+    let changed = 0;
+    const rewritten = magnetUri.replace(
+        /([?&]tr=)([^&]*)/g,
+        (param, prefix: string, value: string) => {
+            const url = decodeURIComponent(value);
+            const updated = rewrite(url);
+            if (updated === url) return param;
+            changed++;
+            return `${prefix}${encodeURIComponent(updated)}`;
+        },
+    );
+    return { magnetUri: rewritten, changed };
+};
+
+// libtorrent keeps the tracker list of a torrent in its resume data, next to the magnet link it was added with
+export const rewriteResumeTrackers = (
+    content: Buffer,
+    rewrite: TrackerRewriter,
+): TrackerRewrite => {
+    const resume = decodeFastResume(content);
+    const tierChanges = rewriteTiers(resume.get('trackers'), rewrite);
+    let magnetChanges = 0;
+    for (const field of ['magnet-uri', 'qBt-magnetUri']) {
+        const value = resume.get(field);
+        if (!Buffer.isBuffer(value)) continue;
+        const magnet = rewriteMagnetUri(value.toString('utf8'), rewrite);
+        if (magnet.changed) {
+            resume.set(field, Buffer.from(magnet.magnetUri, 'utf8'));
+            magnetChanges += magnet.changed;
+        }
+    }
+    // The magnet link usually repeats the tracker list, its URLs are not counted twice
+    const changed = Math.max(tierChanges, magnetChanges);
+    return { content: changed ? encodeRaw(resume) : content, changed };
+};
+
+/**
+ * Rewrites `announce` and `announce-list` of a .torrent file. The info dictionary is
+ * carried over byte for byte, so the infohash cannot change.
+ */
+export const rewriteTorrentTrackers = (
+    content: Buffer,
+    rewrite: TrackerRewriter,
+): TrackerRewrite => {
+    const torrent = decodeRaw(content);
+    if (!isDict(torrent)) {
+        throw new Error('Torrent data is not a bencoded dictionary');
+    }
+
+    let changed = rewriteTiers(torrent.get('announce-list'), rewrite);
+    const announce = torrent.get('announce');
+    if (Buffer.isBuffer(announce)) {
+        const updated = rewrite(announce.toString('utf8'));
+        if (updated !== announce.toString('utf8')) {
+            torrent.set('announce', Buffer.from(updated, 'utf8'));
+            changed++;
+        }
+    }
+    if (!changed) return { content, changed };
+
+    // Re-encoding would sort the keys of an info dictionary written out of order
+    const info = getRawValue(content, 'info');
+    const output = Buffer.concat([
+        Buffer.from('d'),
+        ...[...torrent.keys()]
+            .sort()
+            .flatMap((key) => [
+                encodeRaw(Buffer.from(key, 'latin1')),
+                key === 'info' && info ? info : encodeRaw(torrent.get(key)),
+            ]),
+        Buffer.from('e'),
+    ]);
+    return { content: output, changed };
+};
@@ -0,0 +1,121 @@
+import fs from 'fs';
+import path from 'path';
+import { PathMatchResult, rankTorrentPaths } from './pathMatcher.js';
+import { promptUserInput } from './prompt.js';
+import { TorrentData } from './torrent.js';
+
+export const UNRESOLVED_ACTIONS = ['ask', 'skip', 'paused', 'fail'] as const;
+
+export type UnresolvedAction = (typeof UNRESOLVED_ACTIONS)[number];
+
+// What was done with a torrent whose data was not found
+export type Resolution =
+    | { action: 'manual'; linuxPath: string; match: PathMatchResult | null }
+    | { action: 'skip' }
+    | { action: 'paused' };
+
+export interface UnresolvedTorrent {
+    name: string;
+    windowsPath: string;
+    torrent: TorrentData;
+    mappedFiles?: string[];
+}
+
+/**
+ * Checks the torrent's files at a location entered by hand, the same way
+ * search results are checked. Returns null when none of its files are there.
+ */
+export const validateManualPath = async (
+    unresolved: UnresolvedTorrent,
+    linuxPath: string,
+): Promise<PathMatchResult | null> => {
+    const [best] = await rankTorrentPaths(unresolved.torrent, [linuxPath], {
+        samplePieces: 0,
+        mappedFiles: unresolved.mappedFiles,
+    });
+    return best && best.existingFiles > 0 ? best : null;
+};
+
+const askYesNo = async (question: string): Promise<boolean> =>
+    ['y', 'yes'].includes(
+        (await promptUserInput(`${question} (y/n)`)).trim().toLowerCase(),
+    );
+
+const promptManualPath = async (
+    unresolved: UnresolvedTorrent,
+): Promise<Resolution | null> => {
+    const input = (
+        await promptUserInput('Linux directory holding the data')
+    ).trim();
+    if (!input) return null;
+
+    const linuxPath = path.resolve(input);
+    if (!fs.existsSync(linuxPath)) {
+        console.error(`❌ Directory not found: ${linuxPath}`);
+        return null;
+    }
+    const match = await validateManualPath(unresolved, linuxPath);
+    if (match) {
+        console.log(
+            `✅ Found ${match.existingFiles}/${match.totalFiles} files at ${linuxPath}`,
+        );
+        return { action: 'manual', linuxPath, match };
+    }
+    // The data may still be on its way, e.g. on a drive that is not mounted yet
+    console.warn(`⚠️ None of the torrent's files were found at ${linuxPath}`);
+    return (await askYesNo('Use it anyway?'))
+        ? { action: 'manual', linuxPath, match: null }
+        : null;
+};
+
+/**
+ * Asks what to do with a torrent no Linux location was found for: enter its
+ * location by hand, leave it out, or migrate it stopped with its Windows path
+ * so its location can be set in qBittorrent later.
+ */
+export const promptResolution = async (
+    unresolved: UnresolvedTorrent,
+): Promise<Resolution> => {
+    console.log(
+        `\n❓ ${unresolved.name}: no data found for ${unresolved.windowsPath}`,
+    );
+    for (;;) {
+        const answer = (
+            await promptUserInput(
+                '[m]anual path, [s]kip, or migrate [p]aused with its Windows path',
+            )
+        )
+            .trim()
+            .toLowerCase();
+        if (answer === 's' || answer === 'skip') return { action: 'skip' };
+        if (answer === 'p' || answer === 'paused') {
+            return { action: 'paused' };
+        }
+        if (answer === 'm' || answer === 'manual') {
+            const resolution = await promptManualPath(unresolved);
+            if (resolution) return resolution;
+        }
+    }
+};
+
+/**
+ * Asks what to do with a torrent migrated back to Windows whose Linux save path is on
+ * no Windows drive: leave it out, or migrate it stopped with its Linux path.
+ */
+export const promptReverseResolution = async (
+    name: string,
+    linuxPath: string,
+): Promise<'skip' | 'paused'> => {
+    console.log(`\n❓ ${name}: ${linuxPath} is not on a Windows drive`);
+    for (;;) {
+        const answer = (
+            await promptUserInput(
+                '[s]kip, or migrate [p]aused with its Linux path',
+            )
+        )
+            .trim()
+            .toLowerCase();
+        if (answer === 's' || answer === 'skip') return 'skip';
+        if (answer === 'p' || answer === 'paused') return 'paused';
+    }
+};
@@ -0,0 +1,279 @@
+import fs from 'fs';
+import path from 'path';
+import { CommandOptions, ExitCode } from './cli.js';
+import { resolveLinuxBTBackup } from './btBackupSearch.js';
+import {
+    FASTRESUME_PATH_FIELDS,
+    decodeFastResume,
+    getResumeName,
+    isComplete,
+} from './fastresume.js';
+import {
+    PathTranslator,
+    isLinuxAbsolutePath,
+    isWindowsAbsolutePath,
+} from './paths.js';
+import { BencodeDict, getText } from './rawBencode.js';
+import { ResumeEntry, ResumeStore, openResumeStore } from './resumeStore.js';
+import {
+    TorrentData,
+    decodeTorrent,
+    getInfoHashes,
+    getMappedFiles,
+    matchesTorrentId,
+} from './torrent.js';
+
+export interface TorrentCheck {
+    infohash: string;
+    name: string;
+    // Problems that make qBittorrent fail to load the torrent or its data
+    errors: string[];
+    // Problems it recovers from, e.g. missing data of an unfinished download
+    warnings: string[];
+}
+
+export interface VerifyResult {
+    checks: TorrentCheck[];
+    failed: number;
+}
+
+// The system whose qBittorrent loads the resume data
+export interface VerifyTarget {
+    // Paths that system cannot open, e.g. Windows paths on Linux
+    isForeignPath: (value: string) => boolean;
+    foreignName: string;
+    // Where a path of the resume data is on this machine, null when it is not reachable from here
+    localPath: PathTranslator;
+}
+
+export const LINUX_TARGET: VerifyTarget = {
+    isForeignPath: isWindowsAbsolutePath,
+    foreignName: 'Windows',
+    localPath: (savePath) => savePath,
+};
+
+// Resume data written for Windows, its drives reached through their mount points
+export const createWindowsTarget = (
+    translatePath: PathTranslator,
+): VerifyTarget => ({
+    isForeignPath: isLinuxAbsolutePath,
+    foreignName: 'Linux',
+    localPath: translatePath,
+});
+
+// Path fields of the resume data still holding a foreign path, e.g. `mapped_files[2]`.
+// Binary fields such as `pieces` or `peers` may start with the same bytes, they are not looked at
+const findForeignPaths = (
+    resume: BencodeDict,
+    target: VerifyTarget,
+): string[] => {
+    const fields: string[] = FASTRESUME_PATH_FIELDS.filter((field) => {
+        const value = getText(resume, field);
+        return !!value && target.isForeignPath(value);
+    });
+    const mappedFiles = resume.get('mapped_files');
+    if (Array.isArray(mappedFiles)) {
+        mappedFiles.forEach((entry, i) => {
+            if (
+                Buffer.isBuffer(entry) &&
+                target.isForeignPath(entry.toString('utf8'))
+            ) {
+                fields.push(`mapped_files[${i}]`);
+            }
+        });
+    }
+    return fields;
+};
+
+const checkEntry = (entry: ResumeEntry, target: VerifyTarget): TorrentCheck => {
+    const check: TorrentCheck = {
+        infohash: entry.infohash,
+        name: entry.infohash,
+        errors: [],
+        warnings: [],
+    };
+
+    let resume;
+    try {
+        resume = decodeFastResume(entry.fastResume);
+    } catch (error) {
+        check.errors.push(`resume data does not decode: ${error.message}`);
+        return check;
+    }
+
+    // Added by magnet link and still without metadata, only its paths can be checked
+    let torrentData: TorrentData | null = null;
+    if (entry.torrent) {
+        try {
+            torrentData = decodeTorrent(entry.torrent);
+        } catch (error) {
+            check.errors.push(
+                `.torrent file does not decode: ${error.message}`,
+            );
+            return check;
+        }
+        check.name = getText(resume, 'qBt-name') || torrentData.info.name;
+
+        const hashes = getInfoHashes(entry.torrent);
+        if (!matchesTorrentId(entry.infohash, hashes)) {
+            check.errors.push(
+                `infohash of the .torrent is ${hashes.v2?.slice(0, 40) ?? hashes.v1}`,
+            );
+        }
+    } else {
+        check.name = getResumeName(entry.fastResume) ?? entry.infohash;
+        check.warnings.push('no metadata, it is fetched from peers');
+    }
+
+    // Torrents migrated stopped keep their old path on purpose, until their location is set
+    const stopped =
+        resume.get('qBt-stopped') === 1 || resume.get('paused') === 1;
+    const foreignFields = findForeignPaths(resume, target);
+    if (foreignFields.length) {
+        (stopped ? check.warnings : check.errors).push(
+            `${target.foreignName} path left in ${foreignFields.join(', ')}`,
+        );
+        return check;
+    }
+    if (!torrentData) return check;
+
+    // Files of an unfinished download may not exist yet
+    const problems = isComplete(resume) ? check.errors : check.warnings;
+    const savePath = getText(resume, 'save_path');
+    const localSavePath = savePath && target.localPath(savePath);
+    if (savePath && !localSavePath) {
+        check.warnings.push(`save path not reachable from here: ${savePath}`);
+        return check;
+    }
+    if (!localSavePath || !fs.existsSync(localSavePath)) {
+        problems.push(`save path not found: ${savePath ?? '(none)'}`);
+        return check;
+    }
+    const mappedFiles = resume.get('mapped_files');
+    const files = getMappedFiles(
+        torrentData,
+        Array.isArray(mappedFiles)
+            ? mappedFiles.map((file) =>
+                  Buffer.isBuffer(file) ? file.toString('utf8') : '',
+              )
+            : [],
+    );
+    for (const file of files) {
+        // Files moved outside the save path keep an absolute path
+        const filePath = isWindowsAbsolutePath(file.path)
+            ? target.localPath(file.path)
+            : path.resolve(localSavePath, file.path);
+        if (!filePath) continue;
+        let size: number;
+        try {
+            size = fs.statSync(filePath).size;
+        } catch {
+            problems.push(`missing: ${filePath}`);
+            continue;
+        }
+        if (size !== file.size) {
+            problems.push(`size ${size} ≠ ${file.size}: ${filePath}`);
+        }
+    }
+    return check;
+};
+
+/**
+ * Checks resume data the way qBittorrent will load it: every entry decodes, has its
+ * .torrent under the right infohash, points at existing data and holds no path of the
+ * other system. Pass `infohashes` to only check those torrents.
+ */
+export const verifyResumeData = async (
+    store: ResumeStore,
+    infohashes?: string[],
+    target: VerifyTarget = LINUX_TARGET,
+): Promise<VerifyResult> => {
+    const wanted =
+        infohashes && new Set(infohashes.map((h) => h.toLowerCase()));
+    const entries = (await store.read()).filter(
+        (entry) => !wanted || wanted.has(entry.infohash.toLowerCase()),
+    );
+    const checks = entries.map((entry) => checkEntry(entry, target));
+
+    // A .torrent without resume data is not loaded at all
+    if (store.kind === 'folder') {
+        for (const file of await fs.promises.readdir(store.location)) {
+            const infohash = file.replace(/\.torrent$/, '');
+            if (
+                file.endsWith('.torrent') &&
+                (!wanted || wanted.has(infohash.toLowerCase())) &&
+                !fs.existsSync(
+                    path.join(store.location, `${infohash}.fastresume`),
+                )
+            ) {
+                checks.push({
+                    infohash,
+                    name: infohash,
+                    errors: ['no .fastresume file'],
+                    warnings: [],
+                });
+            }
+        }
+    }
+
+    return {
+        checks,
+        failed: checks.filter((check) => check.errors.length).length,
+    };
+};
+
+export const printVerifyResult = (result: VerifyResult): void => {
+    for (const check of result.checks) {
+        if (!check.errors.length && !check.warnings.length) continue;
+        const label =
+            check.name === check.infohash
+                ? check.name
+                : `${check.name} (${check.infohash})`;
+        console.log(`${check.errors.length ? '❌' : '⚠️'} ${label}`);
+        check.errors.forEach((error) => console.log(`   ${error}`));
+        check.warnings.forEach((warning) => console.log(`   ⚠️ ${warning}`));
+    }
+    if (result.failed) {
+        console.error(
+            `❌ Verification failed for ${result.failed} of ${result.checks.length} torrent(s).`,
+        );
+    } else {
+        const warned = result.checks.filter(
+            (check) => check.warnings.length,
+        ).length;
+        console.log(
+            `✅ Verified ${result.checks.length} torrent(s), all passed${warned ? ` (${warned} with warnings)` : ''}.`,
+        );
+    }
+};
+
+/**
+ * Verifies the Linux BT_backup or torrents.db, the one from --target or the discovered one
+ */
+export const runVerify = async (options: CommandOptions): Promise<ExitCode> => {
+    const LINUX_QBIT_DIR = await resolveLinuxBTBackup(
+        options.target,
+        '--target',
+    );
+    if (!LINUX_QBIT_DIR) return ExitCode.Error;
+    if (!fs.existsSync(LINUX_QBIT_DIR)) {
+        console.error(`❌ Directory not found: ${LINUX_QBIT_DIR}`);
+        return ExitCode.Error;
+    }
+
+    let result: VerifyResult;
+    try {
+        const store = await openResumeStore(LINUX_QBIT_DIR);
+        console.log(`\n🔍 Verifying: ${store.location}\n`);
+        result = await verifyResumeData(store);
+    } catch (error) {
+        console.error('❌ Error reading resume data:', error);
+        return ExitCode.Error;
+    }
+    if (!result.checks.length) {
+        console.log('🤷 No torrents found.');
+        return ExitCode.NothingToDo;
+    }
+    printVerifyResult(result);
+    return result.failed ? ExitCode.VerifyFailed : ExitCode.Success;
+};
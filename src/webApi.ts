@@ -0,0 +1,341 @@
+import { buildMagnetUri, decodeFastResume, isComplete } from './fastresume.js';
+import { BencodeDict, BencodeValue, encodeRaw, getText } from './rawBencode.js';
+import { ResumeEntry, ResumeStore, WriteResult } from './resumeStore.js';
+import { decodeTorrent, getMappedFiles } from './torrent.js';
+
+// How long to wait for an added torrent to show up in the torrent list
+const ADD_POLL_ATTEMPTS = 20;
+const ADD_POLL_INTERVAL = 500;
+
+export class WebApiError extends Error {
+    constructor(
+        message: string,
+        public status?: number,
+    ) {
+        super(message);
+        this.name = 'WebApiError';
+    }
+}
+
+export interface WebApiOptions {
+    // Web UI address, e.g. http://localhost:8080
+    url: string;
+    // Not needed when the Web UI bypasses authentication for localhost
+    username?: string;
+    password?: string;
+}
+
+export interface WebApiClient {
+    url: string;
+    login: () => Promise<void>;
+    get: <T>(apiPath: string, params?: Record<string, string>) => Promise<T>;
+    post: (
+        apiPath: string,
+        body: Record<string, string> | FormData,
+    ) => Promise<string>;
+}
+
+// Fields of /api/v2/torrents/info the migration uses
+interface ApiTorrent {
+    hash: string;
+    name: string;
+    save_path: string;
+    category: string;
+    tags: string;
+    uploaded: number;
+    downloaded: number;
+    seeding_time: number;
+    added_on: number;
+    completion_on: number;
+    last_activity: number;
+}
+
+const sleep = (ms: number): Promise<void> =>
+    new Promise((resolve) => setTimeout(resolve, ms));
+
+export const createWebApiClient = (options: WebApiOptions): WebApiClient => {
+    const baseUrl = options.url.replace(/\/+$/, '');
+    let cookie: string | null = null;
+
+    const request = async (
+        apiPath: string,
+        init: RequestInit = {},
+    ): Promise<string> => {
+        const response = await fetch(`${baseUrl}/api/v2/${apiPath}`, {
+            ...init,
+            // qBittorrent rejects requests whose Referer does not match its host
+            headers: { Referer: baseUrl, ...(cookie && { Cookie: cookie }) },
+        });
+        if (!response.ok) {
+            throw new WebApiError(
+                `${apiPath} failed with HTTP ${response.status}`,
+                response.status,
+            );
+        }
+        return response.text();
+    };
+
+    return {
+        url: baseUrl,
+        login: async (): Promise<void> => {
+            if (!options.username) return;
+            const response = await fetch(`${baseUrl}/api/v2/auth/login`, {
+                method: 'POST',
+                headers: { Referer: baseUrl },
+                body: new URLSearchParams({
+                    username: options.username,
+                    password: options.password ?? '',
+                }),
+            });
+            const text = await response.text();
+            const sid = response.headers.get('set-cookie')?.match(/SID=[^;]+/);
+            if (!response.ok || text.trim() === 'Fails.' || !sid) {
+                throw new WebApiError(
+                    response.status === 403
+                        ? 'Login refused, the IP is banned after too many failed attempts'
+                        : 'Login failed, check the username and password',
+                    response.status,
+                );
+            }
+            cookie = sid[0];
+        },
+        get: async <T>(
+            apiPath: string,
+            params: Record<string, string> = {},
+        ): Promise<T> => {
+            const query = new URLSearchParams(params).toString();
+            return JSON.parse(
+                await request(query ? `${apiPath}?${query}` : apiPath),
+            );
+        },
+        post: (apiPath, body) =>
+            request(apiPath, {
+                method: 'POST',
+                body:
+                    body instanceof FormData ? body : new URLSearchParams(body),
+            }),
+    };
+};
+
+const getNumber = (resume: BencodeDict, key: string): number | undefined => {
+    const value = resume.get(key);
+    return typeof value === 'number' || typeof value === 'bigint'
+        ? Number(value)
+        : undefined;
+};
+
+// A torrent from the API as a fastresume with the fields conflict detection compares
+const toResumeEntry = (torrent: ApiTorrent): ResumeEntry => {
+    const tags = torrent.tags
+        .split(',')
+        .map((tag) => tag.trim())
+        .filter(Boolean);
+    const resume: BencodeDict = new Map<string, BencodeValue>([
+        ['total_uploaded', torrent.uploaded],
+        ['total_downloaded', torrent.downloaded],
+        ['seeding_time', torrent.seeding_time],
+        ['added_time', torrent.added_on],
+        ['completed_time', Math.max(torrent.completion_on, 0)],
+        ['last_upload', torrent.last_activity],
+        ['save_path', Buffer.from(torrent.save_path, 'utf8')],
+        ['qBt-category', Buffer.from(torrent.category, 'utf8')],
+        ['qBt-tags', tags.map((tag) => Buffer.from(tag, 'utf8'))],
+    ]);
+    return {
+        infohash: torrent.hash,
+        fastResume: encodeRaw(resume),
+        torrent: null,
+    };
+};
+
+const isStopped = (resume: BencodeDict): boolean =>
+    (getNumber(resume, 'qBt-stopped') ?? getNumber(resume, 'paused')) === 1;
+
+// qBittorrent stores limits as in its settings: ratio times 1000, -2 for the global limit
+const shareLimits = (resume: BencodeDict): Record<string, string> => {
+    const ratioLimit = getNumber(resume, 'qBt-ratioLimit');
+    return {
+        ratioLimit: String(ratioLimit === undefined ? -2 : ratioLimit / 1000),
+        seedingTimeLimit: String(
+            getNumber(resume, 'qBt-seedingTimeLimit') ?? -2,
+        ),
+        inactiveSeedingTimeLimit: String(
+            getNumber(resume, 'qBt-inactiveSeedingTimeLimit') ?? -2,
+        ),
+    };
+};
+
+const buildAddForm = (entry: ResumeEntry, resume: BencodeDict): FormData => {
+    const form = new FormData();
+    // Without metadata, qBittorrent fetches it from peers like for any magnet link
+    if (entry.torrent) {
+        form.append(
+            'torrents',
+            new Blob([entry.torrent]),
+            `${entry.infohash}.torrent`,
+        );
+    } else {
+        form.append('urls', buildMagnetUri(entry.fastResume, entry.infohash));
+    }
+    // save_path is the incomplete folder while a download is in progress
+    form.append(
+        'savepath',
+        getText(resume, 'qBt-savePath') || getText(resume, 'save_path'),
+    );
+    const downloadPath = getText(resume, 'qBt-downloadPath');
+    if (downloadPath) {
+        form.append('downloadPath', downloadPath);
+        form.append('useDownloadPath', 'true');
+    }
+    form.append('autoTMM', 'false');
+    form.append('category', getText(resume, 'qBt-category') ?? '');
+    const tags = resume.get('qBt-tags');
+    if (Array.isArray(tags)) {
+        form.append(
+            'tags',
+            tags
+                .filter((tag): tag is Buffer => Buffer.isBuffer(tag))
+                .map((tag) => tag.toString('utf8'))
+                .join(','),
+        );
+    }
+    const name = getText(resume, 'qBt-name');
+    if (name) form.append('rename', name);
+    // Renamed files already reflect the content layout chosen on Windows
+    form.append('contentLayout', 'Original');
+    form.append('skip_checking', String(isComplete(resume)));
+    // Added stopped so files can be renamed first, started afterwards if it was running
+    form.append('paused', 'true');
+    form.append('stopped', 'true');
+    form.append('upLimit', String(getNumber(resume, 'upload_rate_limit') ?? 0));
+    form.append(
+        'dlLimit',
+        String(getNumber(resume, 'download_rate_limit') ?? 0),
+    );
+    form.append(
+        'sequentialDownload',
+        String(getNumber(resume, 'sequential_download') === 1),
+    );
+    form.append(
+        'firstLastPiecePrio',
+        String(getNumber(resume, 'qBt-firstLastPiecePriority') === 1),
+    );
+    for (const [field, value] of Object.entries(shareLimits(resume))) {
+        form.append(field, value);
+    }
+    return form;
+};
+
+const waitForTorrent = async (
+    client: WebApiClient,
+    hash: string,
+): Promise<void> => {
+    for (let attempt = 0; attempt < ADD_POLL_ATTEMPTS; attempt++) {
+        const torrents = await client.get<ApiTorrent[]>('torrents/info', {
+            hashes: hash,
+        });
+        if (torrents.length) return;
+        await sleep(ADD_POLL_INTERVAL);
+    }
+    throw new WebApiError(`${hash} did not appear after adding it`);
+};
+
+/**
+ * Adds one torrent with the settings of its fastresume, then applies what
+ * /torrents/add cannot: share limits, renamed files and the running state.
+ */
+const addTorrent = async (
+    client: WebApiClient,
+    entry: ResumeEntry,
+): Promise<void> => {
+    const resume = decodeFastResume(entry.fastResume);
+    const response = await client.post(
+        'torrents/add',
+        buildAddForm(entry, resume),
+    );
+    if (response.trim() === 'Fails.') {
+        throw new WebApiError(`qBittorrent refused to add ${entry.infohash}`);
+    }
+    await waitForTorrent(client, entry.infohash);
+
+    // Older versions ignore share limits passed to /torrents/add
+    await client.post('torrents/setShareLimits', {
+        hashes: entry.infohash,
+        ...shareLimits(resume),
+    });
+
+    const mappedFiles = resume.get('mapped_files');
+    if (Array.isArray(mappedFiles) && entry.torrent) {
+        const torrentData = decodeTorrent(entry.torrent);
+        const original = getMappedFiles(torrentData, []);
+        const renamed = getMappedFiles(
+            torrentData,
+            mappedFiles.map((file) =>
+                Buffer.isBuffer(file) ? file.toString() : '',
+            ),
+        );
+        for (let i = 0; i < original.length; i++) {
+            // Files moved outside the save path cannot be expressed through the API
+            if (
+                original[i].path === renamed[i].path ||
+                renamed[i].path.startsWith('/')
+            ) {
+                continue;
+            }
+            await client.post('torrents/renameFile', {
+                hash: entry.infohash,
+                oldPath: original[i].path,
+                newPath: renamed[i].path,
+            });
+        }
+    }
+
+    if (!isStopped(resume)) {
+        try {
+            await client.post('torrents/start', { hashes: entry.infohash });
+        } catch (error) {
+            // Before qBittorrent 5.0 the endpoint was called resume
+            if (!(error instanceof WebApiError) || error.status !== 404) {
+                throw error;
+            }
+            await client.post('torrents/resume', { hashes: entry.infohash });
+        }
+    }
+};
+
+/**
+ * A running qBittorrent reached through its Web API, for headless installs
+ * where BT_backup cannot be written while the client is running.
+ * Torrents the client already has are left alone, the API cannot change their stats.
+ */
+export const createWebApiStore = (client: WebApiClient): ResumeStore => ({
+    kind: 'webapi',
+    location: client.url,
+    read: async (): Promise<ResumeEntry[]> =>
+        (await client.get<ApiTorrent[]>('torrents/info')).map(toResumeEntry),
+    write: async (entries: ResumeEntry[]): Promise<WriteResult> => {
+        const existing = new Set(
+            (await client.get<ApiTorrent[]>('torrents/info')).map((torrent) =>
+                torrent.hash.toLowerCase(),
+            ),
+        );
+        const result: WriteResult = { written: 0, errors: 0 };
+        for (const entry of entries) {
+            if (existing.has(entry.infohash.toLowerCase())) {
+                console.warn(
+                    `⚠️ ${entry.infohash} is already in qBittorrent, left as it is`,
+                );
+                continue;
+            }
+            try {
+                console.log(`📄 Adding ${entry.infohash} to: ${client.url}`);
+                await addTorrent(client, entry);
+                result.written++;
+            } catch (error) {
+                result.errors++;
+                console.error(`❌ Error adding ${entry.infohash}:`, error);
+            }
+        }
+        return result;
+    },
+});